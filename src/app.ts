@@ -0,0 +1,288 @@
+import { MongoService } from './services/mongo.service';
+import { B2Service } from './services/b2.service';
+import { S3Service } from './services/s3.service';
+import { FilesystemService } from './services/filesystem.service';
+import { BackupService } from './services/backup.service';
+import { SnapshotService } from './services/snapshot.service';
+import { RestoreService } from './services/restore.service';
+import { RetentionService } from './services/retention.service';
+import { VerifyService } from './services/verify.service';
+import { DrillError, DrillService } from './services/drill.service';
+import { ChangeStreamService } from './services/change-stream.service';
+import { SchedulerService } from './services/scheduler.service';
+import { RunCoordinatorError, RunCoordinatorService } from './services/run-coordinator.service';
+import { Config } from './types/config.types';
+import { SnapshotManifest } from './types/manifest.types';
+import { DrillReport } from './types/drill.types';
+import { StorageBackend } from './types/storage.types';
+import logger from './utils/logger.util';
+import { BackupError } from './utils/errors';
+import { ensureDirectoryExists } from './utils/file.util';
+import path from 'path';
+import { readdir, rm, unlink } from 'fs/promises';
+
+export interface AppServices {
+  config: Config;
+  backupPath: string;
+  mongoService: MongoService;
+  storage: StorageBackend;
+  backupService: BackupService;
+  snapshotService: SnapshotService;
+  restoreService: RestoreService;
+  retentionService: RetentionService;
+  verifyService: VerifyService;
+  drillService: DrillService;
+  changeStreamService: ChangeStreamService;
+  runCoordinator: RunCoordinatorService;
+}
+
+export async function createServices(config: Config): Promise<AppServices> {
+  // Ensure backup directory exists
+  const backupPath = config.backup.path;
+  await ensureDirectoryExists(backupPath);
+  logger.info('Using backup directory', { backupPath });
+
+  const mongoService = new MongoService(
+    config.mongo.containerName,
+    config.mongo.uri,
+    backupPath
+  );
+
+  const storage = createStorageBackend(config);
+
+  const encryption = config.encryption.keyId
+    ? { keyId: config.encryption.keyId, key: config.encryption.keyring[config.encryption.keyId] }
+    : undefined;
+  const filter = { include: config.backup.include, exclude: config.backup.exclude };
+
+  const backupService = new BackupService(
+    mongoService,
+    storage,
+    backupPath,
+    {
+      extendedJsonMode: config.backup.extendedJsonMode,
+      chunkSize: config.backup.chunkSize,
+      compression: config.backup.compression,
+      streaming: config.backup.streaming,
+      filter,
+      oplog: config.backup.oplog,
+      encryption
+    }
+  );
+
+  const changeStreamService = new ChangeStreamService(mongoService, storage, {
+    path: config.changes.path,
+    segmentDuration: config.changes.segmentDuration,
+    maxSegmentSize: config.backup.chunkSize,
+    stateFile: config.changes.stateFile,
+    compression: config.backup.compression,
+    encryption,
+    filter
+  });
+
+  const snapshotService = new SnapshotService(storage);
+
+  return {
+    config,
+    backupPath,
+    mongoService,
+    storage,
+    backupService,
+    snapshotService,
+    restoreService: new RestoreService(mongoService, storage, snapshotService, config.encryption.keyring),
+    retentionService: new RetentionService(storage, snapshotService),
+    verifyService: new VerifyService(storage, snapshotService, config.encryption.keyring),
+    drillService: new DrillService(mongoService, storage, snapshotService, config.drill, config.encryption.keyring),
+    changeStreamService,
+    runCoordinator: new RunCoordinatorService(config.run)
+  };
+}
+
+/**
+ * Creates the client of the configured `storage.backend`
+ */
+export function createStorageBackend(config: Config): StorageBackend {
+  switch (config.storage.backend) {
+    case 's3':
+      return new S3Service(
+        config.s3,
+        config.b2.maxRetries,
+        undefined,
+        config.b2.partSize,
+        config.b2.uploadConcurrency
+      );
+    case 'filesystem':
+      return new FilesystemService(config.filesystem.path, config.b2.uploadConcurrency);
+    case 'b2':
+      return new B2Service(
+        config.b2.keyId,
+        config.b2.applicationKey,
+        config.b2.bucketId || config.b2.bucketName,
+        config.b2.maxRetries,
+        undefined,
+        config.b2.partSize,
+        config.b2.uploadConcurrency,
+        config.b2.authUrl,
+        getRequiredCapabilities(config),
+        config.b2.prefix
+      );
+  }
+}
+
+/**
+ * B2 key capabilities the configured features need: backups list and write
+ * files, verify and restore read them and retention pruning deletes them
+ */
+export function getRequiredCapabilities(config: Config): string[] {
+  const capabilities = ['listFiles', 'readFiles', 'writeFiles'];
+  return config.retention ? [...capabilities, 'deleteFiles'] : capabilities;
+}
+
+export async function cleanupBackupsDirectory(backupPath: string) {
+  try {
+    const entries = await readdir(backupPath, { withFileTypes: true });
+    for (const entry of entries) {
+      const fullPath = path.join(backupPath, entry.name);
+      if (entry.isDirectory()) {
+        await rm(fullPath, { recursive: true, force: true });
+      } else {
+        await unlink(fullPath);
+      }
+    }
+    logger.info('Cleaned up backups directory', { backupPath });
+  } catch (error) {
+    logger.error('Failed to clean up backups directory', {
+      backupPath,
+      error
+    });
+  }
+}
+
+/**
+ * Runs a single backup followed by retention pruning if a policy is set.
+ * Callers go through the run coordinator so runs never overlap.
+ */
+export async function runBackup(services: AppServices, signal?: AbortSignal): Promise<SnapshotManifest> {
+  // Authenticate with the storage backend
+  await services.storage.authenticate();
+  logger.info('Successfully authenticated with the storage backend');
+
+  // Perform backup
+  const manifest = await services.backupService.performIncrementalBackup(signal);
+  logger.info('Successfully completed backup', { snapshotId: manifest.snapshotId });
+
+  // Prune expired snapshots, a failure here does not fail the backup
+  if (services.config.retention) {
+    try {
+      await services.retentionService.prune(services.config.retention);
+    } catch (error) {
+      logger.error('Retention pruning failed', { error });
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Runs a restore drill of the given snapshot, or the latest one. Callers go
+ * through the run coordinator so a drill never overlaps a backup.
+ */
+export async function runDrill(services: AppServices, snapshotId?: string, signal?: AbortSignal): Promise<DrillReport> {
+  await services.storage.authenticate();
+  return services.drillService.runDrill(snapshotId, signal);
+}
+
+/**
+ * Starts tailing the change stream when `changes.enabled` is set. The tailer
+ * uploads segments on its own, next to the scheduled backups.
+ */
+export async function startChangeStream(services: AppServices): Promise<void> {
+  if (!services.config.changes.enabled) {
+    return;
+  }
+  await services.storage.authenticate();
+  await services.changeStreamService.start();
+}
+
+async function performBackup(services: AppServices, signal: AbortSignal) {
+  try {
+    await runBackup(services, signal);
+  } catch (error) {
+    logger.error('Backup failed', { error });
+    if (error instanceof BackupError) {
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+/**
+ * On SIGTERM/SIGINT stops the scheduler and the change stream tailer, waits
+ * for (or aborts) the running backup and only then cleans up the backups
+ * directory and exits. A second
+ * signal aborts the running backup immediately.
+ */
+export function registerShutdownHandlers(services: AppServices, ...schedulers: SchedulerService[]) {
+  let shuttingDown = false;
+
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      logger.warn(`Received ${signal} again, aborting the running backup`);
+      services.runCoordinator.abort();
+      return;
+    }
+    shuttingDown = true;
+    logger.info(`Received ${signal}, starting graceful shutdown`);
+
+    try {
+      schedulers.forEach(scheduler => scheduler.stop());
+      await services.changeStreamService.stop();
+      await services.runCoordinator.shutdown();
+
+      // Clean up backups directory before exiting
+      await cleanupBackupsDirectory(services.backupPath);
+      process.exit(0);
+    } catch (error) {
+      logger.error('Error during shutdown', { error });
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+}
+
+/**
+ * Creates the scheduler that triggers backups on the configured cron
+ * schedule. A trigger that overlaps a running backup and is skipped is
+ * recorded as a failed run.
+ */
+export function createScheduler(services: AppServices): SchedulerService {
+  return new SchedulerService(services.config.schedule, async () => {
+    const outcome = await services.runCoordinator.run('scheduled', signal => performBackup(services, signal));
+    if (outcome.status === 'skipped') {
+      throw new RunCoordinatorError(`Backup skipped: ${outcome.reason}`);
+    }
+  });
+}
+
+/**
+ * Creates the scheduler for restore drills, or null when `drill.cron` is not
+ * set. Drills share the backup's time zone and never catch up on missed runs.
+ */
+export function createDrillScheduler(services: AppServices): SchedulerService | null {
+  const { drill, schedule } = services.config;
+  if (!drill.cron) {
+    return null;
+  }
+
+  return new SchedulerService({ ...schedule, cron: drill.cron, catchUp: false, stateFile: drill.stateFile }, async () => {
+    const outcome = await services.runCoordinator.run('drill', signal => runDrill(services, undefined, signal));
+    if (outcome.status === 'skipped') {
+      throw new RunCoordinatorError(`Drill skipped: ${outcome.reason}`);
+    }
+    if (!outcome.result.ok) {
+      throw new DrillError(`Restore drill of ${outcome.result.snapshotId} failed`);
+    }
+  }, 'restore drill');
+}
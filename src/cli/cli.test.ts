@@ -0,0 +1,385 @@
+import { runCli } from './cli';
+import { AppServices, createServices, runBackup, runDrill } from '../app';
+import { ConfigError, loadConfig } from '../config';
+import { Config } from '../types/config.types';
+import { SnapshotManifest } from '../types/manifest.types';
+
+jest.mock('../app');
+jest.mock('../config', () => ({
+  ...jest.requireActual('../config'),
+  loadConfig: jest.fn()
+}));
+jest.mock('../utils/logger.util', () => ({
+  info: jest.fn(),
+  error: jest.fn()
+}));
+
+describe('CLI', () => {
+  let services: AppServices;
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  const manifest: SnapshotManifest = {
+    version: 1,
+    snapshotId: '2024-03-14T12-00-00-000Z',
+    startedAt: '2024-03-14T12:00:00.000Z',
+    completedAt: '2024-03-14T12:05:00.000Z',
+    mongodumpVersion: '100.9.4',
+    sourceUri: 'mongodb://localhost:27017',
+    extendedJsonMode: 'canonical',
+    collections: [
+      {
+        database: 'app',
+        collection: 'users',
+        documentCount: 3,
+        parts: [
+          {
+            fileName: 'snapshots/2024-03-14T12-00-00-000Z/app/users/users.jsonl.part0',
+            size: 120,
+            sha1: 'abc',
+            documentCount: 3
+          }
+        ]
+      }
+    ]
+  };
+
+  const config: Config = {
+    mongo: { uri: 'mongodb://localhost:27017', containerName: 'mongo' },
+    storage: { backend: 'b2' },
+    b2: { keyId: 'key-id', applicationKey: 'key', bucketId: 'bucket', bucketName: '', prefix: '', partSize: 100 * 1024 * 1024, maxRetries: 3, uploadConcurrency: 4, authUrl: 'https://api.backblazeb2.com' },
+    s3: { endpoint: '', region: 'us-east-1', bucket: '', accessKeyId: '', secretAccessKey: '' },
+    filesystem: { path: '' },
+    backup: { path: '/backup', chunkSize: 10 * 1024 * 1024, extendedJsonMode: 'canonical', compression: 'gzip', streaming: false, include: [], exclude: [], oplog: false },
+    schedule: { cron: '0 2 * * *', timezone: 'UTC', catchUp: true, stateFile: '/state/schedule.json' },
+    run: { overlap: 'skip', lockFile: '/state/backup.lock', shutdownTimeout: 5 * 60 * 1000 },
+    drill: { cron: null, image: 'mongo:7', sampleSize: 20, startupTimeout: 60 * 1000, stateFile: '/state/drill.json' },
+    changes: { enabled: false, segmentDuration: 5 * 60 * 1000, path: '/changes', stateFile: '/state/changes.json' },
+    encryption: { keyId: null, keyring: {} },
+    retention: null
+  };
+
+  const output = () => stdout.mock.calls.map(call => call[0]).join('\n');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stdout = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    stderr = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    services = {
+      backupPath: '/backup',
+      storage: { authenticate: jest.fn(), listExistingFiles: jest.fn() },
+      snapshotService: {
+        listSnapshots: jest.fn(),
+        getManifest: jest.fn().mockResolvedValue(manifest),
+        getLatestSnapshotId: jest.fn().mockResolvedValue(manifest.snapshotId)
+      },
+      restoreService: { restore: jest.fn() },
+      retentionService: { prune: jest.fn() },
+      verifyService: { verifySnapshot: jest.fn() },
+      runCoordinator: {
+        run: jest.fn(async (trigger: string, job: (signal: AbortSignal) => Promise<unknown>) => ({
+          status: 'completed',
+          result: await job(new AbortController().signal)
+        }))
+      }
+    } as unknown as AppServices;
+    (createServices as jest.Mock).mockResolvedValue(services);
+    (loadConfig as jest.Mock).mockReturnValue(config);
+  });
+
+  afterEach(() => {
+    stdout.mockRestore();
+    stderr.mockRestore();
+  });
+
+  test('should print usage and exit 2 for unknown commands', async () => {
+    await expect(runCli(['explode'])).resolves.toBe(2);
+    expect(stderr).toHaveBeenCalledWith(expect.stringContaining('Unknown command "explode"'));
+  });
+
+  test('should exit 2 on unknown options', async () => {
+    await expect(runCli(['backup', '--twice'])).resolves.toBe(2);
+    expect(createServices).not.toHaveBeenCalled();
+  });
+
+  test('should exit 2 and list configuration problems before creating services', async () => {
+    (loadConfig as jest.Mock).mockImplementation(() => {
+      throw new ConfigError(['b2.keyId is required', 'b2.bucketId is required']);
+    });
+
+    await expect(runCli(['backup', '--once'])).resolves.toBe(2);
+
+    expect(stderr).toHaveBeenCalledWith(expect.stringContaining('b2.bucketId is required'));
+    expect(createServices).not.toHaveBeenCalled();
+  });
+
+  test('should pass config flags to the configuration loader', async () => {
+    (runBackup as jest.Mock).mockResolvedValue(manifest);
+
+    await expect(runCli(['backup', '--config', 'backup.yml', '--once', '--mongo-uri=mongodb://db:27017'])).resolves.toBe(0);
+
+    expect(loadConfig).toHaveBeenCalledWith({
+      configFile: 'backup.yml',
+      flags: { 'mongo.uri': 'mongodb://db:27017' }
+    });
+    expect(createServices).toHaveBeenCalledWith(config);
+  });
+
+  test('should run a single backup with --once and print JSON', async () => {
+    (runBackup as jest.Mock).mockResolvedValue(manifest);
+
+    await expect(runCli(['backup', '--once', '--json'])).resolves.toBe(0);
+
+    expect(services.runCoordinator.run).toHaveBeenCalledWith('cli', expect.any(Function));
+    expect(runBackup).toHaveBeenCalledWith(services, expect.any(AbortSignal));
+    expect(JSON.parse(output())).toEqual(manifest);
+  });
+
+  test('should exit 1 when another backup holds the run lock', async () => {
+    (services.runCoordinator.run as jest.Mock).mockResolvedValue({
+      status: 'skipped',
+      reason: 'backup lock is held by pid 42 on host since 2024-03-14T12:00:00.000Z'
+    });
+
+    await expect(runCli(['backup', '--once'])).resolves.toBe(1);
+
+    expect(runBackup).not.toHaveBeenCalled();
+    expect(output()).toContain('Backup skipped: backup lock is held by pid 42');
+  });
+
+  test('should exit 1 and print the error as JSON when a command fails', async () => {
+    (runBackup as jest.Mock).mockRejectedValue(new Error('Dump failed'));
+
+    await expect(runCli(['--json', 'backup', '--once'])).resolves.toBe(1);
+    expect(JSON.parse(output())).toEqual({ error: 'Dump failed' });
+  });
+
+  test('should list snapshots with totals from their manifests', async () => {
+    (services.snapshotService.listSnapshots as jest.Mock).mockResolvedValue([
+      { snapshotId: manifest.snapshotId, complete: true },
+      { snapshotId: '2024-03-15T12-00-00-000Z', complete: false }
+    ]);
+
+    await expect(runCli(['snapshots', 'list', '--json'])).resolves.toBe(0);
+
+    expect(services.storage.authenticate).toHaveBeenCalled();
+    expect(JSON.parse(output())).toEqual([
+      {
+        snapshotId: manifest.snapshotId,
+        complete: true,
+        startedAt: manifest.startedAt,
+        collections: 1,
+        documents: 3,
+        bytes: 120
+      },
+      { snapshotId: '2024-03-15T12-00-00-000Z', complete: false }
+    ]);
+  });
+
+  test('should restore the latest snapshot with filters', async () => {
+    (services.restoreService.restore as jest.Mock).mockResolvedValue([
+      {
+        database: 'app',
+        collection: 'users',
+        targetDatabase: 'app_copy',
+        parts: 1,
+        documentsExpected: 3,
+        documentsRead: 3,
+        documentsRestored: 3,
+        durationMs: 10
+      }
+    ]);
+
+    await expect(runCli([
+      'restore', 'latest', '--collection', 'users', '--target-db', 'app_copy', '--drop', '--batch-size', '500'
+    ])).resolves.toBe(0);
+
+    expect(services.restoreService.restore).toHaveBeenCalledWith({
+      snapshotId: manifest.snapshotId,
+      databases: undefined,
+      collections: ['users'],
+      targetDatabase: 'app_copy',
+      drop: true,
+      batchSize: 500,
+      oplogReplay: false,
+      oplogLimit: undefined,
+      replayChanges: false,
+      changesUntil: undefined
+    });
+    expect(output()).toContain('app.users -> app_copy.users  3/3 documents');
+  });
+
+  test('should replay the oplog up to an ISO date given in seconds', async () => {
+    (services.restoreService.restore as jest.Mock).mockResolvedValue([]);
+
+    await expect(runCli([
+      'restore', 'latest', '--oplog-replay', '--oplog-limit', '2024-03-14T12:00:00Z'
+    ])).resolves.toBe(0);
+
+    expect(services.restoreService.restore).toHaveBeenCalledWith(expect.objectContaining({
+      oplogReplay: true,
+      oplogLimit: '1710417600'
+    }));
+    expect(output()).toContain('Replayed the oplog up to 1710417600');
+  });
+
+  test('should replay captured changes up to a date', async () => {
+    (services.restoreService.restore as jest.Mock).mockResolvedValue([]);
+
+    await expect(runCli([
+      'restore', 'latest', '--replay-changes', '--changes-until', '2024-03-14T13:00:00+01:00'
+    ])).resolves.toBe(0);
+
+    expect(services.restoreService.restore).toHaveBeenCalledWith(expect.objectContaining({
+      replayChanges: true,
+      changesUntil: '2024-03-14T12:00:00.000Z'
+    }));
+    await expect(runCli(['restore', 'latest', '--changes-until', '2024-03-14T13:00:00Z'])).resolves.toBe(2);
+  });
+
+  test('should reject an oplog limit without oplog replay', async () => {
+    await expect(runCli(['restore', 'latest', '--oplog-limit', '1710417600:2'])).resolves.toBe(2);
+    await expect(runCli(['restore', 'latest', '--oplog-replay', '--oplog-limit', 'yesterday'])).resolves.toBe(2);
+    expect(services.restoreService.restore).not.toHaveBeenCalled();
+  });
+
+  test('should exit 1 when restored counts do not match the backup', async () => {
+    (services.restoreService.restore as jest.Mock).mockResolvedValue([
+      {
+        database: 'app',
+        collection: 'users',
+        targetDatabase: 'app',
+        parts: 1,
+        documentsExpected: 3,
+        documentsRead: 3,
+        documentsRestored: 2,
+        durationMs: 10
+      }
+    ]);
+
+    await expect(runCli(['restore', manifest.snapshotId])).resolves.toBe(1);
+  });
+
+  test('should print the verification report and exit 1 when it fails', async () => {
+    const report = {
+      snapshotId: manifest.snapshotId,
+      ok: false,
+      quick: false,
+      parts: 1,
+      bytesRead: 120,
+      durationMs: 10,
+      collections: [
+        { database: 'app', collection: 'users', documentsExpected: 3, documentsRead: 2, ok: false }
+      ],
+      problems: [{ fileName: manifest.collections[0].parts[0].fileName, problem: '2 documents, manifest lists 3' }]
+    };
+    (services.verifyService.verifySnapshot as jest.Mock).mockResolvedValue(report);
+
+    await expect(runCli(['verify', '--json'])).resolves.toBe(1);
+
+    expect(services.verifyService.verifySnapshot).toHaveBeenCalledWith(manifest.snapshotId, { quick: false });
+    expect(JSON.parse(output())).toEqual(report);
+  });
+
+  test('should pass --quick to the verify service', async () => {
+    (services.verifyService.verifySnapshot as jest.Mock).mockResolvedValue({
+      snapshotId: manifest.snapshotId,
+      ok: true,
+      quick: true,
+      parts: 1,
+      bytesRead: 0,
+      durationMs: 1,
+      collections: [{ database: 'app', collection: 'users', documentsExpected: 3, documentsRead: null, ok: true }],
+      problems: []
+    });
+
+    await expect(runCli(['verify', 'latest', '--quick'])).resolves.toBe(0);
+
+    expect(services.verifyService.verifySnapshot).toHaveBeenCalledWith(manifest.snapshotId, { quick: true });
+    expect(output()).toContain(`Snapshot ${manifest.snapshotId} verified: 1 parts`);
+  });
+
+  test('should run a restore drill of the requested snapshot through the run coordinator', async () => {
+    (runDrill as jest.Mock).mockResolvedValue({
+      snapshotId: manifest.snapshotId,
+      image: 'mongo:7',
+      ok: true,
+      startedAt: '2024-03-14T13:00:00.000Z',
+      startupMs: 2000,
+      restoreMs: 3000,
+      durationMs: 6000,
+      collections: [{
+        database: 'app',
+        collection: 'users',
+        documentsExpected: 3,
+        documentsRestored: 3,
+        samplesChecked: 3,
+        samplesMatched: 2,
+        restoreMs: 3000,
+        ok: true
+      }],
+      problems: []
+    });
+
+    await expect(runCli(['drill', manifest.snapshotId])).resolves.toBe(0);
+
+    expect(services.runCoordinator.run).toHaveBeenCalledWith('drill', expect.any(Function));
+    expect(runDrill).toHaveBeenCalledWith(services, manifest.snapshotId, expect.any(AbortSignal));
+    expect(output()).toContain('app.users  3/3 documents  2/3 samples match source  ok');
+    expect(output()).toContain(`Drill passed for snapshot ${manifest.snapshotId} in 6.0s (startup 2.0s, restore 3.0s)`);
+  });
+
+  test('should exit 1 when a restore drill fails its checks', async () => {
+    (runDrill as jest.Mock).mockResolvedValue({
+      snapshotId: manifest.snapshotId,
+      image: 'mongo:7',
+      ok: false,
+      startedAt: '2024-03-14T13:00:00.000Z',
+      startupMs: 2000,
+      restoreMs: 3000,
+      durationMs: 6000,
+      collections: [],
+      problems: [{ collection: 'app.users', problem: '2 documents restored, snapshot has 3' }]
+    });
+
+    await expect(runCli(['drill', '--json'])).resolves.toBe(1);
+
+    expect(runDrill).toHaveBeenCalledWith(services, manifest.snapshotId, expect.any(AbortSignal));
+    expect(JSON.parse(output()).problems).toEqual([{ collection: 'app.users', problem: '2 documents restored, snapshot has 3' }]);
+  });
+
+  test('should prune with the policy from --keep-* flags', async () => {
+    (services.retentionService.prune as jest.Mock).mockResolvedValue({
+      dryRun: true,
+      policy: {},
+      kept: [],
+      pruned: [],
+      prunedSegments: []
+    });
+
+    await expect(runCli(['prune', '--dry-run', '--keep-last', '3', '--keep-daily', '7'])).resolves.toBe(0);
+
+    expect(services.retentionService.prune).toHaveBeenCalledWith(
+      { keepLast: 3, keepDaily: 7, keepWeekly: 0, keepMonthly: 0 },
+      true
+    );
+  });
+
+  test('should show the schedule without connecting to B2', async () => {
+    await expect(runCli(['status', '--json'])).resolves.toBe(0);
+
+    expect(JSON.parse(output())).toMatchObject({
+      cron: '0 2 * * *',
+      timezone: 'UTC',
+      lastSuccessfulRunAt: null,
+      nextRunAt: expect.stringMatching(/T02:00:00.000Z$/)
+    });
+    expect(createServices).not.toHaveBeenCalled();
+  });
+
+  test('should exit 2 when no retention policy is configured', async () => {
+    await expect(runCli(['prune'])).resolves.toBe(2);
+    expect(services.retentionService.prune).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+import { createServices } from '../app';
+import { ConfigError, extractConfigFlags, loadConfig } from '../config';
+import logger from '../utils/logger.util';
+import { CommandContext, CommandHandler } from '../types/cli.types';
+import { EXIT_FAILURE, EXIT_SUCCESS, EXIT_USAGE, UsageError } from './cli.util';
+import { backupCommand } from './commands/backup.command';
+import { snapshotsCommand } from './commands/snapshots.command';
+import { restoreCommand } from './commands/restore.command';
+import { verifyCommand } from './commands/verify.command';
+import { drillCommand } from './commands/drill.command';
+import { pruneCommand } from './commands/prune.command';
+import { statusCommand } from './commands/status.command';
+
+const COMMANDS: Record<string, CommandHandler> = {
+  backup: backupCommand,
+  snapshots: snapshotsCommand,
+  restore: restoreCommand,
+  verify: verifyCommand,
+  drill: drillCommand,
+  prune: pruneCommand,
+  status: statusCommand
+};
+
+export const USAGE = `Usage: mongo-b2 <command> [options]
+
+Commands:
+  backup [--once]                  Run backups on the schedule, or a single backup with --once
+  status                           Show the schedule, next run and last run
+  snapshots list                   List snapshots in the bucket
+  snapshots show <snapshot|latest> Show the manifest of a snapshot
+  restore <snapshot|latest>        Restore a snapshot into MongoDB
+      --database <db>              Only restore this database (repeatable)
+      --collection <name>          Only restore this collection or db.collection (repeatable)
+      --target-db <db>             Restore into another database
+      --drop                       Drop each collection before restoring it
+      --batch-size <n>             Documents per batch sent to mongorestore
+      --oplog-replay               Replay the oplog captured with the snapshot
+      --oplog-limit <time>         Stop replaying at an ISO date or <seconds>[:<ordinal>]
+      --replay-changes             Apply the change stream captured since the snapshot
+      --changes-until <date>       Stop applying changes at an ISO date
+  verify [snapshot|latest]         Download and check every part of a snapshot
+      --quick                      Only compare the manifest with the bucket listing
+  drill [snapshot|latest]          Restore a snapshot into a throwaway container and check it
+  prune [--dry-run]                Delete snapshots outside the retention policy
+      --keep-last <n> --keep-daily <n> --keep-weekly <n> --keep-monthly <n>
+
+Global options:
+  --config <file>                  Read settings from a YAML or JSON file
+  --<section>-<setting> <value>    Override a setting, e.g. --mongo-uri or --backup-chunk-size
+  --json                           Print results as JSON
+  -h, --help                       Show this help
+
+Exit codes: 0 success, 1 failure, 2 invalid usage or configuration`;
+
+/**
+ * Runs a CLI command and resolves with the process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const json = argv.includes('--json');
+  let flags: ReturnType<typeof extractConfigFlags>;
+  try {
+    flags = extractConfigFlags(argv.filter(arg => arg !== '--json'));
+  } catch (error) {
+    console.error((error as Error).message);
+    return EXIT_USAGE;
+  }
+  const args = flags.rest;
+  const [commandName, ...commandArgs] = args;
+
+  if (!commandName || commandName === 'help' || args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return commandName && commandName !== 'help' && !COMMANDS[commandName] ? EXIT_USAGE : EXIT_SUCCESS;
+  }
+
+  const command = COMMANDS[commandName];
+  if (!command) {
+    console.error(`Unknown command "${commandName}"\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  let context: CommandContext;
+  try {
+    const config = loadConfig(flags.sources);
+    context = { json, config, getServices: () => createServices(config) };
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    console.error(error.message);
+    return EXIT_USAGE;
+  }
+
+  try {
+    return await command(commandArgs, context);
+  } catch (error) {
+    if (error instanceof UsageError || isParseArgsError(error)) {
+      console.error((error as Error).message);
+      return EXIT_USAGE;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Command ${commandName} failed`, { error });
+    if (json) {
+      console.log(JSON.stringify({ error: message }, null, 2));
+    } else {
+      console.error(`Error: ${message}`);
+    }
+    return EXIT_FAILURE;
+  }
+}
+
+function isParseArgsError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException)?.code;
+  return typeof code === 'string' && code.startsWith('ERR_PARSE_ARGS');
+}
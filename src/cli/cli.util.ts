@@ -0,0 +1,63 @@
+import { AppServices } from '../app';
+import { CommandContext } from '../types/cli.types';
+
+export const EXIT_SUCCESS = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Prints the result of a command, as JSON with --json and as text otherwise
+ */
+export function printResult(context: CommandContext, data: unknown, text: string | string[]) {
+  if (context.json) {
+    console.log(JSON.stringify(data, null, 2));
+  } else {
+    console.log(Array.isArray(text) ? text.join('\n') : text);
+  }
+}
+
+export function parseCount(option: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new UsageError(`--${option} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Builds the services and authenticates with the storage backend
+ */
+export async function connect(context: CommandContext): Promise<AppServices> {
+  const services = await context.getServices();
+  await services.storage.authenticate();
+  return services;
+}
+
+/**
+ * Resolves "latest" to the newest complete snapshot
+ */
+export async function resolveSnapshotId(services: AppServices, snapshotId: string | undefined): Promise<string> {
+  if (!snapshotId || snapshotId === 'latest') {
+    return services.snapshotService.getLatestSnapshotId();
+  }
+  return snapshotId;
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,53 @@
+import { parseArgs } from 'util';
+import {
+  createDrillScheduler,
+  createScheduler,
+  registerShutdownHandlers,
+  runBackup,
+  startChangeStream
+} from '../../app';
+import { CommandContext } from '../../types/cli.types';
+import { EXIT_FAILURE, EXIT_SUCCESS, printResult } from '../cli.util';
+
+/**
+ * Runs a single backup with --once, otherwise runs backups (and restore
+ * drills, when `drill.cron` is set) on the schedule, tailing the change
+ * stream alongside when `changes.enabled` is set
+ */
+export async function backupCommand(args: string[], context: CommandContext): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      once: { type: 'boolean', default: false }
+    }
+  });
+
+  const services = await context.getServices();
+
+  if (!values.once) {
+    const scheduler = createScheduler(services);
+    const drillScheduler = createDrillScheduler(services);
+    registerShutdownHandlers(services, scheduler, ...(drillScheduler ? [drillScheduler] : []));
+    await startChangeStream(services);
+    await drillScheduler?.start();
+    await scheduler.start();
+    return EXIT_SUCCESS;
+  }
+
+  registerShutdownHandlers(services);
+  const outcome = await services.runCoordinator.run('cli', signal => runBackup(services, signal));
+  if (outcome.status === 'skipped') {
+    printResult(context, { skipped: true, reason: outcome.reason }, `Backup skipped: ${outcome.reason}`);
+    return EXIT_FAILURE;
+  }
+
+  const manifest = outcome.result;
+  const documents = manifest.collections.reduce((sum, entry) => sum + entry.documentCount, 0);
+  const parts = manifest.collections.reduce((sum, entry) => sum + entry.parts.length, 0);
+
+  printResult(context, manifest, [
+    `Created snapshot ${manifest.snapshotId}`,
+    `${manifest.collections.length} collections, ${documents} documents, ${parts} parts`
+  ]);
+  return EXIT_SUCCESS;
+}
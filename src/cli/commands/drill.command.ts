@@ -0,0 +1,44 @@
+import { parseArgs } from 'util';
+import { registerShutdownHandlers, runDrill } from '../../app';
+import { CommandContext } from '../../types/cli.types';
+import {
+  connect,
+  EXIT_FAILURE,
+  EXIT_SUCCESS,
+  printResult,
+  resolveSnapshotId,
+  UsageError
+} from '../cli.util';
+
+/**
+ * `drill [snapshot|latest]` restores a snapshot into a throwaway container
+ * and checks it against the source
+ */
+export async function drillCommand(args: string[], context: CommandContext): Promise<number> {
+  const { positionals } = parseArgs({ args, options: {}, allowPositionals: true });
+  if (positionals.length > 1) {
+    throw new UsageError('Usage: drill [snapshot|latest]');
+  }
+
+  const services = await connect(context);
+  const snapshotId = await resolveSnapshotId(services, positionals[0]);
+
+  registerShutdownHandlers(services);
+  const outcome = await services.runCoordinator.run('drill', signal => runDrill(services, snapshotId, signal));
+  if (outcome.status === 'skipped') {
+    printResult(context, { skipped: true, reason: outcome.reason }, `Drill skipped: ${outcome.reason}`);
+    return EXIT_FAILURE;
+  }
+
+  const report = outcome.result;
+  printResult(context, report, [
+    ...report.collections.map(entry =>
+      `${entry.database}.${entry.collection}  ${entry.documentsRestored}/${entry.documentsExpected} documents  ` +
+      `${entry.samplesMatched}/${entry.samplesChecked} samples match source  ${entry.ok ? 'ok' : 'FAILED'}`
+    ),
+    ...report.problems.map(problem => `${problem.collection}: ${problem.problem}`),
+    `${report.ok ? 'Drill passed' : 'Drill failed'} for snapshot ${report.snapshotId} in ${(report.durationMs / 1000).toFixed(1)}s ` +
+    `(startup ${(report.startupMs / 1000).toFixed(1)}s, restore ${(report.restoreMs / 1000).toFixed(1)}s)`
+  ]);
+  return report.ok ? EXIT_SUCCESS : EXIT_FAILURE;
+}
@@ -0,0 +1,63 @@
+import { parseArgs } from 'util';
+import { RetentionPolicy } from '../../types/retention.types';
+import { CommandContext } from '../../types/cli.types';
+import { connect, EXIT_SUCCESS, formatBytes, parseCount, printResult, UsageError } from '../cli.util';
+
+/**
+ * `prune [--dry-run]` with the policy from --keep-* flags or the configuration
+ */
+export async function pruneCommand(args: string[], context: CommandContext): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      'keep-last': { type: 'string' },
+      'keep-daily': { type: 'string' },
+      'keep-weekly': { type: 'string' },
+      'keep-monthly': { type: 'string' }
+    }
+  });
+
+  const keepFlags = {
+    keepLast: parseCount('keep-last', values['keep-last']),
+    keepDaily: parseCount('keep-daily', values['keep-daily']),
+    keepWeekly: parseCount('keep-weekly', values['keep-weekly']),
+    keepMonthly: parseCount('keep-monthly', values['keep-monthly'])
+  };
+
+  let policy: RetentionPolicy | null;
+  if (Object.values(keepFlags).some(value => value !== undefined)) {
+    policy = {
+      keepLast: keepFlags.keepLast ?? 1,
+      keepDaily: keepFlags.keepDaily ?? 0,
+      keepWeekly: keepFlags.keepWeekly ?? 0,
+      keepMonthly: keepFlags.keepMonthly ?? 0
+    };
+  } else {
+    policy = context.config.retention;
+  }
+
+  if (!policy) {
+    throw new UsageError('No retention policy: pass --keep-* flags or configure retention settings');
+  }
+
+  const services = await connect(context);
+  const report = await services.retentionService.prune(policy, values['dry-run']);
+  const bytes = report.pruned.reduce((sum, snapshot) => sum + snapshot.bytes, 0);
+  const segmentBytes = report.prunedSegments.reduce((sum, segment) => sum + segment.bytes, 0);
+
+  printResult(context, report, [
+    ...report.kept.map(snapshot => `keep   ${snapshot.snapshotId}  (${snapshot.reasons.join(', ')})`),
+    ...report.pruned.map(snapshot =>
+      `${report.dryRun ? 'would prune' : 'pruned'} ${snapshot.snapshotId}${snapshot.complete ? '' : '  (incomplete)'}`
+    ),
+    `${report.dryRun ? 'Would prune' : 'Pruned'} ${report.pruned.length} snapshot(s), ${formatBytes(bytes)}`,
+    ...report.prunedSegments.map(segment =>
+      `${report.dryRun ? 'would prune' : 'pruned'} change segment ${segment.segmentId}  (until ${segment.endedAt})`
+    ),
+    ...(report.prunedSegments.length
+      ? [`${report.dryRun ? 'Would prune' : 'Pruned'} ${report.prunedSegments.length} change segment(s), ${formatBytes(segmentBytes)}`]
+      : [])
+  ]);
+  return EXIT_SUCCESS;
+}
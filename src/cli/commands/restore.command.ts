@@ -0,0 +1,103 @@
+import { parseArgs } from 'util';
+import { CommandContext } from '../../types/cli.types';
+import {
+  connect,
+  EXIT_FAILURE,
+  EXIT_SUCCESS,
+  parseCount,
+  printResult,
+  resolveSnapshotId,
+  UsageError
+} from '../cli.util';
+
+/**
+ * `restore <snapshot|latest>` with optional database/collection filters
+ */
+export async function restoreCommand(args: string[], context: CommandContext): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      database: { type: 'string', multiple: true },
+      collection: { type: 'string', multiple: true },
+      'target-db': { type: 'string' },
+      drop: { type: 'boolean', default: false },
+      'batch-size': { type: 'string' },
+      'oplog-replay': { type: 'boolean', default: false },
+      'oplog-limit': { type: 'string' },
+      'replay-changes': { type: 'boolean', default: false },
+      'changes-until': { type: 'string' }
+    }
+  });
+
+  if (positionals.length !== 1) {
+    throw new UsageError('Usage: restore <snapshot|latest> [--database <db>] [--collection <name>] [--target-db <db>] [--drop] [--batch-size <n>] [--oplog-replay [--oplog-limit <time>]] [--replay-changes [--changes-until <date>]]');
+  }
+
+  const batchSize = parseCount('batch-size', values['batch-size']);
+  if (batchSize === 0) {
+    throw new UsageError('--batch-size must be greater than 0');
+  }
+
+  const oplogLimit = parseOplogLimit(values['oplog-limit']);
+  if (oplogLimit && !values['oplog-replay']) {
+    throw new UsageError('--oplog-limit needs --oplog-replay');
+  }
+
+  const changesUntil = values['changes-until'];
+  if (changesUntil !== undefined) {
+    if (!values['replay-changes']) {
+      throw new UsageError('--changes-until needs --replay-changes');
+    }
+    if (!/^\d{4}-\d{2}-\d{2}/.test(changesUntil) || Number.isNaN(Date.parse(changesUntil))) {
+      throw new UsageError(`--changes-until must be an ISO 8601 date, got "${changesUntil}"`);
+    }
+  }
+
+  const services = await connect(context);
+  const snapshotId = await resolveSnapshotId(services, positionals[0]);
+  const results = await services.restoreService.restore({
+    snapshotId,
+    databases: values.database,
+    collections: values.collection,
+    targetDatabase: values['target-db'],
+    drop: values.drop,
+    batchSize,
+    oplogReplay: values['oplog-replay'],
+    oplogLimit,
+    replayChanges: values['replay-changes'],
+    changesUntil: changesUntil && new Date(changesUntil).toISOString()
+  });
+
+  const mismatched = results.filter(result => result.documentsRestored !== result.documentsExpected);
+
+  printResult(context, { snapshotId, collections: results }, [
+    `Restored snapshot ${snapshotId}`,
+    ...results.map(result =>
+      `  ${result.database}.${result.collection} -> ${result.targetDatabase}.${result.collection}  ` +
+      `${result.documentsRestored}/${result.documentsExpected} documents`
+    ),
+    ...(values['oplog-replay'] ? [`Replayed the oplog${oplogLimit ? ` up to ${oplogLimit}` : ''}`] : []),
+    ...(values['replay-changes'] ? [`Replayed the captured changes${changesUntil ? ` up to ${changesUntil}` : ''}`] : []),
+    ...(mismatched.length ? [`${mismatched.length} collection(s) do not match the backup document count`] : [])
+  ]);
+  return mismatched.length ? EXIT_FAILURE : EXIT_SUCCESS;
+}
+
+/**
+ * Accepts mongorestore's `<seconds>[:<ordinal>]` or an ISO 8601 date, which
+ * is converted to whole seconds
+ */
+function parseOplogLimit(value: string | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (/^\d+(:\d+)?$/.test(value)) {
+    return value;
+  }
+  const time = /^\d{4}-\d{2}-\d{2}/.test(value) ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    throw new UsageError(`--oplog-limit must be <seconds>[:<ordinal>] or an ISO 8601 date, got "${value}"`);
+  }
+  return String(Math.floor(time / 1000));
+}
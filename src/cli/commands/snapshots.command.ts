@@ -0,0 +1,95 @@
+import { parseArgs } from 'util';
+import { CommandContext } from '../../types/cli.types';
+import { connect, EXIT_SUCCESS, formatBytes, printResult, resolveSnapshotId, UsageError } from '../cli.util';
+
+interface SnapshotListEntry {
+  snapshotId: string;
+  complete: boolean;
+  startedAt?: string;
+  collections?: number;
+  documents?: number;
+  bytes?: number;
+}
+
+/**
+ * `snapshots list` and `snapshots show <snapshot|latest>`
+ */
+export async function snapshotsCommand(args: string[], context: CommandContext): Promise<number> {
+  const { positionals } = parseArgs({ args, options: {}, allowPositionals: true });
+  const [action, snapshotArg] = positionals;
+
+  if (action === 'list' && positionals.length === 1) {
+    return listSnapshots(context);
+  }
+  if (action === 'show' && positionals.length <= 2) {
+    return showSnapshot(context, snapshotArg);
+  }
+  throw new UsageError('Usage: snapshots list | snapshots show <snapshot|latest>');
+}
+
+async function listSnapshots(context: CommandContext): Promise<number> {
+  const services = await connect(context);
+  const snapshots = await services.snapshotService.listSnapshots();
+
+  const entries: SnapshotListEntry[] = [];
+  for (const snapshot of snapshots) {
+    if (!snapshot.complete) {
+      entries.push(snapshot);
+      continue;
+    }
+    const manifest = await services.snapshotService.getManifest(snapshot.snapshotId);
+    entries.push({
+      ...snapshot,
+      startedAt: manifest.startedAt,
+      collections: manifest.collections.length,
+      documents: manifest.collections.reduce((sum, entry) => sum + entry.documentCount, 0),
+      bytes: manifest.collections.reduce(
+        (sum, entry) => sum + entry.parts.reduce((partSum, part) => partSum + part.size, 0),
+        0
+      )
+    });
+  }
+
+  printResult(
+    context,
+    entries,
+    entries.length === 0
+      ? 'No snapshots found'
+      : entries.map(entry => entry.complete
+        ? `${entry.snapshotId}  ${entry.collections} collections  ${entry.documents} documents  ${formatBytes(entry.bytes!)}`
+        : `${entry.snapshotId}  incomplete`)
+  );
+  return EXIT_SUCCESS;
+}
+
+async function showSnapshot(context: CommandContext, snapshotArg: string | undefined): Promise<number> {
+  const services = await connect(context);
+  const snapshotId = await resolveSnapshotId(services, snapshotArg);
+  const manifest = await services.snapshotService.getManifest(snapshotId);
+  const keyIds = [...new Set(manifest.collections.flatMap(entry =>
+    entry.parts.flatMap(part => (part.encryptionKeyId ? [part.encryptionKeyId] : []))
+  ))];
+  const codecs = [...new Set(manifest.collections.flatMap(entry =>
+    entry.parts.map(part => part.compression || 'none')
+  ))];
+
+  printResult(context, manifest, [
+    `Snapshot ${manifest.snapshotId}`,
+    `Started:   ${manifest.startedAt}`,
+    `Completed: ${manifest.completedAt}`,
+    `Source:    ${manifest.sourceUri} (mongodump ${manifest.mongodumpVersion})`,
+    `Format:    ${manifest.extendedJsonMode} Extended JSON`,
+    `Codec:     ${codecs.length ? codecs.join(', ') : 'none'}`,
+    `Encrypted: ${keyIds.length ? `yes, key ${keyIds.join(', ')}` : 'no'}`,
+    ...(manifest.filter
+      ? [`Filter:    include ${manifest.filter.include.join(', ') || 'all'}; exclude ${manifest.filter.exclude.join(', ') || 'none'}`]
+      : []),
+    ...(manifest.oplog
+      ? [`Oplog:     ${manifest.oplog.documentCount} entries  ${manifest.oplog.parts.length} parts`]
+      : []),
+    ...manifest.collections.map(entry =>
+      `  ${entry.database}.${entry.collection}  ${entry.documentCount} documents  ${entry.parts.length} parts`
+    )
+  ]);
+  return EXIT_SUCCESS;
+}
@@ -0,0 +1,23 @@
+import { parseArgs } from 'util';
+import { SchedulerService } from '../../services/scheduler.service';
+import { CommandContext } from '../../types/cli.types';
+import { EXIT_SUCCESS, printResult } from '../cli.util';
+
+/**
+ * `status` shows the backup schedule and the outcome of the last run
+ */
+export async function statusCommand(args: string[], context: CommandContext): Promise<number> {
+  parseArgs({ args, options: {} });
+
+  const scheduler = new SchedulerService(context.config.schedule, async () => undefined);
+  const status = await scheduler.getStatus();
+
+  printResult(context, status, [
+    `Schedule:        ${status.cron} (${status.timezone})`,
+    `Next run:        ${status.nextRunAt}`,
+    `Last run:        ${status.lastRunAt || 'never'}`,
+    `Last successful: ${status.lastSuccessfulRunAt || 'never'}`,
+    ...(status.lastError ? [`Last error:      ${status.lastError}`] : [])
+  ]);
+  return EXIT_SUCCESS;
+}
@@ -0,0 +1,46 @@
+import { parseArgs } from 'util';
+import { CommandContext } from '../../types/cli.types';
+import {
+  connect,
+  EXIT_FAILURE,
+  EXIT_SUCCESS,
+  printResult,
+  resolveSnapshotId,
+  UsageError
+} from '../cli.util';
+
+/**
+ * `verify [snapshot|latest] [--quick]` downloads every part of a snapshot and
+ * checks it against the manifest and mongodump's document counts. --quick
+ * only compares the manifest with the bucket listing.
+ */
+export async function verifyCommand(args: string[], context: CommandContext): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      quick: { type: 'boolean', default: false }
+    }
+  });
+  if (positionals.length > 1) {
+    throw new UsageError('Usage: verify [snapshot|latest] [--quick]');
+  }
+
+  const services = await connect(context);
+  const snapshotId = await resolveSnapshotId(services, positionals[0]);
+  const report = await services.verifyService.verifySnapshot(snapshotId, { quick: values.quick });
+
+  const failedCollections = report.collections.filter(entry => !entry.ok).length;
+  printResult(context, report, [
+    ...report.collections.map(entry =>
+      entry.documentsRead === null
+        ? `${entry.database}.${entry.collection}  ${entry.ok ? 'ok' : 'FAILED'}`
+        : `${entry.database}.${entry.collection}  ${entry.documentsRead}/${entry.documentsExpected} documents  ${entry.ok ? 'ok' : 'FAILED'}`
+    ),
+    ...report.problems.map(problem => `${problem.fileName}: ${problem.problem}`),
+    report.ok
+      ? `Snapshot ${snapshotId} verified: ${report.parts} parts`
+      : `Snapshot ${snapshotId} failed verification: ${report.problems.length} problems in ${failedCollections} of ${report.collections.length} collections`
+  ]);
+  return report.ok ? EXIT_SUCCESS : EXIT_FAILURE;
+}
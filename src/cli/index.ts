@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import { logToStderr } from '../utils/logger.util';
+import { runCli } from './cli';
+
+// Keep stdout for command output so --json can be piped
+logToStderr();
+
+runCli(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,311 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ConfigError, describeConfig, extractConfigFlags, getSettingFlag, loadConfig } from './index';
+import { isCodecAvailable } from '../utils/compression.util';
+
+describe('Config', () => {
+  let tempDir: string;
+
+  const requiredEnv = {
+    B2_KEY_ID: 'key-id',
+    B2_KEY: 'secret-key',
+    B2_BUCKET_ID: 'bucket-id'
+  };
+
+  const writeConfigFile = (name: string, contents: string) => {
+    const filePath = path.join(tempDir, name);
+    writeFileSync(filePath, contents);
+    return filePath;
+  };
+
+  const getIssues = (load: () => unknown): string[] => {
+    try {
+      load();
+    } catch (error) {
+      if (error instanceof ConfigError) return error.issues;
+      throw error;
+    }
+    throw new Error('Expected a ConfigError');
+  };
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'config-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('loadConfig', () => {
+    test('should apply defaults', () => {
+      const config = loadConfig({ env: requiredEnv });
+
+      expect(config.mongo).toEqual({ uri: 'mongodb://localhost:27017', containerName: 'mongo' });
+      expect(config.storage).toEqual({ backend: 'b2' });
+      expect(config.b2).toEqual({
+        keyId: 'key-id',
+        applicationKey: 'secret-key',
+        bucketId: 'bucket-id',
+        bucketName: '',
+        prefix: '',
+        partSize: 100 * 1024 * 1024,
+        maxRetries: 3,
+        uploadConcurrency: 4,
+        authUrl: 'https://api.backblazeb2.com'
+      });
+      expect(config.schedule).toEqual({
+        cron: '0 */12 * * *',
+        timezone: 'UTC',
+        catchUp: true,
+        stateFile: path.join(process.cwd(), 'state', 'schedule.json')
+      });
+      expect(config.run).toEqual({
+        overlap: 'skip',
+        lockFile: path.join(process.cwd(), 'state', 'backup.lock'),
+        shutdownTimeout: 5 * 60 * 1000
+      });
+      expect(config.drill).toEqual({
+        cron: null,
+        image: 'mongo:7',
+        sampleSize: 20,
+        startupTimeout: 60 * 1000,
+        stateFile: path.join(process.cwd(), 'state', 'drill.json')
+      });
+      expect(config.changes).toEqual({
+        enabled: false,
+        segmentDuration: 5 * 60 * 1000,
+        path: path.join(process.cwd(), 'changes'),
+        stateFile: path.join(process.cwd(), 'state', 'changes.json')
+      });
+      expect(config.backup.chunkSize).toBe(10 * 1024 * 1024);
+      expect(config.backup.extendedJsonMode).toBe('canonical');
+      expect(config.backup.compression).toBe('gzip');
+      expect(config.backup.streaming).toBe(false);
+      expect(config.backup.include).toEqual([]);
+      expect(config.backup.exclude).toEqual([]);
+      expect(config.backup.oplog).toBe(false);
+      expect(config.encryption).toEqual({ keyId: null, keyring: {} });
+      expect(config.retention).toBeNull();
+    });
+
+    test('should list every missing and invalid setting at once', () => {
+      const issues = getIssues(() => loadConfig({
+        env: {
+          B2_KEY_ID: 'key-id',
+          BACKUP_CHUNK_SIZE: 'lots',
+          EXTENDED_JSON_MODE: 'shell',
+          SCHEDULE_CRON: '0 25 * * *',
+          SCHEDULE_TIMEZONE: 'Mars/Olympus',
+          SCHEDULE_CATCH_UP: 'sometimes',
+          RUN_SHUTDOWN_TIMEOUT: '5',
+          RETENTION_KEEP_LAST: '0'
+        }
+      }));
+
+      expect(issues).toEqual([
+        expect.stringContaining('b2.applicationKey is required (set B2_KEY'),
+        'backup.chunkSize from BACKUP_CHUNK_SIZE: must be a size such as 10MB, got "lots"',
+        'backup.extendedJsonMode from EXTENDED_JSON_MODE: must be one of canonical, relaxed, got "shell"',
+        'schedule.cron from SCHEDULE_CRON: must be a cron expression such as "0 2 * * *", got "0 25 * * *"',
+        'schedule.timezone from SCHEDULE_TIMEZONE: must be an IANA time zone such as Europe/Berlin, got "Mars/Olympus"',
+        'schedule.catchUp from SCHEDULE_CATCH_UP: must be true or false, got "sometimes"',
+        'run.shutdownTimeout from RUN_SHUTDOWN_TIMEOUT: must be a duration such as 30s or 5m, got "5"',
+        'retention.keepLast from RETENTION_KEEP_LAST: must be at least 1, got "0"',
+        expect.stringContaining('b2.bucketId or b2.bucketName is required (set B2_BUCKET_ID or B2_BUCKET_NAME')
+      ]);
+    });
+
+    test('should require the S3 settings instead of the B2 ones for the s3 backend', () => {
+      expect(getIssues(() => loadConfig({ env: { STORAGE_BACKEND: 's3', S3_BUCKET: 'backups' } }))).toEqual([
+        expect.stringContaining('s3.endpoint is required (set S3_ENDPOINT'),
+        expect.stringContaining('s3.accessKeyId is required (set S3_ACCESS_KEY_ID'),
+        expect.stringContaining('s3.secretAccessKey is required (set S3_SECRET_ACCESS_KEY')
+      ]);
+
+      const config = loadConfig({
+        env: {
+          STORAGE_BACKEND: 's3',
+          S3_ENDPOINT: 'http://minio:9000',
+          S3_BUCKET: 'backups',
+          S3_ACCESS_KEY_ID: 'minio',
+          S3_SECRET_ACCESS_KEY: 'minio-secret'
+        }
+      });
+      expect(config.storage).toEqual({ backend: 's3' });
+      expect(config.s3).toEqual({
+        endpoint: 'http://minio:9000',
+        region: 'us-east-1',
+        bucket: 'backups',
+        accessKeyId: 'minio',
+        secretAccessKey: 'minio-secret'
+      });
+      expect(describeConfig(config)).toMatchObject({ s3: { secretAccessKey: '***' } });
+    });
+
+    test('should only require a directory for the filesystem backend', () => {
+      expect(getIssues(() => loadConfig({ env: { STORAGE_BACKEND: 'filesystem' } }))).toEqual([
+        expect.stringContaining('filesystem.path is required (set FILESYSTEM_PATH')
+      ]);
+      expect(loadConfig({ env: { STORAGE_BACKEND: 'filesystem', FILESYSTEM_PATH: '/mnt/nas' } }).filesystem).toEqual({
+        path: '/mnt/nas'
+      });
+    });
+
+    test('should select the B2 bucket by name when no ID is set', () => {
+      const config = loadConfig({
+        env: { B2_KEY_ID: 'key-id', B2_KEY: 'secret-key', B2_BUCKET_NAME: 'backups' }
+      });
+
+      expect(config.b2).toMatchObject({ bucketId: '', bucketName: 'backups' });
+    });
+
+    test('should read a YAML config file with flags over env over file', () => {
+      const configFile = writeConfigFile('config.yml', [
+        'mongo:',
+        '  uri: mongodb://file:27017',
+        '  containerName: file-mongo',
+        'backup:',
+        '  chunkSize: 32MB',
+        'schedule:',
+        '  cron: 30 3 * * 1',
+        '  timezone: Europe/Berlin',
+        '  catchUp: false',
+        'retention:',
+        '  keepDaily: 7'
+      ].join('\n'));
+
+      const config = loadConfig({
+        env: { ...requiredEnv, MONGO_CONTAINER_NAME: 'env-mongo', MONGO_URI: 'mongodb://env:27017' },
+        configFile,
+        flags: { 'mongo.uri': 'mongodb://flag:27017' }
+      });
+
+      expect(config.mongo).toEqual({ uri: 'mongodb://flag:27017', containerName: 'env-mongo' });
+      expect(config.schedule).toMatchObject({ cron: '30 3 * * 1', timezone: 'Europe/Berlin', catchUp: false });
+      expect(config.backup.chunkSize).toBe(32 * 1024 * 1024);
+      expect(config.retention).toEqual({ keepLast: 1, keepDaily: 7, keepWeekly: 0, keepMonthly: 0 });
+    });
+
+    test('should read a JSON config file named by CONFIG_FILE', () => {
+      const configFile = writeConfigFile('config.json', JSON.stringify({
+        b2: { keyId: 'file-key-id', applicationKey: 'file-key', bucketId: 'file-bucket', partSize: 5242880 }
+      }));
+
+      const config = loadConfig({ env: { CONFIG_FILE: configFile } });
+
+      expect(config.b2.keyId).toBe('file-key-id');
+      expect(config.b2.partSize).toBe(5 * 1024 * 1024);
+    });
+
+    test('should merge encryption keys from env and a key file', () => {
+      const keyFile = writeConfigFile('keys', `# retired\nkey-2023:${Buffer.alloc(32, 1).toString('base64')}\n`);
+
+      const config = loadConfig({
+        env: {
+          ...requiredEnv,
+          ENCRYPTION_KEY_ID: 'key-2024',
+          ENCRYPTION_KEYS: `key-2024:${Buffer.alloc(32, 2).toString('base64')}`,
+          ENCRYPTION_KEY_FILE: keyFile
+        }
+      });
+
+      expect(config.encryption.keyId).toBe('key-2024');
+      expect(config.encryption.keyring).toEqual({
+        'key-2024': Buffer.alloc(32, 2),
+        'key-2023': Buffer.alloc(32, 1)
+      });
+      expect(describeConfig(config).encryption).toEqual({ keyId: 'key-2024', keys: ['key-2024', 'key-2023'] });
+    });
+
+    test('should reject an active key that is not in the keyring', () => {
+      expect(getIssues(() => loadConfig({
+        env: { ...requiredEnv, ENCRYPTION_KEY_ID: 'key-2024' }
+      }))).toEqual(['encryption.keyId is set but no keys are configured (set ENCRYPTION_KEYS or ENCRYPTION_KEY_FILE)']);
+
+      expect(getIssues(() => loadConfig({
+        env: {
+          ...requiredEnv,
+          ENCRYPTION_KEY_ID: 'key-2024',
+          ENCRYPTION_KEYS: `key-2023:${Buffer.alloc(32, 1).toString('base64')}`
+        }
+      }))).toEqual(['encryption.keyId key-2024 is not in the keyring']);
+
+      expect(getIssues(() => loadConfig({
+        env: { ...requiredEnv, ENCRYPTION_KEYS: 'key-2023:c2hvcnQ=' }
+      }))).toEqual([expect.stringContaining('Failed to load encryption keys from encryption.keys: Key key-2023 must be 32 bytes')]);
+    });
+
+    test('should read namespace filters from comma-separated env values and file lists', () => {
+      const configFile = writeConfigFile('config.yml', [
+        'backup:',
+        '  include:',
+        '    - app.*',
+        '    - crm.contacts'
+      ].join('\n'));
+
+      const config = loadConfig({ env: { ...requiredEnv, BACKUP_EXCLUDE: 'admin, config,*.tmp_*' }, configFile });
+
+      expect(config.backup.include).toEqual(['app.*', 'crm.contacts']);
+      expect(config.backup.exclude).toEqual(['admin', 'config', '*.tmp_*']);
+      expect(getIssues(() => loadConfig({ env: { ...requiredEnv, BACKUP_INCLUDE: 'app.,.users' } }))).toEqual([
+        'backup.include: "app." is not a db or db.collection pattern',
+        'backup.include: ".users" is not a db or db.collection pattern'
+      ]);
+    });
+
+    test('should only accept zstd compression when zlib supports it', () => {
+      const load = () => loadConfig({ env: { ...requiredEnv, BACKUP_COMPRESSION: 'zstd' } });
+
+      if (isCodecAvailable('zstd')) {
+        expect(load().backup.compression).toBe('zstd');
+      } else {
+        expect(getIssues(load)).toEqual([expect.stringContaining('backup.compression: zstd needs Node.js 22.15 or later')]);
+      }
+      expect(loadConfig({ env: { ...requiredEnv, BACKUP_COMPRESSION: 'none' } }).backup.compression).toBe('none');
+    });
+
+    test('should reject unknown settings and unreadable config files', () => {
+      const configFile = writeConfigFile('config.yml', 'mongo:\n  url: mongodb://typo:27017\n');
+
+      expect(getIssues(() => loadConfig({ env: requiredEnv, configFile }))).toEqual([
+        `Unknown setting mongo.url in config file ${configFile}`
+      ]);
+      expect(getIssues(() => loadConfig({ env: requiredEnv, configFile: path.join(tempDir, 'missing.yml') }))).toEqual([
+        expect.stringContaining('Failed to read config file')
+      ]);
+    });
+  });
+
+  describe('extractConfigFlags', () => {
+    test('should map settings to kebab-case flags', () => {
+      expect(getSettingFlag('b2.partSize')).toBe('--b2-part-size');
+      expect(getSettingFlag('mongo.uri')).toBe('--mongo-uri');
+    });
+
+    test('should remove config flags and keep other arguments in order', () => {
+      const { sources, rest } = extractConfigFlags([
+        'restore', '--config', 'backup.yml', 'latest', '--backup-chunk-size=20MB', '--drop', '--mongo-uri', 'mongodb://db'
+      ]);
+
+      expect(sources).toEqual({
+        configFile: 'backup.yml',
+        flags: { 'backup.chunkSize': '20MB', 'mongo.uri': 'mongodb://db' }
+      });
+      expect(rest).toEqual(['restore', 'latest', '--drop']);
+    });
+
+    test('should throw when a flag has no value', () => {
+      expect(() => extractConfigFlags(['--mongo-uri'])).toThrow(ConfigError);
+    });
+  });
+
+  test('should mask secrets when describing the configuration', () => {
+    const config = loadConfig({ env: { ...requiredEnv, MONGO_URI: 'mongodb://admin:hunter2@db:27017' } });
+
+    expect(describeConfig(config)).toMatchObject({
+      mongo: { uri: 'mongodb://***:***@db:27017' },
+      b2: { applicationKey: '***' }
+    });
+  });
+});
@@ -0,0 +1,499 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { parseExpression } from 'cron-parser';
+import { parseKeyring } from '../utils/crypto.util';
+import { CompressionCodec, isCodecAvailable } from '../utils/compression.util';
+import { isValidNamespacePattern } from '../utils/filter.util';
+import { Config, ConfigSources } from '../types/config.types';
+import { Keyring } from '../types/crypto.types';
+import { StorageBackendName } from '../types/storage.types';
+
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid configuration:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+type SettingType = 'string' | 'list' | 'integer' | 'boolean' | 'size' | 'duration' | 'enum' | 'cron' | 'timezone';
+
+type SettingValue = string | string[] | number | boolean;
+
+type ParsedSetting = { value: SettingValue } | { error: string };
+
+interface SettingDefinition {
+  /** Path of the setting in the config file and in `Config` */
+  key: string;
+  env: string;
+  type: SettingType;
+  required?: boolean;
+  /** Only used, and only required, when this storage backend is selected */
+  backend?: StorageBackendName;
+  default?: string;
+  values?: string[];
+  min?: number;
+}
+
+const SETTINGS: SettingDefinition[] = [
+  { key: 'mongo.uri', env: 'MONGO_URI', type: 'string', default: 'mongodb://localhost:27017' },
+  { key: 'mongo.containerName', env: 'MONGO_CONTAINER_NAME', type: 'string', default: 'mongo' },
+  // Selects where snapshots are stored, must come before the settings of each backend
+  {
+    key: 'storage.backend',
+    env: 'STORAGE_BACKEND',
+    type: 'enum',
+    default: 'b2',
+    values: ['b2', 's3', 'filesystem']
+  },
+  { key: 'b2.keyId', env: 'B2_KEY_ID', type: 'string', required: true, backend: 'b2' },
+  { key: 'b2.applicationKey', env: 'B2_KEY', type: 'string', required: true, backend: 'b2' },
+  // Either one selects the bucket, the ID wins when both are set
+  { key: 'b2.bucketId', env: 'B2_BUCKET_ID', type: 'string', backend: 'b2' },
+  { key: 'b2.bucketName', env: 'B2_BUCKET_NAME', type: 'string', backend: 'b2' },
+  // Root of every file name, e.g. "prod", so environments can share a bucket; defaults to the key's name prefix
+  { key: 'b2.prefix', env: 'B2_PREFIX', type: 'string', backend: 'b2' },
+  // Only changed to point at a B2 API emulator
+  { key: 'b2.authUrl', env: 'B2_AUTH_URL', type: 'string', default: 'https://api.backblazeb2.com', backend: 'b2' },
+  // Any S3-compatible endpoint, e.g. https://s3.us-west-004.backblazeb2.com or a MinIO server
+  { key: 's3.endpoint', env: 'S3_ENDPOINT', type: 'string', required: true, backend: 's3' },
+  { key: 's3.region', env: 'S3_REGION', type: 'string', default: 'us-east-1', backend: 's3' },
+  { key: 's3.bucket', env: 'S3_BUCKET', type: 'string', required: true, backend: 's3' },
+  { key: 's3.accessKeyId', env: 'S3_ACCESS_KEY_ID', type: 'string', required: true, backend: 's3' },
+  { key: 's3.secretAccessKey', env: 'S3_SECRET_ACCESS_KEY', type: 'string', required: true, backend: 's3' },
+  // A mounted NAS or second disk, files are stored below it with a .meta.json sidecar each
+  { key: 'filesystem.path', env: 'FILESYSTEM_PATH', type: 'string', required: true, backend: 'filesystem' },
+  // Part size, retries and concurrency apply to every backend; B2 and S3 reject parts below 5MB
+  { key: 'b2.partSize', env: 'B2_PART_SIZE', type: 'size', default: '100MB', min: 5 * 1024 * 1024 },
+  { key: 'b2.maxRetries', env: 'B2_MAX_RETRIES', type: 'integer', default: '3' },
+  { key: 'b2.uploadConcurrency', env: 'B2_UPLOAD_CONCURRENCY', type: 'integer', default: '4', min: 1 },
+  { key: 'backup.path', env: 'BACKUP_PATH', type: 'string', default: path.join(process.cwd(), 'backups') },
+  { key: 'backup.chunkSize', env: 'BACKUP_CHUNK_SIZE', type: 'size', default: '10MB', min: 1024 },
+  {
+    key: 'backup.extendedJsonMode',
+    env: 'EXTENDED_JSON_MODE',
+    type: 'enum',
+    default: 'canonical',
+    values: ['canonical', 'relaxed']
+  },
+  {
+    key: 'backup.compression',
+    env: 'BACKUP_COMPRESSION',
+    type: 'enum',
+    default: 'gzip',
+    values: ['none', 'gzip', 'zstd']
+  },
+  { key: 'backup.streaming', env: 'BACKUP_STREAMING', type: 'boolean', default: 'false' },
+  // Comma-separated db or db.collection globs, e.g. "app.*,crm.contacts"
+  { key: 'backup.include', env: 'BACKUP_INCLUDE', type: 'list' },
+  { key: 'backup.exclude', env: 'BACKUP_EXCLUDE', type: 'list' },
+  // Point-in-time snapshots on replica sets, mongodump --oplog always dumps every namespace
+  { key: 'backup.oplog', env: 'BACKUP_OPLOG', type: 'boolean', default: 'false' },
+  { key: 'schedule.cron', env: 'SCHEDULE_CRON', type: 'cron', default: '0 */12 * * *' },
+  { key: 'schedule.timezone', env: 'SCHEDULE_TIMEZONE', type: 'timezone', default: 'UTC' },
+  { key: 'schedule.catchUp', env: 'SCHEDULE_CATCH_UP', type: 'boolean', default: 'true' },
+  // Kept outside backup.path, which is emptied after every run
+  {
+    key: 'schedule.stateFile',
+    env: 'SCHEDULE_STATE_FILE',
+    type: 'string',
+    default: path.join(process.cwd(), 'state', 'schedule.json')
+  },
+  { key: 'run.overlap', env: 'RUN_OVERLAP', type: 'enum', default: 'skip', values: ['skip', 'queue'] },
+  {
+    key: 'run.lockFile',
+    env: 'RUN_LOCK_FILE',
+    type: 'string',
+    default: path.join(process.cwd(), 'state', 'backup.lock')
+  },
+  { key: 'run.shutdownTimeout', env: 'RUN_SHUTDOWN_TIMEOUT', type: 'duration', default: '5m' },
+  // Scheduled restore drills are off when unset, `drill` still runs one on demand
+  { key: 'drill.cron', env: 'DRILL_CRON', type: 'cron' },
+  { key: 'drill.image', env: 'DRILL_IMAGE', type: 'string', default: 'mongo:7' },
+  { key: 'drill.sampleSize', env: 'DRILL_SAMPLE_SIZE', type: 'integer', default: '20' },
+  { key: 'drill.startupTimeout', env: 'DRILL_STARTUP_TIMEOUT', type: 'duration', default: '1m' },
+  {
+    key: 'drill.stateFile',
+    env: 'DRILL_STATE_FILE',
+    type: 'string',
+    default: path.join(process.cwd(), 'state', 'drill.json')
+  },
+  // The change stream tailer runs next to the scheduled backups, segments reuse the backup codec and key
+  { key: 'changes.enabled', env: 'CHANGES_ENABLED', type: 'boolean', default: 'false' },
+  { key: 'changes.segmentDuration', env: 'CHANGES_SEGMENT_DURATION', type: 'duration', default: '5m', min: 1000 },
+  { key: 'changes.path', env: 'CHANGES_PATH', type: 'string', default: path.join(process.cwd(), 'changes') },
+  {
+    key: 'changes.stateFile',
+    env: 'CHANGES_STATE_FILE',
+    type: 'string',
+    default: path.join(process.cwd(), 'state', 'changes.json')
+  },
+  // Key used to encrypt new parts, encryption is off when unset
+  { key: 'encryption.keyId', env: 'ENCRYPTION_KEY_ID', type: 'string' },
+  { key: 'encryption.keys', env: 'ENCRYPTION_KEYS', type: 'string' },
+  { key: 'encryption.keyFile', env: 'ENCRYPTION_KEY_FILE', type: 'string' },
+  { key: 'retention.keepLast', env: 'RETENTION_KEEP_LAST', type: 'integer', min: 1 },
+  { key: 'retention.keepDaily', env: 'RETENTION_KEEP_DAILY', type: 'integer' },
+  { key: 'retention.keepWeekly', env: 'RETENTION_KEEP_WEEKLY', type: 'integer' },
+  { key: 'retention.keepMonthly', env: 'RETENTION_KEEP_MONTHLY', type: 'integer' }
+];
+
+const SIZE_UNITS: Record<string, number> = {
+  '': 1,
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000
+};
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  '1': true,
+  false: false,
+  no: false,
+  '0': false
+};
+
+/**
+ * Returns the command-line flag of a setting, e.g. `b2.partSize` -> `--b2-part-size`
+ */
+export function getSettingFlag(key: string): string {
+  return `--${key.replace('.', '-').replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`;
+}
+
+/**
+ * Removes `--config <file>` and setting flags (`--mongo-uri <uri>` or
+ * `--mongo-uri=<uri>`) from argv, leaving the remaining arguments in order
+ */
+export function extractConfigFlags(argv: string[]): { sources: ConfigSources; rest: string[] } {
+  const flagKeys = new Map(SETTINGS.map(setting => [getSettingFlag(setting.key), setting.key]));
+  const flags: Record<string, string> = {};
+  const rest: string[] = [];
+  let configFile: string | undefined;
+
+  for (let index = 0; index < argv.length; index++) {
+    const [flag, inlineValue] = argv[index].split(/=(.*)/s);
+    const key = flagKeys.get(flag);
+    if (!key && flag !== '--config') {
+      rest.push(argv[index]);
+      continue;
+    }
+
+    const value = inlineValue ?? argv[++index];
+    if (value === undefined) {
+      throw new ConfigError([`${flag} requires a value`]);
+    }
+    if (key) {
+      flags[key] = value;
+    } else {
+      configFile = value;
+    }
+  }
+
+  return { sources: { configFile, flags }, rest };
+}
+
+/**
+ * Builds the configuration from, in increasing precedence: defaults, the
+ * config file (`configFile` or CONFIG_FILE), environment variables and
+ * command-line flags. Every problem is collected before a ConfigError is thrown.
+ */
+export function loadConfig(sources: ConfigSources = {}): Config {
+  const env = sources.env || process.env;
+  const issues: string[] = [];
+
+  const configFile = sources.configFile || env.CONFIG_FILE;
+  const fileValues = configFile ? readConfigFile(configFile, issues) : {};
+
+  const values: Record<string, SettingValue | undefined> = {};
+  for (const setting of SETTINGS) {
+    const [raw, source] = resolveSetting(setting, fileValues, env, sources.flags || {});
+    if (raw === undefined || raw === '') {
+      if (setting.required && (!setting.backend || setting.backend === values['storage.backend'])) {
+        issues.push(`${setting.key} is required (set ${setting.env}, ${getSettingFlag(setting.key)} or ${setting.key} in the config file)`);
+      }
+      continue;
+    }
+
+    const parsed = parseSetting(setting, raw);
+    if ('error' in parsed) {
+      issues.push(`${setting.key} from ${source}: ${parsed.error}`);
+    } else if (setting.min !== undefined && typeof parsed.value === 'number' && parsed.value < setting.min) {
+      issues.push(`${setting.key} from ${source}: must be at least ${setting.min}, got "${raw}"`);
+    } else {
+      values[setting.key] = parsed.value;
+    }
+  }
+
+  if (values['storage.backend'] === 'b2' && !values['b2.bucketId'] && !values['b2.bucketName']) {
+    issues.push('b2.bucketId or b2.bucketName is required (set B2_BUCKET_ID or B2_BUCKET_NAME, --b2-bucket-id or --b2-bucket-name, or either in the config file)');
+  }
+
+  const keyring = loadKeyring(values, issues);
+
+  for (const key of ['backup.include', 'backup.exclude']) {
+    for (const pattern of (values[key] as string[] | undefined) ?? []) {
+      if (!isValidNamespacePattern(pattern)) {
+        issues.push(`${key}: "${pattern}" is not a db or db.collection pattern`);
+      }
+    }
+  }
+
+  const compression = values['backup.compression'] as CompressionCodec | undefined;
+  if (compression && !isCodecAvailable(compression)) {
+    issues.push(`backup.compression: ${compression} needs Node.js 22.15 or later, running ${process.version}`);
+  }
+
+  if (issues.length) {
+    throw new ConfigError(issues);
+  }
+
+  const hasRetention = SETTINGS.some(setting => setting.key.startsWith('retention.') && values[setting.key] !== undefined);
+
+  return {
+    mongo: {
+      uri: values['mongo.uri'] as string,
+      containerName: values['mongo.containerName'] as string
+    },
+    storage: {
+      backend: values['storage.backend'] as StorageBackendName
+    },
+    b2: {
+      keyId: (values['b2.keyId'] as string | undefined) ?? '',
+      applicationKey: (values['b2.applicationKey'] as string | undefined) ?? '',
+      bucketId: (values['b2.bucketId'] as string | undefined) ?? '',
+      bucketName: (values['b2.bucketName'] as string | undefined) ?? '',
+      prefix: (values['b2.prefix'] as string | undefined) ?? '',
+      partSize: values['b2.partSize'] as number,
+      maxRetries: values['b2.maxRetries'] as number,
+      uploadConcurrency: values['b2.uploadConcurrency'] as number,
+      authUrl: values['b2.authUrl'] as string
+    },
+    s3: {
+      endpoint: (values['s3.endpoint'] as string | undefined) ?? '',
+      region: values['s3.region'] as string,
+      bucket: (values['s3.bucket'] as string | undefined) ?? '',
+      accessKeyId: (values['s3.accessKeyId'] as string | undefined) ?? '',
+      secretAccessKey: (values['s3.secretAccessKey'] as string | undefined) ?? ''
+    },
+    filesystem: {
+      path: (values['filesystem.path'] as string | undefined) ?? ''
+    },
+    backup: {
+      path: values['backup.path'] as string,
+      chunkSize: values['backup.chunkSize'] as number,
+      extendedJsonMode: values['backup.extendedJsonMode'] as Config['backup']['extendedJsonMode'],
+      compression: values['backup.compression'] as CompressionCodec,
+      streaming: values['backup.streaming'] as boolean,
+      include: (values['backup.include'] as string[] | undefined) ?? [],
+      exclude: (values['backup.exclude'] as string[] | undefined) ?? [],
+      oplog: values['backup.oplog'] as boolean
+    },
+    schedule: {
+      cron: values['schedule.cron'] as string,
+      timezone: values['schedule.timezone'] as string,
+      catchUp: values['schedule.catchUp'] as boolean,
+      stateFile: values['schedule.stateFile'] as string
+    },
+    run: {
+      overlap: values['run.overlap'] as Config['run']['overlap'],
+      lockFile: values['run.lockFile'] as string,
+      shutdownTimeout: values['run.shutdownTimeout'] as number
+    },
+    drill: {
+      cron: (values['drill.cron'] as string | undefined) ?? null,
+      image: values['drill.image'] as string,
+      sampleSize: values['drill.sampleSize'] as number,
+      startupTimeout: values['drill.startupTimeout'] as number,
+      stateFile: values['drill.stateFile'] as string
+    },
+    changes: {
+      enabled: values['changes.enabled'] as boolean,
+      segmentDuration: values['changes.segmentDuration'] as number,
+      path: values['changes.path'] as string,
+      stateFile: values['changes.stateFile'] as string
+    },
+    encryption: {
+      keyId: (values['encryption.keyId'] as string | undefined) ?? null,
+      keyring
+    },
+    retention: hasRetention
+      ? {
+        keepLast: (values['retention.keepLast'] as number | undefined) ?? 1,
+        keepDaily: (values['retention.keepDaily'] as number | undefined) ?? 0,
+        keepWeekly: (values['retention.keepWeekly'] as number | undefined) ?? 0,
+        keepMonthly: (values['retention.keepMonthly'] as number | undefined) ?? 0
+      }
+      : null
+  };
+}
+
+/**
+ * Returns a copy of the configuration that is safe to log
+ */
+export function describeConfig(config: Config): Record<string, unknown> {
+  return {
+    ...config,
+    mongo: { ...config.mongo, uri: config.mongo.uri.replace(/\/\/[^@]+@/, '//***:***@') },
+    b2: { ...config.b2, applicationKey: '***' },
+    s3: { ...config.s3, secretAccessKey: config.s3.secretAccessKey && '***' },
+    encryption: { keyId: config.encryption.keyId, keys: Object.keys(config.encryption.keyring) }
+  };
+}
+
+/**
+ * Merges the keys from `encryption.keys` and `encryption.keyFile` and checks
+ * that the active key is among them
+ */
+function loadKeyring(values: Record<string, SettingValue | undefined>, issues: string[]): Keyring {
+  const keyring: Keyring = {};
+  const sources: [string, () => string][] = [];
+  if (values['encryption.keys']) {
+    sources.push(['encryption.keys', () => values['encryption.keys'] as string]);
+  }
+  if (values['encryption.keyFile']) {
+    const keyFile = values['encryption.keyFile'] as string;
+    sources.push([`key file ${keyFile}`, () => readFileSync(keyFile, 'utf8')]);
+  }
+
+  let loaded = true;
+  for (const [source, read] of sources) {
+    try {
+      for (const [keyId, key] of Object.entries(parseKeyring(read()))) {
+        if (keyring[keyId]) {
+          issues.push(`Encryption key ${keyId} from ${source} is already defined`);
+        }
+        keyring[keyId] = key;
+      }
+    } catch (error) {
+      loaded = false;
+      issues.push(`Failed to load encryption keys from ${source}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const keyId = values['encryption.keyId'] as string | undefined;
+  if (keyId && !sources.length) {
+    issues.push('encryption.keyId is set but no keys are configured (set ENCRYPTION_KEYS or ENCRYPTION_KEY_FILE)');
+  } else if (keyId && loaded && !keyring[keyId]) {
+    issues.push(`encryption.keyId ${keyId} is not in the keyring`);
+  }
+
+  return keyring;
+}
+
+function resolveSetting(
+  setting: SettingDefinition,
+  fileValues: Record<string, string>,
+  env: NodeJS.ProcessEnv,
+  flags: Record<string, string>
+): [string | undefined, string] {
+  if (flags[setting.key] !== undefined) return [flags[setting.key], getSettingFlag(setting.key)];
+  if (env[setting.env] !== undefined && env[setting.env] !== '') return [env[setting.env], setting.env];
+  if (fileValues[setting.key] !== undefined) return [fileValues[setting.key], 'config file'];
+  return [setting.default, 'default'];
+}
+
+/**
+ * Parses a raw value, returning an error message instead when it is invalid
+ */
+function parseSetting(setting: SettingDefinition, raw: string): ParsedSetting {
+  const value = raw.trim();
+  switch (setting.type) {
+    case 'string':
+      return { value };
+    case 'list':
+      return { value: value.split(',').map(item => item.trim()).filter(Boolean) };
+    case 'integer':
+      return /^\d+$/.test(value)
+        ? { value: parseInt(value, 10) }
+        : { error: `must be a non-negative integer, got "${raw}"` };
+    case 'boolean':
+      return value.toLowerCase() in BOOLEAN_VALUES
+        ? { value: BOOLEAN_VALUES[value.toLowerCase()] }
+        : { error: `must be true or false, got "${raw}"` };
+    case 'size': {
+      const size = parseWithUnit(value.toUpperCase(), SIZE_UNITS);
+      return size !== undefined ? { value: size } : { error: `must be a size such as 10MB, got "${raw}"` };
+    }
+    case 'duration': {
+      const duration = parseWithUnit(value, DURATION_UNITS);
+      return duration !== undefined ? { value: duration } : { error: `must be a duration such as 30s or 5m, got "${raw}"` };
+    }
+    case 'enum':
+      return setting.values!.includes(value)
+        ? { value }
+        : { error: `must be one of ${setting.values!.join(', ')}, got "${raw}"` };
+    case 'cron':
+      try {
+        parseExpression(value);
+        return { value };
+      } catch (error) {
+        return { error: `must be a cron expression such as "0 2 * * *", got "${raw}"` };
+      }
+    case 'timezone':
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+        return { value };
+      } catch (error) {
+        return { error: `must be an IANA time zone such as Europe/Berlin, got "${raw}"` };
+      }
+  }
+}
+
+function parseWithUnit(value: string, units: Record<string, number>): number | undefined {
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*([a-zA-Z]*)$/);
+  if (!match || units[match[2]] === undefined) return undefined;
+  return Math.round(parseFloat(match[1]) * units[match[2]]);
+}
+
+/**
+ * Reads a YAML or JSON config file and flattens it to setting paths
+ */
+function readConfigFile(filePath: string, issues: string[]): Record<string, string> {
+  let contents: unknown;
+  try {
+    const text = readFileSync(filePath, 'utf8');
+    contents = filePath.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    issues.push(`Failed to read config file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    return {};
+  }
+
+  if (contents === null || contents === undefined) return {};
+  if (typeof contents !== 'object' || Array.isArray(contents)) {
+    issues.push(`Config file ${filePath} must contain an object`);
+    return {};
+  }
+
+  const knownKeys = new Set(SETTINGS.map(setting => setting.key));
+  const values: Record<string, string> = {};
+
+  for (const [section, sectionValues] of Object.entries(contents)) {
+    if (typeof sectionValues !== 'object' || sectionValues === null || Array.isArray(sectionValues)) {
+      issues.push(`${section} in config file ${filePath} must be an object`);
+      continue;
+    }
+    for (const [name, value] of Object.entries(sectionValues)) {
+      const key = `${section}.${name}`;
+      if (!knownKeys.has(key)) {
+        issues.push(`Unknown setting ${key} in config file ${filePath}`);
+      } else if (Array.isArray(value) && SETTINGS.find(setting => setting.key === key)!.type === 'list') {
+        values[key] = value.join(',');
+      } else if (typeof value === 'object' && value !== null) {
+        issues.push(`${key} in config file ${filePath} must be a single value`);
+      } else if (value !== null) {
+        values[key] = String(value);
+      }
+    }
+  }
+
+  return values;
+}
@@ -1,7 +1,11 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
 import { MongoService } from './services/mongo.service';
 import { B2Service } from './services/b2.service';
 import { BackupService } from './services/backup.service';
 import { BackupError } from './utils/errors';
+import { SnapshotManifest } from './types/manifest.types';
 
 jest.mock('./services/mongo.service');
 jest.mock('./services/b2.service');
@@ -15,16 +19,31 @@ describe('Main Application', () => {
   let mockMongoService: jest.Mocked<MongoService>;
   let mockB2Service: jest.Mocked<B2Service>;
   let mockBackupService: jest.Mocked<BackupService>;
+  let tempDir: string;
+  const mockManifest: SnapshotManifest = {
+    version: 1,
+    snapshotId: '2024-03-14T12-00-00-000Z',
+    startedAt: '2024-03-14T12:00:00.000Z',
+    completedAt: '2024-03-14T12:05:00.000Z',
+    mongodumpVersion: '100.9.4',
+    sourceUri: 'mongodb://localhost:27017/test',
+    extendedJsonMode: 'canonical',
+    collections: []
+  };
 
   beforeEach(() => {
     jest.clearAllMocks();
+    tempDir = mkdtempSync(path.join(tmpdir(), 'index-test-'));
     process.env = {
       MONGO_CONTAINER_NAME: 'test-mongo',
       MONGO_URI: 'mongodb://localhost:27017/test',
       BACKUP_PATH: '/backup',
       B2_KEY_ID: 'test-key-id',
       B2_KEY: 'test-key',
-      B2_BUCKET_NAME: 'test-bucket'
+      B2_BUCKET_ID: 'test-bucket',
+      // Keeps the schedule state and run lock out of the working directory
+      SCHEDULE_STATE_FILE: path.join(tempDir, 'state', 'schedule.json'),
+      RUN_LOCK_FILE: path.join(tempDir, 'state', 'backup.lock')
     };
 
     mockMongoService = new MongoService(
@@ -48,9 +67,13 @@ describe('Main Application', () => {
     ) as jest.Mocked<BackupService>;
   });
 
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
   test('should perform backup successfully', async () => {
     mockB2Service.authenticate.mockResolvedValue();
-    mockBackupService.performIncrementalBackup.mockResolvedValue();
+    mockBackupService.performIncrementalBackup.mockResolvedValue(mockManifest);
 
     await require('./index');
 
@@ -81,7 +104,7 @@ describe('Main Application', () => {
 
   test('should handle graceful shutdown', async () => {
     mockB2Service.authenticate.mockResolvedValue();
-    mockBackupService.performIncrementalBackup.mockResolvedValue();
+    mockBackupService.performIncrementalBackup.mockResolvedValue(mockManifest);
 
     const exitSpy = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
 
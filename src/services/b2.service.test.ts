@@ -4,6 +4,8 @@ import { createReadStream } from 'fs';
 import { stat } from 'fs/promises';
 import logger from '../utils/logger.util';
 import { calculateChecksum } from '../utils/file.util';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
 
 jest.mock('axios');
 jest.mock('fs');
@@ -450,4 +452,292 @@ describe('B2Service', () => {
         .rejects.toThrow('Not authenticated');
     }, 30000);
   });
-}); 
\ No newline at end of file
+
+  /**
+   * Authorizes with an unrestricted key and resolves the bucket by name,
+   * answering any other GET with `get`
+   */
+  const authenticateWithFullKey = async (get?: (url: string, config?: any) => Promise<any>) => {
+    mockedAxios.get.mockReset();
+    mockedAxios.post.mockReset();
+    mockedAxios.get.mockImplementation(async (url: string, config?: any) => {
+      if (url.endsWith('b2_authorize_account')) {
+        return {
+          data: {
+            accountId: 'test-account',
+            authorizationToken: 'test-token',
+            apiUrl: 'https://api.test.com',
+            downloadUrl: 'https://download.test.com',
+            allowed: {
+              bucketId: null,
+              bucketName: null,
+              capabilities: ['listBuckets', 'listFiles', 'readFiles', 'writeFiles', 'deleteFiles'],
+              namePrefix: null
+            }
+          }
+        };
+      }
+      if (url.endsWith('b2_list_buckets')) {
+        return { data: { buckets: [{ bucketId: 'test-bucket-id', bucketName }] } };
+      }
+      if (get) {
+        return get(url, config);
+      }
+      throw new Error(`Unexpected GET ${url}`);
+    });
+    await b2Service.authenticate();
+  };
+
+  describe('deleteFile', () => {
+    beforeEach(async () => {
+      await authenticateWithFullKey();
+    });
+
+    test('should delete a file version', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { fileName: 'a.txt', fileId: 'id1' } });
+
+      await b2Service.deleteFile('a.txt', 'id1');
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://api.test.com/b2api/v2/b2_delete_file_version',
+        { fileName: 'a.txt', fileId: 'id1' },
+        { headers: { Authorization: 'test-token' } }
+      );
+    });
+
+    test('should throw B2Error on delete failure', async () => {
+      mockedAxios.post.mockRejectedValueOnce(new Error('Delete failed'));
+
+      await expect(b2Service.deleteFile('a.txt', 'id1')).rejects.toThrow(B2Error);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://api.test.com/b2api/v2/b2_delete_file_version',
+        { fileName: 'a.txt', fileId: 'id1' },
+        { headers: { Authorization: 'test-token' } }
+      );
+    });
+  });
+
+  describe('headFile', () => {
+    const storedFile = {
+      fileId: 'id1',
+      fileName: 'snapshots/a/manifest.json',
+      contentLength: 42,
+      contentSha1: 'hash1',
+      uploadTimestamp: 1234567890
+    };
+
+    test('should look up a single file by its exact name', async () => {
+      await authenticateWithFullKey(async () => ({ data: { files: [storedFile], nextFileName: null } }));
+
+      await expect(b2Service.headFile('snapshots/a/manifest.json')).resolves.toEqual(storedFile);
+      expect(mockedAxios.get).toHaveBeenCalledWith('https://api.test.com/b2api/v2/b2_list_file_names', {
+        headers: { Authorization: 'test-token' },
+        params: {
+          bucketId: 'test-bucket-id',
+          prefix: 'snapshots/a/manifest.json',
+          startFileName: 'snapshots/a/manifest.json',
+          maxFileCount: 1
+        }
+      });
+    });
+
+    test('should return null when only a longer name matches', async () => {
+      await authenticateWithFullKey(async () => ({
+        data: { files: [{ ...storedFile, fileName: 'snapshots/a/manifest.json.bak' }], nextFileName: null }
+      }));
+
+      await expect(b2Service.headFile('snapshots/a/manifest.json')).resolves.toBeNull();
+    });
+  });
+
+  describe('uploadFile from disk', () => {
+    const fileName = 'snapshots/s1/app/users/users.jsonl.part1';
+    // Three parts of 4, 4 and 2 bytes
+    const data = Buffer.from('0123456789');
+    const sha1 = (part: string | Buffer) => createHash('sha1').update(part).digest('hex');
+    const fileInfo = { large_file_sha1: sha1(data) };
+    let unfinishedFiles: object[];
+    let uploadedParts: object[];
+    let uploadedBodies: Record<string, string>;
+
+    beforeEach(async () => {
+      mockedAxios.get.mockReset();
+      mockedAxios.post.mockReset();
+      b2Service = new B2Service(applicationKeyId, applicationKey, bucketName, 0, 1, 4);
+      unfinishedFiles = [];
+      uploadedParts = [];
+      uploadedBodies = {};
+
+      mockedAxios.get.mockImplementation(async (url: string) => {
+        const api = url.split('/').pop();
+        switch (api) {
+          case 'b2_authorize_account':
+            return { data: { authorizationToken: 'token', apiUrl: 'https://api.test.com', downloadUrl: 'https://download.test.com' } };
+          case 'b2_list_buckets':
+            return { data: { buckets: [{ bucketId: 'test-bucket-id', bucketName }] } };
+          case 'b2_list_file_names':
+            return { data: { files: [], nextFileName: null } };
+          case 'b2_list_unfinished_large_files':
+            return { data: { files: unfinishedFiles, nextFileId: null } };
+          case 'b2_list_parts':
+            return { data: { parts: uploadedParts, nextPartNumber: null } };
+          case 'b2_get_upload_part_url':
+            return { data: { uploadUrl: 'https://upload.test.com/part', authorizationToken: 'part-token' } };
+          case 'b2_get_upload_url':
+            return { data: { uploadUrl: 'https://upload.test.com/file', authorizationToken: 'file-token' } };
+        }
+        throw new Error(`Unexpected GET ${url}`);
+      });
+      mockedAxios.post.mockImplementation(async (url: string, body, config) => {
+        if (url.endsWith('b2_start_large_file')) return { data: { fileId: 'new-file' } };
+        if (body instanceof Readable) {
+          const chunks: Buffer[] = [];
+          for await (const chunk of body) chunks.push(chunk);
+          uploadedBodies[config?.headers?.['X-Bz-Part-Number'] || 'file'] = Buffer.concat(chunks).toString();
+        }
+        return { data: { fileName, fileId: 'small-file' } };
+      });
+      mockedStat.mockResolvedValue({ size: data.length } as Awaited<ReturnType<typeof stat>>);
+      // Ranges are inclusive, as in fs.createReadStream
+      const readRange = (range?: { start: number; end: number }) =>
+        range ? data.subarray(range.start, range.end + 1) : data;
+      mockedCreateReadStream.mockImplementation(((path: string, range?: { start: number; end: number }) =>
+        Readable.from([readRange(range)])) as unknown as typeof createReadStream);
+      mockCalculateChecksum.mockImplementation(async (path, range) => sha1(readRange(range)));
+
+      await b2Service.authenticate();
+    });
+
+    const postsTo = (api: string) => mockedAxios.post.mock.calls.filter(([url]) => url.endsWith(api));
+    const uploadedPartNumbers = () => mockedAxios.post.mock.calls
+      .filter(([url]) => url === 'https://upload.test.com/part')
+      .map(([, , config]) => config?.headers?.['X-Bz-Part-Number']);
+
+    test('should stream a small file after hashing it', async () => {
+      b2Service = new B2Service(applicationKeyId, applicationKey, bucketName, 0, 1, 100);
+      await b2Service.authenticate();
+
+      const result = await b2Service.uploadFile('/tmp/part', fileName);
+
+      expect(result.fileId).toBe('small-file');
+      expect(uploadedBodies.file).toBe('0123456789');
+      expect(postsTo('upload.test.com/file')[0][2]?.headers).toEqual(expect.objectContaining({
+        'Content-Length': '10',
+        'X-Bz-Content-Sha1': sha1(data)
+      }));
+    });
+
+    test('should start a new large file when nothing is unfinished', async () => {
+      const result = await b2Service.uploadFile('/tmp/part', fileName);
+
+      expect(postsTo('b2_start_large_file')[0][1]).toEqual(expect.objectContaining({ fileInfo }));
+      expect(uploadedPartNumbers()).toEqual(['1', '2', '3']);
+      expect(uploadedBodies).toEqual({ 1: '0123', 2: '4567', 3: '89' });
+      expect(postsTo('b2_finish_large_file')[0][1]).toEqual({
+        fileId: 'new-file',
+        partSha1Array: [sha1('0123'), sha1('4567'), sha1('89')]
+      });
+      expect(result.contentSha1).toBe(sha1(data));
+    });
+
+    test('should resume an unfinished upload and reuse parts whose SHA-1 matches', async () => {
+      unfinishedFiles = [{ fileId: 'old-file', fileName, fileInfo, uploadTimestamp: 1 }];
+      uploadedParts = [
+        { partNumber: 1, contentLength: 4, contentSha1: sha1('0123') },
+        { partNumber: 2, contentLength: 4, contentSha1: sha1('xxxx') }
+      ];
+
+      await b2Service.uploadFile('/tmp/part', fileName);
+
+      expect(postsTo('b2_start_large_file')).toHaveLength(0);
+      expect(uploadedPartNumbers()).toEqual(['2', '3']);
+      expect(postsTo('b2_finish_large_file')[0][1]).toEqual({
+        fileId: 'old-file',
+        partSha1Array: [sha1('0123'), sha1('4567'), sha1('89')]
+      });
+    });
+
+    test('should cancel stale unfinished uploads that cannot be resumed', async () => {
+      unfinishedFiles = [
+        { fileId: 'older', fileName, fileInfo, uploadTimestamp: 1 },
+        { fileId: 'other-key', fileName, fileInfo: { ...fileInfo, 'encryption-key-id': 'old' }, uploadTimestamp: 3 },
+        { fileId: 'newest', fileName, fileInfo, uploadTimestamp: 2 },
+        { fileId: 'other-name', fileName: `${fileName}0`, fileInfo, uploadTimestamp: 4 }
+      ];
+
+      await b2Service.uploadFile('/tmp/part', fileName);
+
+      expect(postsTo('b2_cancel_large_file').map(([, body]) => body)).toEqual([
+        { fileId: 'other-key' },
+        { fileId: 'older' }
+      ]);
+      expect(postsTo('b2_finish_large_file')[0][1]).toEqual(expect.objectContaining({ fileId: 'newest' }));
+    });
+
+    test('should not resume a file uploaded with a different part size', async () => {
+      unfinishedFiles = [{ fileId: 'old-file', fileName, fileInfo, uploadTimestamp: 1 }];
+      uploadedParts = [{ partNumber: 5, contentLength: 2, contentSha1: sha1('89') }];
+
+      await b2Service.uploadFile('/tmp/part', fileName);
+
+      expect(postsTo('b2_cancel_large_file').map(([, body]) => body)).toEqual([{ fileId: 'old-file' }]);
+      expect(postsTo('b2_start_large_file')).toHaveLength(1);
+      expect(uploadedPartNumbers()).toEqual(['1', '2', '3']);
+    });
+
+    test('should upload parts concurrently with one upload URL per worker', async () => {
+      b2Service = new B2Service(applicationKeyId, applicationKey, bucketName, 0, 1, 4, 2);
+      await b2Service.authenticate();
+
+      await b2Service.uploadFile('/tmp/part', fileName);
+
+      const partUrlRequests = mockedAxios.get.mock.calls.filter(([url]) => url.endsWith('b2_get_upload_part_url'));
+      expect(partUrlRequests).toHaveLength(2);
+      expect(uploadedPartNumbers().sort()).toEqual(['1', '2', '3']);
+      expect(postsTo('b2_finish_large_file')[0][1]).toEqual({
+        fileId: 'new-file',
+        partSha1Array: [sha1('0123'), sha1('4567'), sha1('89')]
+      });
+    });
+
+    test('should retry a failed part with a new upload URL without restarting the file', async () => {
+      b2Service = new B2Service(applicationKeyId, applicationKey, bucketName, 2, 1, 4);
+      await b2Service.authenticate();
+      let failed = false;
+      mockedAxios.post.mockImplementation(async (url: string, body, config) => {
+        if (url.endsWith('b2_start_large_file')) return { data: { fileId: 'new-file' } };
+        if (!failed && config?.headers?.['X-Bz-Part-Number'] === '2') {
+          failed = true;
+          throw new Error('socket hang up');
+        }
+        return { data: {} };
+      });
+
+      await b2Service.uploadFile('/tmp/part', fileName);
+
+      expect(postsTo('b2_start_large_file')).toHaveLength(1);
+      expect(uploadedPartNumbers()).toEqual(['1', '2', '2', '3']);
+      expect(mockedAxios.get.mock.calls.filter(([url]) => url.endsWith('b2_get_upload_part_url'))).toHaveLength(2);
+    });
+  });
+
+  describe('uploadFiles', () => {
+    test('should run uploads with bounded concurrency and keep their order', async () => {
+      b2Service = new B2Service(applicationKeyId, applicationKey, bucketName, 0, 1, 4, 2);
+      let running = 0;
+      let maxRunning = 0;
+
+      const results = await b2Service.uploadFiles([30, 10, 20], async (ms, index) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, ms));
+        running--;
+        return `part${index + 1}`;
+      });
+
+      expect(results).toEqual(['part1', 'part2', 'part3']);
+      expect(maxRunning).toBe(2);
+      expect(logger.info).toHaveBeenCalledWith('Uploaded 3 of 3 files');
+    });
+  });
+});
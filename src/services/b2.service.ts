@@ -2,23 +2,26 @@ import axios, { AxiosError } from 'axios';
 import logger from '../utils/logger.util';
 import { createReadStream } from 'fs';
 import { stat } from 'fs/promises';
-import { createHash } from 'crypto';
 import { Readable } from 'stream';
+import { StorageBackend, StoredFile, UploadOptions } from '../types/storage.types';
+import { calculateChecksum } from '../utils/file.util';
+import { runWithConcurrency } from '../utils/pool.util';
+import { CHANGES_ROOT, SNAPSHOTS_ROOT } from '../utils/snapshot.util';
+
+/** What the application key may do, a bucket ID is only set for keys restricted to one bucket */
+interface B2Allowed {
+  bucketId: string | null;
+  bucketName: string | null;
+  capabilities: string[];
+  namePrefix: string | null;
+}
 
 interface B2AuthResponse {
   accountId: string;
   authorizationToken: string;
-  apiInfo: {
-    storageApi: {
-      apiUrl: string;
-      downloadUrl: string;
-      allowed: {
-        buckets: B2Bucket[];
-        capabilities: string[];
-        namePrefix: string | null;
-      };
-    };
-  };
+  apiUrl: string;
+  downloadUrl: string;
+  allowed?: B2Allowed;
 }
 
 interface B2File {
@@ -35,8 +38,8 @@ interface B2ListFilesResponse {
 }
 
 interface B2Bucket {
-  id: string;
-  name: string | null;
+  bucketId: string;
+  bucketName: string;
 }
 
 interface B2ListBucketsResponse {
@@ -56,10 +59,48 @@ interface B2StartLargeFileResponse {
   contentType: string;
 }
 
+interface B2UnfinishedLargeFile {
+  fileId: string;
+  fileName: string;
+  fileInfo: Record<string, string>;
+  uploadTimestamp: number;
+}
+
+interface B2ListUnfinishedLargeFilesResponse {
+  files: B2UnfinishedLargeFile[];
+  nextFileId: string | null;
+}
+
+interface B2Part {
+  partNumber: number;
+  contentLength: number;
+  contentSha1: string;
+}
+
+interface B2ListPartsResponse {
+  parts: B2Part[];
+  nextPartNumber: number | null;
+}
+
+interface B2PartSource extends B2Part {
+  /** Offset of the part in the local file */
+  start: number;
+}
+
+interface ResumableLargeFile {
+  fileId: string;
+  parts: Map<number, B2Part>;
+}
+
 interface B2DownloadAuthResponse {
   authorizationToken: string;
 }
 
+const DEFAULT_AUTH_URL = 'https://api.backblazeb2.com';
+
+/** Backups list and write files, verify and restore read them */
+const DEFAULT_CAPABILITIES = ['listFiles', 'readFiles', 'writeFiles'];
+
 export class B2Error extends Error {
   constructor(message: string, public code?: number) {
     super(message);
@@ -67,40 +108,64 @@ export class B2Error extends Error {
   }
 }
 
-export class B2Service {
+export class B2Service implements StorageBackend {
   private applicationKeyId: string;
   private applicationKey: string;
-  private bucketId: string;
+  /** The configured bucket, either its ID or its name */
+  private readonly bucket: string;
+  /** Resolved from the configured bucket on the first authentication */
+  private bucketId: string = '';
   private authToken: string | null = null;
   private apiUrl: string | null = null;
   private downloadUrl: string | null = null;
-  private readonly CHUNK_SIZE = 100 * 1024 * 1024; // 100MB chunks
+  private accountId: string | null = null;
+  /** Downloads address the bucket by name */
+  private bucketName: string | null = null;
+  private readonly CHUNK_SIZE: number;
   private readonly maxRetries: number = 5; // Increased from 3 to 5
   private readonly retryDelay: number = 1000;
   private readonly maxBackoffDelay: number = 30000; // 30 seconds
+  private readonly uploadConcurrency: number;
+  private readonly authUrl: string;
+  private readonly requiredCapabilities: string[];
+  /** The configured root prefix, normalized to end with '/' */
+  private readonly prefix: string;
+  /** Prepended to every file name, the configured prefix or else the key's enforced name prefix */
+  private rootPrefix: string = '';
 
   constructor(
     applicationKeyId: string,
     applicationKey: string,
-    bucketId: string,
+    bucket: string,
     maxRetries: number = 3,
-    retryDelay: number = 1000
+    retryDelay: number = 1000,
+    partSize: number = 100 * 1024 * 1024, // 100MB chunks
+    uploadConcurrency: number = 1,
+    authUrl: string = DEFAULT_AUTH_URL,
+    requiredCapabilities: string[] = DEFAULT_CAPABILITIES,
+    prefix: string = ''
   ) {
     this.applicationKeyId = applicationKeyId;
     this.applicationKey = applicationKey;
-    this.bucketId = bucketId;
+    this.bucket = bucket;
     this.maxRetries = maxRetries;
     this.retryDelay = retryDelay;
+    this.CHUNK_SIZE = partSize;
+    this.uploadConcurrency = uploadConcurrency;
+    this.authUrl = authUrl;
+    this.requiredCapabilities = requiredCapabilities;
+    this.prefix = normalizePrefix(prefix);
 
     // Debug logging in constructor
     logger.info('B2Service initialized with:', {
       keyIdLength: this.applicationKeyId.length,
       keyLength: this.applicationKey.length,
-      bucketId: this.bucketId,
+      bucket: this.bucket,
       envVars: {
         B2_KEY_ID: process.env.B2_KEY_ID ? 'set' : 'not set',
         B2_KEY: process.env.B2_KEY ? 'set' : 'not set',
-        B2_BUCKET_ID: process.env.B2_BUCKET_ID ? 'set' : 'not set'
+        B2_BUCKET_ID: process.env.B2_BUCKET_ID ? 'set' : 'not set',
+        B2_BUCKET_NAME: process.env.B2_BUCKET_NAME ? 'set' : 'not set'
       }
     });
   }
@@ -110,11 +175,12 @@ export class B2Service {
       logger.info('Attempting B2 authentication with:', {
         keyIdLength: this.applicationKeyId.length,
         keyLength: this.applicationKey.length,
-        bucketId: this.bucketId,
+        bucket: this.bucket,
         envVars: {
           B2_KEY_ID: process.env.B2_KEY_ID ? 'set' : 'not set',
           B2_KEY: process.env.B2_KEY ? 'set' : 'not set',
-          B2_BUCKET_ID: process.env.B2_BUCKET_ID ? 'set' : 'not set'
+          B2_BUCKET_ID: process.env.B2_BUCKET_ID ? 'set' : 'not set',
+          B2_BUCKET_NAME: process.env.B2_BUCKET_NAME ? 'set' : 'not set'
         }
       });
 
@@ -124,29 +190,38 @@ export class B2Service {
 
       // Use the exact same logic as test_upload.js
       const auth = Buffer.from(`${this.applicationKeyId}:${this.applicationKey}`).toString('base64');
-      const authRes = await axios.get('https://api.backblazeb2.com/b2api/v2/b2_authorize_account', {
+      const authRes = await axios.get<B2AuthResponse>(`${this.authUrl}/b2api/v2/b2_authorize_account`, {
         headers: { 'Authorization': `Basic ${auth}` }
       });
-      const { authorizationToken, apiUrl, downloadUrl } = authRes.data;
+      const { accountId, authorizationToken, apiUrl, downloadUrl, allowed } = authRes.data;
+      this.applyKeyRestrictions(allowed);
+      this.accountId = accountId;
       this.authToken = authorizationToken;
       this.apiUrl = apiUrl;
       this.downloadUrl = downloadUrl;
 
+      // Re-authentication after an expired token keeps the resolved bucket
+      if (!this.bucketId) {
+        await this.resolveBucket(allowed);
+      }
+
       logger.info('Successfully authenticated with B2', {
         apiUrl: this.apiUrl,
         downloadUrl: this.downloadUrl,
-        bucketId: this.bucketId
+        bucketId: this.bucketId,
+        rootPrefix: this.rootPrefix
       });
     } catch (error) {
       logger.error('Failed to authenticate with B2', {
         error: typeof error === 'object' && error !== null && 'response' in error ? (error as any).response?.data : error,
         keyIdLength: this.applicationKeyId.length,
         keyLength: this.applicationKey.length,
-        bucketId: this.bucketId,
+        bucket: this.bucket,
         envVars: {
           B2_KEY_ID: process.env.B2_KEY_ID ? 'set' : 'not set',
           B2_KEY: process.env.B2_KEY ? 'set' : 'not set',
-          B2_BUCKET_ID: process.env.B2_BUCKET_ID ? 'set' : 'not set'
+          B2_BUCKET_ID: process.env.B2_BUCKET_ID ? 'set' : 'not set',
+          B2_BUCKET_NAME: process.env.B2_BUCKET_NAME ? 'set' : 'not set'
         }
       });
       throw new B2Error(
@@ -155,40 +230,88 @@ export class B2Service {
     }
   }
 
-  private async getBucketId(): Promise<void> {
-    try {
-      const response = await axios.get<B2ListBucketsResponse>(
-        `${this.getApiUrl()}/b2api/v2/b2_list_buckets`,
-        {
-          headers: this.getAuthHeaders(),
-          params: {
-            accountId: this.applicationKeyId
-          }
-        }
-      );
+  /**
+   * Fails at startup, rather than with a 401 in the middle of a backup, when
+   * the key lacks a capability the configured features need or may only
+   * write names outside the snapshot and change stream layout. Without a
+   * configured prefix, a key's enforced name prefix becomes the root prefix,
+   * as a folder: a key for "prod" stores under "prod/snapshots/".
+   */
+  private applyKeyRestrictions(allowed: B2Allowed | undefined): void {
+    const namePrefix = allowed?.namePrefix || '';
+    this.rootPrefix = this.prefix || normalizePrefix(namePrefix);
+    if (!allowed) {
+      return;
+    }
 
-      const bucket = response.data.buckets.find(
-        (b) => b.id === this.bucketId
+    const missing = this.requiredCapabilities.filter(capability => !allowed.capabilities.includes(capability));
+    if (missing.length) {
+      throw new B2Error(
+        `The application key lacks the ${missing.join(', ')} ${missing.length === 1 ? 'capability' : 'capabilities'}, ` +
+        `create a key with ${this.requiredCapabilities.join(', ')}`
       );
+    }
 
-      if (!bucket) {
-        throw new B2Error(`Bucket with ID ${this.bucketId} not found`);
-      }
-    } catch (error) {
-      logger.error('Failed to get bucket ID', { error });
+    const outside = [SNAPSHOTS_ROOT, CHANGES_ROOT]
+      .map(root => `${this.rootPrefix}${root}/`)
+      .filter(root => !root.startsWith(namePrefix));
+    if (outside.length) {
       throw new B2Error(
-        error instanceof Error ? error.message : 'Failed to get bucket ID'
+        `The application key is restricted to file names starting with "${namePrefix}", ` +
+        `but backups are stored under ${outside.join(' and ')}`
       );
     }
   }
 
-  private async startLargeFileUpload(fileName: string): Promise<B2StartLargeFileResponse> {
+  /**
+   * Finds the configured bucket by ID or name. A key restricted to one bucket
+   * names it in its authorization, other keys list the account's buckets.
+   */
+  private async resolveBucket(allowed: B2Allowed | undefined): Promise<void> {
+    if (allowed?.bucketId) {
+      if (this.bucket !== allowed.bucketId && this.bucket !== allowed.bucketName) {
+        throw new B2Error(`The application key is restricted to bucket ${allowed.bucketName ?? allowed.bucketId}, not ${this.bucket}`);
+      }
+      if (!allowed.bucketName) {
+        throw new B2Error(`Bucket ${this.bucket} not found`);
+      }
+      this.bucketId = allowed.bucketId;
+      this.bucketName = allowed.bucketName;
+      return;
+    }
+
+    if (allowed && !allowed.capabilities.includes('listBuckets')) {
+      throw new B2Error(`The application key lacks the listBuckets capability needed to find bucket ${this.bucket}`);
+    }
+    const response = await axios.get<B2ListBucketsResponse>(
+      `${this.getApiUrl()}/b2api/v2/b2_list_buckets`,
+      {
+        headers: this.getAuthHeaders(),
+        params: { accountId: this.accountId }
+      }
+    );
+    const bucket = response.data.buckets.find(
+      candidate => candidate.bucketId === this.bucket || candidate.bucketName === this.bucket
+    );
+    if (!bucket) {
+      throw new B2Error(`Bucket ${this.bucket} not found`);
+    }
+    this.bucketId = bucket.bucketId;
+    this.bucketName = bucket.bucketName;
+    logger.info('Resolved B2 bucket', { bucketId: this.bucketId, bucketName: this.bucketName });
+  }
+
+  private async startLargeFileUpload(
+    fileName: string,
+    fileInfo: Record<string, string> = {}
+  ): Promise<B2StartLargeFileResponse> {
     const response = await axios.post<B2StartLargeFileResponse>(
       `${this.getApiUrl()}/b2api/v2/b2_start_large_file`,
       {
         bucketId: this.bucketId,
         fileName,
-        contentType: 'b2/x-auto'
+        contentType: 'b2/x-auto',
+        fileInfo
       },
       {
         headers: this.getAuthHeaders()
@@ -197,6 +320,111 @@ export class B2Service {
     return response.data;
   }
 
+  private async listUnfinishedLargeFiles(fileName: string): Promise<B2UnfinishedLargeFile[]> {
+    const files: B2UnfinishedLargeFile[] = [];
+    let startFileId: string | null = null;
+
+    do {
+      const response: { data: B2ListUnfinishedLargeFilesResponse } = await axios.get<B2ListUnfinishedLargeFilesResponse>(
+        `${this.getApiUrl()}/b2api/v2/b2_list_unfinished_large_files`,
+        {
+          headers: this.getAuthHeaders(),
+          params: {
+            bucketId: this.bucketId,
+            namePrefix: fileName,
+            startFileId,
+            maxFileCount: 100
+          }
+        }
+      );
+      // The prefix also matches longer names, e.g. part10 for part1
+      files.push(...response.data.files.filter(file => file.fileName === fileName));
+      startFileId = response.data.nextFileId;
+    } while (startFileId);
+
+    return files;
+  }
+
+  private async listParts(fileId: string): Promise<Map<number, B2Part>> {
+    const parts = new Map<number, B2Part>();
+    let startPartNumber: number | null = null;
+
+    do {
+      const response: { data: B2ListPartsResponse } = await axios.get<B2ListPartsResponse>(
+        `${this.getApiUrl()}/b2api/v2/b2_list_parts`,
+        {
+          headers: this.getAuthHeaders(),
+          params: {
+            fileId,
+            startPartNumber,
+            maxPartCount: 1000
+          }
+        }
+      );
+      response.data.parts.forEach(part => parts.set(part.partNumber, part));
+      startPartNumber = response.data.nextPartNumber;
+    } while (startPartNumber);
+
+    return parts;
+  }
+
+  private async cancelLargeFile(fileId: string, fileName: string): Promise<void> {
+    try {
+      await axios.post(
+        `${this.getApiUrl()}/b2api/v2/b2_cancel_large_file`,
+        { fileId },
+        { headers: this.getAuthHeaders() }
+      );
+      logger.info('Cancelled stale unfinished large file', { fileName, fileId });
+    } catch (error) {
+      // Left for the next upload of the same name to clean up
+      logger.warn('Failed to cancel unfinished large file', {
+        fileName,
+        fileId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Picks the newest unfinished large file with the same name and file info
+   * to resume, and cancels every other unfinished upload of that name. A file
+   * with more parts than the current upload needs was started with a
+   * different part size and cannot be finished, so it is cancelled too.
+   */
+  private async findResumableLargeFile(
+    fileName: string,
+    totalParts: number,
+    fileInfo: Record<string, string> = {}
+  ): Promise<ResumableLargeFile | null> {
+    const unfinished = await this.listUnfinishedLargeFiles(fileName);
+    unfinished.sort((a, b) => b.uploadTimestamp - a.uploadTimestamp);
+
+    let resumable: ResumableLargeFile | null = null;
+    for (const file of unfinished) {
+      if (!resumable && this.isSameFileInfo(file.fileInfo, fileInfo)) {
+        const parts = await this.listParts(file.fileId);
+        if ([...parts.keys()].every(partNumber => partNumber <= totalParts)) {
+          resumable = { fileId: file.fileId, parts };
+          logger.info('Resuming unfinished large file', {
+            fileName,
+            fileId: file.fileId,
+            uploadedParts: parts.size
+          });
+          continue;
+        }
+      }
+      await this.cancelLargeFile(file.fileId, fileName);
+    }
+
+    return resumable;
+  }
+
+  private isSameFileInfo(a: Record<string, string> = {}, b: Record<string, string> = {}): boolean {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+  }
+
   private async getUploadPartUrl(fileId: string): Promise<B2UploadPartUrlResponse> {
     const response = await axios.get<B2UploadPartUrlResponse>(
       `${this.getApiUrl()}/b2api/v2/b2_get_upload_part_url`,
@@ -208,36 +436,73 @@ export class B2Service {
     return response.data;
   }
 
+  /**
+   * Streams one part from disk, its SHA-1 has to be known up front
+   */
   private async uploadPart(
     uploadUrl: string,
     authorizationToken: string,
-    partNumber: number,
-    fileId: string,
-    chunk: Buffer
-  ): Promise<{ partNumber: number; contentLength: number; contentSha1: string }> {
-    const sha1 = createHash('sha1').update(chunk).digest('hex');
-    
-    const response = await axios.post(
+    filePath: string,
+    part: B2PartSource
+  ): Promise<B2Part> {
+    await axios.post(
       uploadUrl,
-      chunk,
+      createReadStream(filePath, { start: part.start, end: part.start + part.contentLength - 1 }),
       {
         headers: {
           'Authorization': authorizationToken,
           'Content-Type': 'b2/x-auto',
-          'Content-Length': chunk.length.toString(),
-          'X-Bz-Part-Number': partNumber.toString(),
-          'X-Bz-Content-Sha1': sha1
+          'Content-Length': part.contentLength.toString(),
+          'X-Bz-Part-Number': part.partNumber.toString(),
+          'X-Bz-Content-Sha1': part.contentSha1
         }
       }
     );
-    
+
     return {
-      partNumber,
-      contentLength: chunk.length,
-      contentSha1: sha1
+      partNumber: part.partNumber,
+      contentLength: part.contentLength,
+      contentSha1: part.contentSha1
     };
   }
 
+
+  /**
+   * Uploads one part of a large file, retrying just that part. The worker's
+   * upload URL is dropped after a failure and a new one is requested, as B2
+   * asks clients to do.
+   */
+  private async uploadPartWithRetry(
+    fileName: string,
+    fileId: string,
+    filePath: string,
+    part: B2PartSource,
+    partUrls: (B2UploadPartUrlResponse | undefined)[],
+    worker: number
+  ): Promise<B2Part> {
+    const { partNumber } = part;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const partUrl = partUrls[worker] || await this.getUploadPartUrl(fileId);
+        partUrls[worker] = partUrl;
+        return await this.uploadPart(partUrl.uploadUrl, partUrl.authorizationToken, filePath, part);
+      } catch (error) {
+        partUrls[worker] = undefined;
+        const shouldRetry = await this.handleUploadError(error, attempt + 1, `${fileName} part ${partNumber}`);
+        if (!shouldRetry || attempt >= this.maxRetries) {
+          throw error;
+        }
+
+        const backoffDelay = this.getBackoffDelay(attempt);
+        logger.warn(`Part ${partNumber} upload attempt ${attempt + 1} failed, retrying in ${Math.round(backoffDelay / 1000)}s`, {
+          fileName,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        await this.sleep(backoffDelay);
+      }
+    }
+  }
+
   private async finishLargeFile(fileId: string, partSha1Array: string[]): Promise<void> {
     await axios.post(
       `${this.getApiUrl()}/b2api/v2/b2_finish_large_file`,
@@ -336,14 +601,31 @@ export class B2Service {
     return true;
   }
 
+  private getFileInfoHeaders(fileInfo: Record<string, string> = {}): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(fileInfo).map(([name, value]) => [`X-Bz-Info-${name}`, encodeURIComponent(value)])
+    );
+  }
+
+  /**
+   * Exponential backoff with jitter
+   */
+  private getBackoffDelay(retries: number): number {
+    return Math.min(
+      this.retryDelay * Math.pow(2, retries) * (0.5 + Math.random()),
+      this.maxBackoffDelay
+    );
+  }
+
   private async sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  async uploadFile(filePath: string, fileName: string): Promise<B2File> {
+  async uploadFile(filePath: string, fileName: string, options: UploadOptions = {}): Promise<StoredFile> {
     if (!this.isAuthenticated()) {
       throw new B2Error('Not authenticated with B2');
     }
+    const key = this.toKey(fileName);
 
     // Check if file already exists
     const exists = await this.fileExists(fileName);
@@ -385,28 +667,21 @@ export class B2Service {
 
           const { uploadUrl, authorizationToken } = uploadUrlResponse.data;
           
-          // Calculate SHA1 hash first
-          const fileBuffer = await new Promise<Buffer>((resolve, reject) => {
-            const chunks: Buffer[] = [];
-            const stream = createReadStream(filePath);
-            stream.on('data', (chunk) => chunks.push(Buffer.from(chunk)));
-            stream.on('end', () => resolve(Buffer.concat(chunks)));
-            stream.on('error', reject);
-          });
-          
-          const sha1 = createHash('sha1').update(fileBuffer).digest('hex');
+          // Hash the file in a first pass so the upload can stream it without holding it in memory
+          const sha1 = await calculateChecksum(filePath);
           
           // Now upload with the hash
           const response = await axios.post<B2File>(
             uploadUrl,
-            fileBuffer,
+            createReadStream(filePath),
             {
               headers: {
                 Authorization: authorizationToken,
                 'Content-Type': 'b2/x-auto',
                 'Content-Length': fileSize.toString(),
-                'X-Bz-File-Name': fileName,
-                'X-Bz-Content-Sha1': sha1
+                'X-Bz-File-Name': encodeFileName(key),
+                'X-Bz-Content-Sha1': sha1,
+                ...this.getFileInfoHeaders(options.fileInfo)
               }
             }
           );
@@ -417,48 +692,49 @@ export class B2Service {
             fileId: response.data.fileId
           });
 
-          return response.data;
+          return this.fromKey(response.data);
         }
 
-        // For large files, use large file upload
-        const startResponse = await this.startLargeFileUpload(fileName);
-        const fileId = startResponse.fileId;
+        // For large files, use large file upload, picking up where an interrupted one stopped.
+        // B2 recommends recording the whole file's SHA-1, since it does not compute one for large files.
         const totalParts = Math.ceil(fileSize / this.CHUNK_SIZE);
-        const partSha1Array: string[] = [];
+        const fileSha1 = await calculateChecksum(filePath);
+        const fileInfo = { ...options.fileInfo, large_file_sha1: fileSha1 };
+        const resumable = await this.findResumableLargeFile(key, totalParts, fileInfo);
+        const fileId = resumable
+          ? resumable.fileId
+          : (await this.startLargeFileUpload(key, fileInfo)).fileId;
+        const uploadedParts = resumable ? resumable.parts : new Map<number, B2Part>();
+        const partNumbers = Array.from({ length: totalParts }, (_, index) => index + 1);
+        // B2 wants a separate upload URL for every concurrent upload, so each worker keeps its own
+        const partUrls: (B2UploadPartUrlResponse | undefined)[] = [];
+        let completedBytes = 0;
 
-        for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
+        const partSha1Array = await runWithConcurrency(partNumbers, this.uploadConcurrency, async (partNumber, index, worker) => {
           const start = (partNumber - 1) * this.CHUNK_SIZE;
-          const end = Math.min(start + this.CHUNK_SIZE, fileSize);
-          const chunk = Buffer.alloc(end - start);
-          
-          const fileHandle = await createReadStream(filePath, { start, end });
-          await new Promise<void>((resolve, reject) => {
-            fileHandle.on('data', (data: string | Buffer) => {
-              if (Buffer.isBuffer(data)) {
-                chunk.set(data, 0);
-              }
-            });
-            fileHandle.on('end', () => resolve());
-            fileHandle.on('error', reject);
-          });
-          
-          const uploadPartUrlResponse = await this.getUploadPartUrl(fileId);
-          const partResponse = await this.uploadPart(
-            uploadPartUrlResponse.uploadUrl,
-            uploadPartUrlResponse.authorizationToken,
-            partNumber,
-            fileId,
-            chunk
-          );
-          
-          partSha1Array[partNumber - 1] = partResponse.contentSha1;
+          const contentLength = Math.min(this.CHUNK_SIZE, fileSize - start);
+          // Hash the part in a first pass, the upload then streams the same range again
+          const contentSha1 = await calculateChecksum(filePath, { start, end: start + contentLength - 1 });
+
+          const uploaded = uploadedParts.get(partNumber);
+          if (uploaded && uploaded.contentLength === contentLength && uploaded.contentSha1 === contentSha1) {
+            completedBytes += contentLength;
+            logger.info(`Reusing uploaded part ${partNumber} of ${totalParts}`, { fileName, partNumber });
+            return contentSha1;
+          }
+
+          const part = { partNumber, start, contentLength, contentSha1 };
+          await this.uploadPartWithRetry(fileName, fileId, filePath, part, partUrls, worker);
+          completedBytes += contentLength;
           logger.info(`Uploaded part ${partNumber} of ${totalParts}`, {
             fileName,
             partNumber,
             totalParts,
-            partSize: chunk.length
+            partSize: contentLength,
+            progress: `${Math.round((completedBytes / fileSize) * 100)}%`
           });
-        }
+          return contentSha1;
+        });
 
         await this.finishLargeFile(fileId, partSha1Array);
         
@@ -473,7 +749,7 @@ export class B2Service {
           fileName,
           fileId,
           contentLength: fileSize,
-          contentSha1: partSha1Array.join(''),
+          contentSha1: fileSha1,
           uploadTimestamp: Date.now()
         };
       } catch (error) {
@@ -487,11 +763,7 @@ export class B2Service {
         }
 
         if (retries < this.maxRetries) {
-          // Calculate exponential backoff with jitter
-          const backoffDelay = Math.min(
-            this.retryDelay * Math.pow(2, retries) * (0.5 + Math.random()),
-            this.maxBackoffDelay
-          );
+          const backoffDelay = this.getBackoffDelay(retries);
           
           logger.warn(`Upload attempt ${retries + 1} failed, retrying in ${Math.round(backoffDelay/1000)}s`, {
             fileName,
@@ -512,7 +784,26 @@ export class B2Service {
     );
   }
 
-  async listExistingFiles(prefix?: string): Promise<B2File[]> {
+  /**
+   * Runs independent uploads, e.g. the parts of a snapshot, with at most
+   * uploadConcurrency in flight and logs the overall progress. Every
+   * uploadFile call gets its own upload URL, so they can run side by side.
+   */
+  async uploadFiles<T, R>(items: T[], upload: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    let completed = 0;
+    return runWithConcurrency(items, this.uploadConcurrency, async (item, index) => {
+      const result = await upload(item, index);
+      completed++;
+      logger.info(`Uploaded ${completed} of ${items.length} files`);
+      return result;
+    });
+  }
+
+  /**
+   * Lists files under a prefix. Unless recursive, only the direct children are
+   * returned and sub-folders appear as entries whose name ends with '/'.
+   */
+  async listExistingFiles(prefix?: string, recursive: boolean = false): Promise<StoredFile[]> {
     if (!this.isAuthenticated()) {
       throw new B2Error('Not authenticated with B2');
     }
@@ -528,10 +819,10 @@ export class B2Service {
             headers: this.getAuthHeaders(),
             params: {
               bucketId: this.bucketId,
-              prefix,
+              prefix: this.toKey(prefix ?? '') || undefined,
               startFileName: nextFileName,
               maxFileCount: 1000,
-              delimiter: '/' // Add delimiter to handle folders
+              delimiter: recursive ? undefined : '/' // Add delimiter to handle folders
             }
           }
         );
@@ -546,7 +837,39 @@ export class B2Service {
       }
     } while (nextFileName);
 
-    return files;
+    return files.map(file => this.fromKey(file));
+  }
+
+  /**
+   * Deletes a file version from the bucket
+   */
+  async deleteFile(fileName: string, fileId: string): Promise<void> {
+    if (!this.isAuthenticated()) {
+      throw new B2Error('Not authenticated with B2');
+    }
+
+    try {
+      await axios.post(
+        `${this.getApiUrl()}/b2api/v2/b2_delete_file_version`,
+        {
+          fileName: this.toKey(fileName),
+          fileId
+        },
+        {
+          headers: this.getAuthHeaders()
+        }
+      );
+      logger.info('Deleted file from B2', { fileName, fileId });
+    } catch (error) {
+      logger.error('Failed to delete file', {
+        fileName,
+        fileId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw new B2Error(
+        error instanceof Error ? error.message : 'Failed to delete file from B2'
+      );
+    }
   }
 
   /**
@@ -578,6 +901,54 @@ export class B2Service {
     }
   }
 
+  /**
+   * Looks up the latest version of a single file by listing from its exact
+   * name, since b2_get_file_info needs a file ID
+   */
+  async headFile(fileName: string): Promise<StoredFile | null> {
+    if (!this.isAuthenticated()) {
+      throw new B2Error('Not authenticated with B2');
+    }
+    const key = this.toKey(fileName);
+
+    try {
+      const response = await axios.get<B2ListFilesResponse>(
+        `${this.getApiUrl()}/b2api/v2/b2_list_file_names`,
+        {
+          headers: this.getAuthHeaders(),
+          params: {
+            bucketId: this.bucketId,
+            prefix: key,
+            startFileName: key,
+            maxFileCount: 1
+          }
+        }
+      );
+
+      const file = response.data.files.find(file => file.fileName === key);
+      return file ? this.fromKey(file) : null;
+    } catch (error) {
+      logger.error('Failed to look up file', { fileName, error });
+      throw new B2Error(
+        error instanceof Error ? error.message : 'Failed to look up file'
+      );
+    }
+  }
+
+  /**
+   * Maps a file name of the snapshot layout to its name in the bucket
+   */
+  private toKey(fileName: string): string {
+    return `${this.rootPrefix}${fileName}`;
+  }
+
+  /**
+   * Strips the root prefix from a file listed or uploaded in the bucket
+   */
+  private fromKey<T extends { fileName: string }>(file: T): T {
+    return { ...file, fileName: file.fileName.slice(this.rootPrefix.length) };
+  }
+
   isAuthenticated(): boolean {
     return !!this.authToken && !!this.apiUrl && !!this.downloadUrl && !!this.bucketId;
   }
@@ -630,13 +1001,24 @@ export class B2Service {
     }
   }
 
+  /**
+   * Returns the download URL of a file, which names the bucket rather than
+   * its ID
+   */
+  private async getFileUrl(fileName: string): Promise<string> {
+    if (!this.bucketName) {
+      throw new B2Error('Not authenticated with B2');
+    }
+    return `${this.getDownloadUrl()}/file/${encodeURIComponent(this.bucketName)}/${encodeFileName(fileName)}`;
+  }
+
   /**
    * Downloads a file from B2
    */
   async downloadFile(fileName: string): Promise<Readable> {
     try {
-      const downloadToken = await this.getDownloadAuthorization(fileName);
-      const url = `${this.getDownloadUrl()}/file/${this.bucketId}/${fileName}?Authorization=${downloadToken}`;
+      const downloadToken = await this.getDownloadAuthorization(this.toKey(fileName));
+      const url = `${await this.getFileUrl(this.toKey(fileName))}?Authorization=${downloadToken}`;
       
       const response = await axios.get(url, {
         responseType: 'stream'
@@ -660,8 +1042,8 @@ export class B2Service {
    */
   async downloadFileRange(fileName: string, start: number, end: number): Promise<Buffer> {
     try {
-      const downloadToken = await this.getDownloadAuthorization(fileName);
-      const url = `${this.getDownloadUrl()}/file/${this.bucketId}/${fileName}?Authorization=${downloadToken}`;
+      const downloadToken = await this.getDownloadAuthorization(this.toKey(fileName));
+      const url = `${await this.getFileUrl(this.toKey(fileName))}?Authorization=${downloadToken}`;
       
       const response = await axios.get(url, {
         headers: {
@@ -683,4 +1065,20 @@ export class B2Service {
       );
     }
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * B2 wants file names percent-encoded in headers and download URLs, '/' is
+ * kept as the folder separator
+ */
+function encodeFileName(fileName: string): string {
+  return fileName.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Turns "prod", "/prod/" or "prod/" into "prod/", and "" or "/" into ""
+ */
+function normalizePrefix(prefix: string): string {
+  const trimmed = prefix.replace(/^\/+|\/+$/g, '');
+  return trimmed ? `${trimmed}/` : '';
+}
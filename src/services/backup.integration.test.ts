@@ -0,0 +1,229 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import * as BSON from 'bson';
+import { B2Emulator } from '../test/b2.emulator';
+import { B2Service, B2Error } from './b2.service';
+import { BackupService } from './backup.service';
+import { MongoService } from './mongo.service';
+import { SnapshotService } from './snapshot.service';
+import { VerifyService } from './verify.service';
+import { RestoreService } from './restore.service';
+import { BackupOptions } from '../types/backup.types';
+
+jest.mock('./mongo.service');
+jest.mock('../utils/logger.util', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn()
+}));
+
+/**
+ * Runs BackupService against an emulated B2 API, so protocol bugs in
+ * B2Service surface without mocking axios
+ */
+describe('BackupService with the B2 emulator', () => {
+  const snapshotId = '2024-03-14T12-00-00-000Z';
+  const users = Array.from({ length: 50 }, (_, index) => ({ _id: index, name: `user ${index}`, bio: 'x'.repeat(100) }));
+  const orders = [{ _id: 1, total: 42 }];
+
+  let tempDir: string;
+  let emulator: B2Emulator;
+  let mongoService: jest.Mocked<MongoService>;
+  let b2Service: B2Service;
+  let restored: Record<string, unknown[]>;
+
+  const writeDump = () => {
+    const dumpPath = path.join(tempDir, 'backup', snapshotId);
+    mkdirSync(path.join(dumpPath, 'app'), { recursive: true });
+    writeFileSync(path.join(dumpPath, 'app', 'users (old).bson'), Buffer.concat(users.map(document => BSON.serialize(document))));
+    writeFileSync(path.join(dumpPath, 'app', 'orders.bson'), Buffer.concat(orders.map(document => BSON.serialize(document))));
+    return dumpPath;
+  };
+
+  const runBackup = (options: BackupOptions = {}) => {
+    mongoService.createDump.mockResolvedValue(writeDump());
+    return new BackupService(mongoService, b2Service, path.join(tempDir, 'backup'), options).performIncrementalBackup();
+  };
+
+  const verifyAndRestore = async () => {
+    const snapshotService = new SnapshotService(b2Service);
+    const report = await new VerifyService(b2Service, snapshotService).verifySnapshot(snapshotId);
+    await new RestoreService(mongoService, b2Service, snapshotService).restore({ snapshotId });
+    return report;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tempDir = mkdtempSync(path.join(tmpdir(), 'backup-integration-test-'));
+    emulator = new B2Emulator({ minimumPartSize: 1024 });
+    const authUrl = await emulator.start();
+    // Parts of 1KB and no backoff delay, so large files and retries stay cheap
+    b2Service = new B2Service('emulator-key-id', 'emulator-key', 'emulator-bucket-id', 3, 1, 1024, 2, authUrl);
+    await b2Service.authenticate();
+
+    mongoService = new MongoService('mongo', 'mongodb://localhost:27017', '/backup') as jest.Mocked<MongoService>;
+    mongoService.getDumpVersion.mockResolvedValue('100.9.4');
+    mongoService.getMaskedUri.mockReturnValue('mongodb://localhost:27017');
+    mongoService.getReportedDocumentCounts.mockReturnValue({ 'app.users (old)': users.length, 'app.orders': orders.length });
+    restored = {};
+    mongoService.restoreCollection.mockImplementation(async (database, collection, source) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of source) {
+        chunks.push(chunk);
+      }
+      const bson = Buffer.concat(chunks);
+      const documents: unknown[] = [];
+      for (let offset = 0; offset < bson.length; offset += bson.readInt32LE(offset)) {
+        documents.push(BSON.deserialize(bson.subarray(offset, offset + bson.readInt32LE(offset))));
+      }
+      restored[`${database}.${collection}`] = documents;
+      return documents.length;
+    });
+  });
+
+  afterEach(async () => {
+    await emulator.stop();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should upload a snapshot that verifies and restores', async () => {
+    const manifest = await runBackup({ compression: 'gzip' });
+
+    const fileNames = [...emulator.files.keys()];
+    expect(fileNames).toContain(`snapshots/${snapshotId}/app/users (old)/users (old).jsonl.gz.part1`);
+    expect(fileNames[fileNames.length - 1]).toBe(`snapshots/${snapshotId}/manifest.json`);
+    expect(manifest.collections.map(entry => entry.documentCount)).toEqual([orders.length, users.length]);
+
+    const report = await verifyAndRestore();
+    expect(report.problems).toEqual([]);
+    expect(restored).toEqual({ 'app.users (old)': users, 'app.orders': orders });
+
+    const manifestFile = emulator.files.get(`snapshots/${snapshotId}/manifest.json`)!;
+    await expect(b2Service.downloadFileRange(`snapshots/${snapshotId}/manifest.json`, 0, 9))
+      .resolves.toEqual(manifestFile.data.subarray(0, 10));
+  });
+
+  test('should upload parts above the part size as large files', async () => {
+    await runBackup({ compression: 'none', chunkSize: 4096 });
+
+    const largeFiles = [...emulator.files.values()].filter(file => file.contentSha1 === 'none');
+    expect(largeFiles.length).toBeGreaterThan(0);
+    expect(largeFiles[0].fileInfo.large_file_sha1).toMatch(/^[0-9a-f]{40}$/);
+    expect(emulator.unfinished.size).toBe(0);
+
+    const report = await verifyAndRestore();
+    expect(report.problems).toEqual([]);
+    expect(restored['app.users (old)']).toEqual(users);
+  });
+
+  test('should retry through expired tokens, throttling and unavailable servers', async () => {
+    emulator.injectFault('b2_upload_file', 401, 503);
+    emulator.injectFault('b2_get_upload_url', 429);
+    emulator.injectFault('b2_upload_part', 503, 503);
+
+    await runBackup({ compression: 'none', chunkSize: 4096 });
+
+    expect(emulator.requests.filter(endpoint => endpoint === 'b2_authorize_account').length).toBeGreaterThan(1);
+    const report = await verifyAndRestore();
+    expect(report.problems).toEqual([]);
+    expect(restored).toEqual({ 'app.users (old)': users, 'app.orders': orders });
+  });
+
+  test.each(['prod/', 'prod'])('should keep every file below the name prefix %p of a scoped key', async namePrefix => {
+    await emulator.stop();
+    emulator = new B2Emulator({ minimumPartSize: 1024, namePrefix });
+    b2Service = new B2Service('emulator-key-id', 'emulator-key', 'emulator-bucket', 0, 1, 1024, 2, await emulator.start());
+    await b2Service.authenticate();
+
+    await runBackup({ compression: 'none', chunkSize: 4096 });
+
+    expect([...emulator.files.keys()].every(fileName => fileName.startsWith(`prod/snapshots/${snapshotId}/`))).toBe(true);
+    await expect(new SnapshotService(b2Service).getLatestSnapshotId()).resolves.toBe(snapshotId);
+    const report = await verifyAndRestore();
+    expect(report.problems).toEqual([]);
+    expect(restored).toEqual({ 'app.users (old)': users, 'app.orders': orders });
+  });
+});
+
+describe('B2Service authentication with the B2 emulator', () => {
+  let emulator: B2Emulator;
+
+  const authenticate = async (bucket: string, capabilities?: string[], prefix?: string) => {
+    const b2Service = new B2Service('emulator-key-id', 'emulator-key', bucket, 0, 1, 1024, 1, await emulator.start(), capabilities, prefix);
+    await b2Service.authenticate();
+    return b2Service;
+  };
+
+  afterEach(async () => {
+    await emulator.stop();
+  });
+
+  test('should resolve the bucket by name or ID', async () => {
+    emulator = new B2Emulator();
+    const b2Service = await authenticate('emulator-bucket');
+
+    const tempDir = mkdtempSync(path.join(tmpdir(), 'backup-integration-test-'));
+    try {
+      writeFileSync(path.join(tempDir, 'manifest.json'), '{}');
+      await b2Service.uploadFile(path.join(tempDir, 'manifest.json'), 'snapshots/1/manifest.json');
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+    await expect(b2Service.downloadFileRange('snapshots/1/manifest.json', 0, 1)).resolves.toEqual(Buffer.from('{}'));
+    expect([...emulator.files.values()][0].fileName).toBe('snapshots/1/manifest.json');
+
+    await emulator.stop();
+    await expect(authenticate('emulator-bucket-id')).resolves.toBeInstanceOf(B2Service);
+    await emulator.stop();
+    await expect(authenticate('missing-bucket')).rejects.toThrow(new B2Error('Bucket missing-bucket not found'));
+  });
+
+  test('should take the bucket of a restricted key without listing buckets', async () => {
+    emulator = new B2Emulator({ restrictedToBucket: true, capabilities: ['listFiles', 'readFiles', 'writeFiles'] });
+
+    await expect(authenticate('emulator-bucket')).resolves.toBeInstanceOf(B2Service);
+    expect(emulator.requests).not.toContain('b2_list_buckets');
+    await emulator.stop();
+    await expect(authenticate('other-bucket')).rejects.toThrow(
+      new B2Error('The application key is restricted to bucket emulator-bucket, not other-bucket')
+    );
+  });
+
+  test('should fail on keys that lack a needed capability', async () => {
+    emulator = new B2Emulator({ capabilities: ['listBuckets', 'listFiles', 'readFiles', 'writeFiles'] });
+
+    await expect(authenticate('emulator-bucket', ['listFiles', 'readFiles', 'writeFiles', 'deleteFiles'])).rejects.toThrow(
+      new B2Error('The application key lacks the deleteFiles capability, create a key with listFiles, readFiles, writeFiles, deleteFiles')
+    );
+  });
+
+  test('should store files below the configured prefix', async () => {
+    emulator = new B2Emulator();
+    const b2Service = await authenticate('emulator-bucket', undefined, '/staging/');
+
+    const tempDir = mkdtempSync(path.join(tmpdir(), 'backup-integration-test-'));
+    try {
+      writeFileSync(path.join(tempDir, 'manifest.json'), '{}');
+      await expect(b2Service.uploadFile(path.join(tempDir, 'manifest.json'), 'snapshots/1/manifest.json'))
+        .resolves.toEqual(expect.objectContaining({ fileName: 'snapshots/1/manifest.json' }));
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+
+    expect([...emulator.files.keys()]).toEqual(['staging/snapshots/1/manifest.json']);
+    const [file] = await b2Service.listExistingFiles('snapshots/1/');
+    expect(file.fileName).toBe('snapshots/1/manifest.json');
+    await b2Service.deleteFile(file.fileName, file.fileId);
+    expect(emulator.files.size).toBe(0);
+  });
+
+  test('should fail when the configured prefix is outside the key\'s name prefix', async () => {
+    emulator = new B2Emulator({ namePrefix: 'prod/' });
+
+    await expect(authenticate('emulator-bucket', undefined, 'staging')).rejects.toThrow(new B2Error(
+      'The application key is restricted to file names starting with "prod/", ' +
+      'but backups are stored under staging/snapshots/ and staging/changes/'
+    ));
+  });
+});
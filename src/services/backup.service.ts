@@ -1,12 +1,39 @@
 import { MongoService } from './mongo.service';
-import { B2Service } from './b2.service';
 import { calculateChecksum } from '../utils/file.util';
-import { convertBsonToJsonlChunks } from '../utils/bson.util';
+import {
+  convertBsonStreamToJsonlChunks,
+  convertBsonToJsonlChunks,
+  ExtendedJsonMode,
+  JsonlChunk
+} from '../utils/bson.util';
+import { ArchiveDemuxer } from '../utils/archive.util';
+import { CompressionCodec } from '../utils/compression.util';
+import { ENCRYPTION_ALGORITHM } from '../utils/crypto.util';
+import { isEmptyFilter, matchesNamespace } from '../utils/filter.util';
+import {
+  createSnapshotId,
+  getCollectionPrefix,
+  getManifestFileName,
+  getOplogPartFileName,
+  getPartFileName,
+  getSnapshotPrefix,
+  MANIFEST_FILE_NAME,
+  MANIFEST_VERSION
+} from '../utils/snapshot.util';
 import logger from '../utils/logger.util';
-import { stat, unlink } from 'fs/promises';
+import { BackupOptions, DumpOptions, DumpUpload, LocalFile } from '../types/backup.types';
+import { ArchiveCollection } from '../types/archive.types';
+import { ManifestCollection, ManifestOplog, ManifestPart, SnapshotManifest } from '../types/manifest.types';
+import { StorageBackend } from '../types/storage.types';
+import { stat, unlink, writeFile } from 'fs/promises';
 import { readdir, rm } from 'fs/promises';
 import path from 'path';
 import { mkdir } from 'fs/promises';
+import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+
+// Where mongodump --oplog writes the oplog, next to the database directories
+const OPLOG_DUMP_FILE = 'oplog.bson';
 
 export class BackupError extends Error {
   constructor(message: string, public code?: number) {
@@ -15,59 +42,41 @@ export class BackupError extends Error {
   }
 }
 
-interface LocalFile {
-  name: string;
-  path: string;
-  size: number;
-  checksum: string;
-  lastModified: Date;
-}
-
-interface RemoteFile {
-  fileName: string;
-  contentLength: number;
-  contentSha1: string;
-  uploadTimestamp: number;
-}
-
 export class BackupService {
   constructor(
     private readonly mongoService: MongoService,
-    private readonly b2Service: B2Service,
-    private readonly dumpPath: string
+    private readonly storage: StorageBackend,
+    private readonly dumpPath: string,
+    private readonly options: BackupOptions = {}
   ) {}
 
-  async getNewFiles(): Promise<LocalFile[]> {
+  /**
+   * Returns the dumped collections that have not been uploaded to the given
+   * snapshot yet, so a retried run only uploads what is missing.
+   */
+  async getNewFiles(snapshotId: string, dumpDir: string): Promise<LocalFile[]> {
     try {
       // Get list of local dump files
-      const localFiles = await this.getLocalFiles();
+      const localFiles = await this.getLocalFiles(dumpDir);
       
-      // Get list of remote files from B2 - single call
-      const remoteFiles = await this.b2Service.listExistingFiles();
+      // Get everything already uploaded to this snapshot - single call
+      const remoteFiles = await this.storage.listExistingFiles(getSnapshotPrefix(snapshotId), true);
 
-      // Create a Set of folder names from remote files for O(1) lookup
+      // Create a Set of collection folders from remote files for O(1) lookup
       const remoteFolders = new Set<string>();
       remoteFiles.forEach(remote => {
-        const parts = remote.fileName.split('/');
-        if (parts.length > 1) {
-          remoteFolders.add(parts[0]);
-        }
+        remoteFolders.add(remote.fileName.slice(0, remote.fileName.lastIndexOf('/') + 1));
       });
 
-      // Find files that don't exist in B2 and don't have a folder with the same name
-      const newFiles = localFiles.filter(localFile => {
-        const baseName = path.basename(localFile.name, '.bson');
-        const remoteFile = remoteFiles.find(
-          remote => remote.fileName === localFile.name
-        );
-        const hasFolder = remoteFolders.has(baseName);
-        return !remoteFile && !hasFolder; // File doesn't exist in B2 and no folder with same name
-      });
+      // Find collections that don't have a folder in this snapshot
+      const newFiles = localFiles.filter(localFile => !remoteFolders.has(
+        getCollectionPrefix(snapshotId, localFile.database, localFile.collection)
+      ));
 
       logger.info('Found new files to backup', {
+        snapshotId,
         totalFiles: localFiles.length,
-        newFiles: newFiles.length,
-        remoteFolders: Array.from(remoteFolders)
+        newFiles: newFiles.length
       });
 
       return newFiles;
@@ -79,57 +88,44 @@ export class BackupService {
     }
   }
 
-  async performIncrementalBackup(): Promise<void> {
+  /**
+   * Dumps every database, or the namespaces the filter selects, and uploads
+   * them as a new point-in-time snapshot under snapshots/<timestamp>/,
+   * reusing the dump's timestamp as the ID.
+   * The manifest is uploaded last and marks the snapshot as complete, so an
+   * aborted run leaves an incomplete snapshot that retention cleans up.
+   * @returns the uploaded snapshot manifest
+   */
+  async performIncrementalBackup(signal?: AbortSignal): Promise<SnapshotManifest> {
     try {
-      // Create new MongoDB dump
-      const dumpPath = await this.mongoService.createDump();
-      logger.info('Created new MongoDB dump', { dumpPath });
-
-      // Get list of files to backup
-      const newFiles = await this.getNewFiles();
+      const startedAt = new Date();
 
-      // Create a temporary directory for JSONL chunks
+      // JSONL chunks are written here before upload
       const tempDir = path.join(this.dumpPath, 'temp_jsonl');
-      await mkdir(tempDir, { recursive: true });
+      const dump = this.options.streaming
+        ? await this.uploadStreamedDump(startedAt, tempDir, signal)
+        : await this.uploadStagedDump(tempDir, signal);
+      const { snapshotId } = dump;
+      const collections = this.withReportedCounts(dump.collections);
 
-      // Upload each new file to B2
-      for (const file of newFiles) {
-        try {
-          if (file.name.endsWith('.bson')) {
-            // Convert BSON to JSONL chunks
-            const chunkPaths = await convertBsonToJsonlChunks({
-              inputPath: file.path,
-              outputDir: tempDir,
-              chunkSize: 10 * 1024 * 1024 // 10MB chunks
-            });
-
-            // Upload each chunk
-            for (const chunkPath of chunkPaths) {
-              const chunkName = path.basename(chunkPath);
-              const baseName = path.basename(file.name, '.bson');
-              const partNumber = chunkName.split('.').pop()?.replace('part', '');
-              const remotePath = path.join(baseName, `${baseName}.jsonl.part${partNumber}`);
-              await this.b2Service.uploadFile(chunkPath, remotePath);
-              logger.info('Successfully uploaded JSONL chunk to B2', {
-                chunkName,
-                remotePath
-              });
-            }
-          } else {
-            // Skip metadata files
-            logger.info('Skipping metadata file', { fileName: file.name });
-          }
-        } catch (error) {
-          logger.error('Failed to process file', {
-            fileName: file.name,
-            error
-          });
-          throw error;
-        }
-      }
+      const manifest: SnapshotManifest = {
+        version: MANIFEST_VERSION,
+        snapshotId,
+        startedAt: startedAt.toISOString(),
+        completedAt: new Date().toISOString(),
+        mongodumpVersion: await this.mongoService.getDumpVersion(),
+        sourceUri: this.mongoService.getMaskedUri(),
+        extendedJsonMode: this.getExtendedJsonMode(),
+        ...(isEmptyFilter(this.options.filter) ? {} : { filter: this.options.filter }),
+        collections,
+        ...(dump.oplog && { oplog: dump.oplog })
+      };
+      signal?.throwIfAborted();
+      await this.uploadManifest(manifest, tempDir);
 
       logger.info('Completed incremental backup', {
-        filesProcessed: newFiles.length
+        snapshotId,
+        filesProcessed: collections.length
       });
 
       // Clean up the entire backups directory
@@ -151,6 +147,8 @@ export class BackupService {
         });
         // Don't throw here, as the backup was successful
       }
+
+      return manifest;
     } catch (error) {
       logger.error('Failed to perform incremental backup', { error });
       throw new BackupError(
@@ -159,10 +157,286 @@ export class BackupService {
     }
   }
 
-  private async getLocalFiles(): Promise<LocalFile[]> {
+  /**
+   * Records the document counts mongodump reported next to the counts read
+   * from the JSONL parts, so verification can compare the two later
+   */
+  private withReportedCounts(collections: ManifestCollection[]): ManifestCollection[] {
+    const reported = this.mongoService.getReportedDocumentCounts();
+    return collections.map(entry => {
+      const reportedDocumentCount = reported[`${entry.database}.${entry.collection}`];
+      if (reportedDocumentCount === undefined) {
+        return entry;
+      }
+      if (reportedDocumentCount !== entry.documentCount) {
+        logger.warn('Uploaded document count differs from mongodump', {
+          database: entry.database,
+          collection: entry.collection,
+          uploaded: entry.documentCount,
+          reported: reportedDocumentCount
+        });
+      }
+      return { ...entry, reportedDocumentCount };
+    });
+  }
+
+  /**
+   * Runs mongodump into the backup path and uploads the collections that are
+   * not in the snapshot yet, converting each one to JSONL parts on disk first
+   */
+  private async uploadStagedDump(tempDir: string, signal?: AbortSignal): Promise<DumpUpload> {
+    // Create new MongoDB dump
+    const dumpPath = await this.mongoService.createDump(signal, this.getDumpOptions());
+    const snapshotId = path.basename(dumpPath);
+    logger.info('Created new MongoDB dump', { dumpPath, snapshotId });
+
+    // Get list of files to backup
+    const newFiles = await this.getNewFiles(snapshotId, dumpPath);
+    await mkdir(tempDir, { recursive: true });
+
+    // Upload each new file to B2
+    const collections: ManifestCollection[] = [];
+    for (const file of newFiles) {
+      try {
+        signal?.throwIfAborted();
+
+        // Convert BSON to JSONL chunks
+        const chunks = await convertBsonToJsonlChunks({
+          inputPath: file.path,
+          outputDir: path.join(tempDir, file.database),
+          chunkSize: this.getChunkSize(),
+          mode: this.getExtendedJsonMode(),
+          compression: this.getCompression(),
+          encryption: this.options.encryption
+        });
+
+        // Upload the chunks side by side, the manifest keeps them in part order
+        const parts = await this.storage.uploadFiles(chunks, (chunk, index) => {
+          signal?.throwIfAborted();
+          return this.uploadChunk(
+            getPartFileName(snapshotId, file.database, file.collection, index + 1, this.getCompression()),
+            chunk
+          );
+        });
+
+        collections.push(toManifestCollection(file.database, file.collection, parts));
+      } catch (error) {
+        logger.error('Failed to process file', {
+          fileName: file.name,
+          error
+        });
+        throw error;
+      }
+    }
+
+    if (!this.options.oplog) {
+      return { snapshotId, collections };
+    }
+
+    signal?.throwIfAborted();
+    const oplogChunks = await convertBsonToJsonlChunks({
+      inputPath: path.join(dumpPath, OPLOG_DUMP_FILE),
+      outputDir: tempDir,
+      chunkSize: this.getChunkSize(),
+      mode: this.getExtendedJsonMode(),
+      compression: this.getCompression(),
+      encryption: this.options.encryption
+    });
+    const oplogParts = await this.storage.uploadFiles(oplogChunks, (chunk, index) => {
+      signal?.throwIfAborted();
+      return this.uploadChunk(getOplogPartFileName(snapshotId, index + 1, this.getCompression()), chunk);
+    });
+
+    return { snapshotId, collections, oplog: toManifestOplog(oplogParts) };
+  }
+
+  /**
+   * Streams mongodump --archive straight into the JSONL conversion. Each part
+   * is uploaded and deleted before the next one is written, so disk usage
+   * stays at about one part per collection being dumped.
+   */
+  private async uploadStreamedDump(startedAt: Date, tempDir: string, signal?: AbortSignal): Promise<DumpUpload> {
+    const snapshotId = createSnapshotId(startedAt);
+    await mkdir(tempDir, { recursive: true });
+
+    const dump = this.mongoService.streamDump(signal, this.getDumpOptions());
+    const demuxer = new ArchiveDemuxer();
+    const uploads: Promise<ManifestCollection>[] = [];
+    let oplogUpload: Promise<ManifestPart[]> | undefined;
+    demuxer.on('collection', (entry: ArchiveCollection) => {
+      // mongodump --oplog adds the oplog as the last namespace, with an empty database name
+      if (this.options.oplog && entry.database === '' && entry.collection === 'oplog') {
+        oplogUpload = this.uploadDocumentStream(
+          entry.documents,
+          tempDir,
+          'oplog',
+          partNumber => getOplogPartFileName(snapshotId, partNumber, this.getCompression()),
+          signal
+        );
+        oplogUpload.catch((error) => demuxer.destroy(error));
+        return;
+      }
+      if (!matchesNamespace(this.options.filter, entry.database, entry.collection)) {
+        logger.info('Skipping collection excluded by filter', { database: entry.database, collection: entry.collection });
+        entry.documents.resume();
+        return;
+      }
+      const upload = this.uploadCollectionStream(snapshotId, entry, tempDir, signal);
+      // A failed upload stops the dump instead of leaving the demuxer waiting on it
+      upload.catch((error) => demuxer.destroy(error));
+      uploads.push(upload);
+    });
+    logger.info('Streaming MongoDB dump', { snapshotId });
+
+    try {
+      await pipeline(dump.archive, demuxer);
+      await dump.completed;
+    } catch (error) {
+      dump.completed.catch(() => undefined);
+      throw error;
+    }
+
+    const collections = await Promise.all(uploads);
+    if (this.options.oplog && !oplogUpload) {
+      throw new BackupError('mongodump --oplog did not write an oplog to the archive');
+    }
+    return {
+      snapshotId,
+      collections,
+      ...(oplogUpload && { oplog: toManifestOplog(await oplogUpload) })
+    };
+  }
+
+  private async uploadCollectionStream(
+    snapshotId: string,
+    entry: ArchiveCollection,
+    tempDir: string,
+    signal?: AbortSignal
+  ): Promise<ManifestCollection> {
+    try {
+      const parts = await this.uploadDocumentStream(
+        entry.documents,
+        path.join(tempDir, entry.database),
+        entry.collection,
+        partNumber => getPartFileName(snapshotId, entry.database, entry.collection, partNumber, this.getCompression()),
+        signal
+      );
+      return toManifestCollection(entry.database, entry.collection, parts);
+    } catch (error) {
+      logger.error('Failed to process collection', {
+        database: entry.database,
+        collection: entry.collection,
+        error
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Converts a BSON document stream to JSONL parts, uploading and deleting
+   * each part as soon as it is written
+   */
+  private async uploadDocumentStream(
+    documents: Readable,
+    outputDir: string,
+    baseName: string,
+    getRemotePath: (partNumber: number) => string,
+    signal?: AbortSignal
+  ): Promise<ManifestPart[]> {
+    const parts: ManifestPart[] = [];
+    await convertBsonStreamToJsonlChunks(documents, {
+      outputDir,
+      baseName,
+      chunkSize: this.getChunkSize(),
+      mode: this.getExtendedJsonMode(),
+      compression: this.getCompression(),
+      encryption: this.options.encryption,
+      onChunk: async (chunk) => {
+        signal?.throwIfAborted();
+        parts.push(await this.uploadChunk(getRemotePath(parts.length + 1), chunk));
+        try {
+          await unlink(chunk.path);
+        } catch (error) {
+          logger.warn('Failed to remove uploaded part', { chunkPath: chunk.path, error });
+        }
+      }
+    });
+    return parts;
+  }
+
+  private async uploadChunk(remotePath: string, chunk: JsonlChunk): Promise<ManifestPart> {
+    const uploaded = await this.uploadPart(chunk.path, remotePath);
+    logger.info('Successfully uploaded JSONL chunk', {
+      chunkName: path.basename(chunk.path),
+      remotePath
+    });
+
+    return {
+      fileName: remotePath,
+      size: uploaded.contentLength,
+      sha1: uploaded.contentSha1,
+      documentCount: chunk.documentCount,
+      ...(this.getCompression() !== 'none' && { compression: this.getCompression() }),
+      ...(this.options.encryption && { encryptionKeyId: this.options.encryption.keyId })
+    };
+  }
+
+  /**
+   * Uploads a part, which the conversion already encrypted when a key is
+   * configured. The key ID is stored in the object metadata as well as in
+   * the manifest.
+   */
+  private async uploadPart(chunkPath: string, remotePath: string) {
+    const encryption = this.options.encryption;
+    if (!encryption) {
+      return this.storage.uploadFile(chunkPath, remotePath);
+    }
+
+    return this.storage.uploadFile(chunkPath, remotePath, {
+      fileInfo: {
+        'encryption-algorithm': ENCRYPTION_ALGORITHM,
+        'encryption-key-id': encryption.keyId
+      }
+    });
+  }
+
+  private getExtendedJsonMode(): ExtendedJsonMode {
+    return this.options.extendedJsonMode || 'canonical';
+  }
+
+  private getChunkSize(): number {
+    return this.options.chunkSize || 10 * 1024 * 1024; // 10MB chunks by default
+  }
+
+  private getCompression(): CompressionCodec {
+    return this.options.compression || 'none';
+  }
+
+  private getDumpOptions(): DumpOptions {
+    return { filter: this.options.filter, oplog: this.options.oplog };
+  }
+
+  private async uploadManifest(manifest: SnapshotManifest, tempDir: string): Promise<void> {
+    const manifestPath = path.join(tempDir, MANIFEST_FILE_NAME);
+    await writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+
+    const remotePath = getManifestFileName(manifest.snapshotId);
+    await this.storage.uploadFile(manifestPath, remotePath);
+    logger.info('Uploaded snapshot manifest', {
+      remotePath,
+      collections: manifest.collections.length
+    });
+  }
+
+  /**
+   * Scans a mongodump output directory laid out as <database>/<collection>.bson,
+   * leaving out collections the filter excludes
+   */
+  private async getLocalFiles(dumpDir: string): Promise<LocalFile[]> {
     try {
       const localFiles: LocalFile[] = [];
       const processedPaths = new Set<string>();
+      const filter = this.options.filter;
       
       async function scanDirectory(dirPath: string) {
         const entries = await readdir(dirPath, { withFileTypes: true });
@@ -176,11 +450,18 @@ export class BackupService {
           
           if (entry.isDirectory()) {
             await scanDirectory(fullPath);
-          } else if (entry.isFile() && entry.name.endsWith('.bson')) {
+          } else if (entry.isFile() && entry.name.endsWith('.bson') && dirPath !== dumpDir) {
+            // Files at the top level, like oplog.bson, belong to no database
+            const database = path.basename(dirPath);
+            const collection = path.basename(entry.name, '.bson');
+            if (!matchesNamespace(filter, database, collection)) continue;
+
             const stats = await stat(fullPath);
             localFiles.push({
               name: entry.name,
               path: fullPath,
+              database,
+              collection,
               size: stats.size,
               checksum: '', // Skip checksum calculation
               lastModified: stats.mtime
@@ -189,7 +470,7 @@ export class BackupService {
         }
       }
 
-      await scanDirectory(this.dumpPath);
+      await scanDirectory(dumpDir);
       
       // Log unique files only
       const uniqueFiles = Array.from(new Set(localFiles.map(f => f.name)));
@@ -206,4 +487,20 @@ export class BackupService {
       );
     }
   }
-} 
\ No newline at end of file
+}
+
+function toManifestCollection(database: string, collection: string, parts: ManifestPart[]): ManifestCollection {
+  return {
+    database,
+    collection,
+    documentCount: parts.reduce((sum, part) => sum + part.documentCount, 0),
+    parts
+  };
+}
+
+function toManifestOplog(parts: ManifestPart[]): ManifestOplog {
+  return {
+    documentCount: parts.reduce((sum, part) => sum + part.documentCount, 0),
+    parts
+  };
+}
@@ -3,8 +3,8 @@ import { createReadStream, createWriteStream } from 'node:fs';
 import { Transform } from 'stream';
 import * as BSON from 'bson';
 import path from 'path';
-import { B2Service } from './b2.service';
 import logger from '../utils/logger.util';
+import { StorageBackend } from '../types/storage.types';
 
 const CHUNK_SIZE = 10 * 1024 * 1024; // 10MB in bytes
 
@@ -42,8 +42,8 @@ class BsonToJsonlTransform extends Transform {
 
         try {
           const docBuffer = this.buffer.slice(this.position, this.position + size);
-          const doc = BSON.deserialize(docBuffer);
-          this.push(JSON.stringify(doc) + '\n');
+          const doc = BSON.deserialize(docBuffer, { promoteValues: false, bsonRegExp: true });
+          this.push(BSON.EJSON.stringify(doc, { relaxed: false }) + '\n');
           this.position += size;
         } catch (error) {
           callback(new Error(`Failed to parse BSON document at position ${this.position}: ${error}`));
@@ -134,7 +134,7 @@ class ChunkingTransform extends Transform {
 }
 
 export class BsonConverterService {
-  constructor(private readonly b2Service: B2Service) {}
+  constructor(private readonly storage: StorageBackend) {}
 
   async convertBsonToJsonl({ 
     inputPath, 
@@ -179,7 +179,7 @@ export class BsonConverterService {
       // Upload each part to B2
       for (const file of outputFiles) {
         const relativePath = path.join(baseName, path.basename(file));
-        await this.b2Service.uploadFile(file, relativePath);
+        await this.storage.uploadFile(file, relativePath);
       }
 
       logger.info(`Successfully processed ${bsonFilePath}`, {
@@ -193,7 +193,7 @@ export class BsonConverterService {
   }
 
   async getUnprocessedBsonFiles(bsonFiles: string[]): Promise<string[]> {
-    const existingFiles = await this.b2Service.listExistingFiles();
+    const existingFiles = await this.storage.listExistingFiles();
     const processedFolders = new Set(
       existingFiles
         .map(file => file.fileName.split('/')[0])
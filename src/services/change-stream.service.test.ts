@@ -0,0 +1,188 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { gunzipSync } from 'zlib';
+import { ChangeStreamService, ChangeStreamError } from './change-stream.service';
+import { MongoService } from './mongo.service';
+import { B2Service } from './b2.service';
+import { ChangeSegment, ChangeStreamOptions } from '../types/changes.types';
+import logger from '../utils/logger.util';
+
+jest.mock('./mongo.service');
+jest.mock('./b2.service');
+jest.mock('../utils/logger.util', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn()
+}));
+
+describe('ChangeStreamService', () => {
+  let tempDir: string;
+  let options: ChangeStreamOptions;
+  let mockMongoService: jest.Mocked<MongoService>;
+  let mockB2Service: jest.Mocked<B2Service>;
+  let events: PassThrough;
+  let uploads: Map<string, Buffer>;
+  let service: ChangeStreamService;
+
+  const event = (token: string, second: number, coll = 'users') => JSON.stringify({
+    _id: { _data: token },
+    operationType: 'insert',
+    clusterTime: { $timestamp: { t: second, i: 1 } },
+    ns: { db: 'app', coll },
+    documentKey: { _id: token },
+    fullDocument: { _id: token }
+  });
+
+  const segments = (): ChangeSegment[] => [...uploads.entries()]
+    .filter(([fileName]) => fileName.endsWith('/segment.json'))
+    .map(([, body]) => JSON.parse(body.toString()));
+
+  const readState = () => JSON.parse(readFileSync(options.stateFile, 'utf8'));
+
+  const waitUntil = async (condition: () => boolean) => {
+    for (let attempt = 0; attempt < 1000 && !condition(); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 1));
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = mkdtempSync(path.join(tmpdir(), 'change-stream-test-'));
+    options = {
+      path: path.join(tempDir, 'changes'),
+      segmentDuration: 60 * 60 * 1000,
+      maxSegmentSize: 1,
+      stateFile: path.join(tempDir, 'state', 'changes.json')
+    };
+
+    mockMongoService = new MongoService('test-container', 'mongodb://test', '/backup') as jest.Mocked<MongoService>;
+    mockMongoService.watchChanges.mockImplementation((resumeToken, signal) => {
+      events = new PassThrough();
+      const completed = new Promise<void>((resolve, reject) => {
+        signal?.addEventListener('abort', () => {
+          events.end();
+          reject(new Error('aborted'));
+        });
+      });
+      return { events, completed };
+    });
+
+    uploads = new Map();
+    mockB2Service = new B2Service('test-key-id', 'test-key', 'test-bucket') as jest.Mocked<B2Service>;
+    mockB2Service.uploadFile.mockImplementation(async (filePath, fileName) => {
+      uploads.set(fileName, readFileSync(filePath));
+      return { fileName, fileId: `id-${fileName}`, contentSha1: 'hash', contentLength: 100, uploadTimestamp: 0 };
+    });
+
+    service = new ChangeStreamService(mockMongoService, mockB2Service, options);
+  });
+
+  afterEach(async () => {
+    await service.stop();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should cut full segments, upload them in a chain and checkpoint the last one', async () => {
+    service = new ChangeStreamService(mockMongoService, mockB2Service, { ...options, compression: 'gzip' });
+    await service.start();
+    expect(mockMongoService.watchChanges).toHaveBeenCalledWith(undefined, expect.any(AbortSignal));
+
+    events.write(`${event('a', 100)}\n${event('b', 101)}\n`);
+    await waitUntil(() => segments().length === 1);
+    await service.stop();
+
+    const [first, second] = segments();
+    expect(first).toEqual(expect.objectContaining({
+      previousResumeToken: null,
+      resumeToken: '{"_data":"a"}',
+      firstEventTime: 100,
+      lastEventTime: 100,
+      part: expect.objectContaining({
+        fileName: `changes/${first.segmentId}/events.jsonl.gz`,
+        documentCount: 1,
+        compression: 'gzip'
+      })
+    }));
+    expect(second).toEqual(expect.objectContaining({ previousResumeToken: '{"_data":"a"}', resumeToken: '{"_data":"b"}' }));
+    expect(second.startedAt).toBe(first.endedAt);
+    expect(gunzipSync(uploads.get(first.part.fileName)!).toString()).toBe(`${event('a', 100)}\n`);
+
+    // The events go up before the segment file that marks the segment complete
+    const uploaded = mockB2Service.uploadFile.mock.calls.map(call => call[1]);
+    expect(uploaded.indexOf(first.part.fileName)).toBeLessThan(uploaded.indexOf(`changes/${first.segmentId}/segment.json`));
+    expect(readState()).toEqual({ resumeToken: '{"_data":"b"}', lastSegmentId: second.segmentId, lastSegmentEndedAt: second.endedAt });
+  });
+
+  test('should resume after the checkpoint and leave out events the filter excludes', async () => {
+    mkdirSync(path.dirname(options.stateFile), { recursive: true });
+    writeFileSync(options.stateFile, JSON.stringify({
+      resumeToken: '{"_data":"a"}',
+      lastSegmentId: '2024-03-14T12-00-00-000Z',
+      lastSegmentEndedAt: '2024-03-14T12:05:00.000Z'
+    }));
+    service = new ChangeStreamService(mockMongoService, mockB2Service, {
+      ...options,
+      maxSegmentSize: 1024,
+      filter: { include: [], exclude: ['app.sessions'] }
+    });
+
+    await service.start();
+    events.write(`${event('b', 101)}\n${event('c', 102, 'sessions')}\n`);
+    await service.stop();
+
+    expect(mockMongoService.watchChanges).toHaveBeenCalledWith('{"_data":"a"}', expect.any(AbortSignal));
+    const [segment] = segments();
+    expect(segment).toEqual(expect.objectContaining({
+      startedAt: '2024-03-14T12:05:00.000Z',
+      previousResumeToken: '{"_data":"a"}',
+      resumeToken: '{"_data":"c"}',
+      part: expect.objectContaining({ documentCount: 1 })
+    }));
+    expect(uploads.get(segment.part.fileName)!.toString()).toBe(`${event('b', 101)}\n`);
+  });
+
+  test('should keep a segment whose upload failed and upload it before the next one', async () => {
+    const upload = mockB2Service.uploadFile.getMockImplementation()!;
+    mockB2Service.uploadFile.mockRejectedValueOnce(new Error('Failed to upload file'));
+    await service.start();
+
+    events.write(`${event('a', 100)}\n${event('b', 101)}\n`);
+    await waitUntil(() => mockB2Service.uploadFile.mock.calls.length === 1);
+    expect(segments()).toEqual([]);
+
+    mockB2Service.uploadFile.mockImplementation(upload);
+    events.write(`${event('c', 102)}\n`);
+    await waitUntil(() => segments().length === 2);
+    await service.stop();
+
+    expect(segments().map(segment => segment.resumeToken)).toEqual(['{"_data":"a"}', '{"_data":"b"}', '{"_data":"c"}']);
+    expect(readState().resumeToken).toBe('{"_data":"c"}');
+  });
+
+  test('should skip output that is not an event and join lines split across chunks', async () => {
+    service = new ChangeStreamService(mockMongoService, mockB2Service, { ...options, maxSegmentSize: 1024 });
+    await service.start();
+
+    const line = event('a', 100);
+    events.write(`Current Mongosh Log ID: 65f2e1c0a1b2c3d4e5f60718\n${line.slice(0, 20)}`);
+    events.write(`${line.slice(20)}\n`);
+    await waitUntil(() => (logger.warn as jest.Mock).mock.calls.length === 1);
+    await service.stop();
+
+    expect(logger.warn).toHaveBeenCalledWith('Skipping change stream output that is not an event', {
+      line: 'Current Mongosh Log ID: 65f2e1c0a1b2c3d4e5f60718'
+    });
+    expect(mockMongoService.watchChanges).toHaveBeenCalledTimes(1);
+    const [segment] = segments();
+    expect(segment.resumeToken).toBe('{"_data":"a"}');
+    expect(uploads.get(segment.part.fileName)!.toString()).toBe(`${line}\n`);
+  });
+
+  test('should refuse to start twice', async () => {
+    await service.start();
+
+    await expect(service.start()).rejects.toThrow(ChangeStreamError);
+  });
+});
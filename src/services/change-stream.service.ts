@@ -0,0 +1,410 @@
+import { createReadStream, createWriteStream, WriteStream } from 'fs';
+import { readFile, rename, rm, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { createInterface } from 'readline';
+import { finished, pipeline } from 'stream/promises';
+import { setTimeout as sleep } from 'timers/promises';
+import { MongoService } from './mongo.service';
+import logger from '../utils/logger.util';
+import { createCompressStream, getCodecExtension } from '../utils/compression.util';
+import { ENCRYPTION_ALGORITHM, encryptFile } from '../utils/crypto.util';
+import { ensureDirectoryExists } from '../utils/file.util';
+import { matchesNamespace } from '../utils/filter.util';
+import { waitForDrain } from '../utils/stream.util';
+import {
+  createSnapshotId,
+  getChangeEventsFileName,
+  getChangeSegmentFileName,
+  MANIFEST_VERSION
+} from '../utils/snapshot.util';
+import { ChangeSegment, ChangeStreamOptions, ChangeStreamState } from '../types/changes.types';
+import { StorageBackend } from '../types/storage.types';
+
+export class ChangeStreamError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'ChangeStreamError';
+  }
+}
+
+const EMPTY_STATE: ChangeStreamState = {
+  resumeToken: null,
+  lastSegmentId: null,
+  lastSegmentEndedAt: null
+};
+const RESTART_DELAY_MS = 5000;
+const UPLOAD_RETRY_DELAY_MS = 30 * 1000;
+// The server no longer has the oplog entry the resume token points to
+const HISTORY_LOST_PATTERN = /ChangeStreamHistoryLost|resume point may no longer be in the oplog/;
+
+/** The fields of a change event the tailer reads, the rest is stored as is */
+interface RawChangeEvent {
+  _id: unknown;
+  ns?: { db: string; coll?: string };
+  clusterTime: { $timestamp: { t: number; i: number } };
+}
+
+interface OpenSegment {
+  segmentId: string;
+  filePath: string;
+  stream: WriteStream;
+  startedAt: string;
+  previousResumeToken: string | null;
+  resumeToken: string | null;
+  /** Wall clock time at which the segment's time bucket ends */
+  bucketEndsAt: number;
+  events: number;
+  bytes: number;
+  firstEventTime: number | null;
+  lastEventTime: number | null;
+}
+
+type ClosedSegment = OpenSegment & { endedAt: string; resumeToken: string };
+
+export class ChangeStreamService {
+  private controller: AbortController | null = null;
+  private tailing: Promise<void> | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private segment: OpenSegment | null = null;
+  private pending: ClosedSegment[] = [];
+  private bucketTimer: NodeJS.Timeout | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  /** Last token read from the stream, where a restarted stream resumes */
+  private resumeToken: string | null = null;
+  /** Token of the last closed segment, the next segment chains to it */
+  private chainToken: string | null = null;
+  /** Time from which events are captured without gaps */
+  private coveredSince = new Date().toISOString();
+
+  constructor(
+    private readonly mongoService: MongoService,
+    private readonly storage: StorageBackend,
+    private readonly options: ChangeStreamOptions
+  ) {}
+
+  /**
+   * Resumes after the last uploaded segment, or starts a new chain of
+   * segments when there is none, and tails the change stream in the
+   * background. Events not uploaded before a crash are read again.
+   */
+  async start(): Promise<void> {
+    if (this.controller) {
+      throw new ChangeStreamError('Change stream tailer is already running');
+    }
+
+    const state = await this.readState();
+    this.resumeToken = state.resumeToken;
+    this.chainToken = state.resumeToken;
+    this.coveredSince = (state.resumeToken && state.lastSegmentEndedAt) || new Date().toISOString();
+
+    await rm(this.options.path, { recursive: true, force: true });
+    await ensureDirectoryExists(this.options.path);
+
+    this.controller = new AbortController();
+    this.tailing = this.tail(this.controller.signal);
+    logger.info('Started change stream tailer', {
+      resumeAfterSegment: state.resumeToken ? state.lastSegmentId : null,
+      segmentDuration: this.options.segmentDuration
+    });
+  }
+
+  /**
+   * Stops tailing and uploads the open segment. Segments that still fail to
+   * upload are read again from the stream on the next start.
+   */
+  async stop(): Promise<void> {
+    if (!this.controller) {
+      return;
+    }
+    this.controller.abort();
+    await this.tailing;
+    this.controller = null;
+    this.tailing = null;
+    this.clearTimer('retryTimer');
+
+    await this.enqueue(() => this.closeSegment());
+    if (this.pending.length) {
+      logger.warn('Stopped with change segments that were not uploaded', {
+        segments: this.pending.map(segment => segment.segmentId)
+      });
+      this.pending = [];
+    }
+    logger.info('Stopped change stream tailer');
+  }
+
+  /**
+   * Restarts mongosh whenever it exits until the tailer is stopped. When the
+   * resume token has fallen off the oplog the chain is broken and a new one
+   * is started, which restores detect as a gap.
+   */
+  private async tail(signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      try {
+        const { events, completed } = this.mongoService.watchChanges(this.resumeToken ?? undefined, signal);
+        const read = async () => {
+          for await (const line of createInterface({ input: events, crlfDelay: Infinity })) {
+            if (line) {
+              await this.enqueue(() => this.writeEvent(line));
+            }
+          }
+        };
+        // Events already printed are still written when mongosh fails
+        const [exited, reading] = await Promise.allSettled([completed, read()]);
+        for (const result of [exited, reading]) {
+          if (result.status === 'rejected') {
+            throw result.reason;
+          }
+        }
+        throw new ChangeStreamError('Change stream ended');
+      } catch (error) {
+        if (signal.aborted) {
+          break;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        if (HISTORY_LOST_PATTERN.test(message)) {
+          logger.error('Change stream history lost, starting a new chain of segments', { error });
+          await this.enqueue(async () => {
+            await this.closeSegment();
+            this.resumeToken = null;
+            this.chainToken = null;
+            this.coveredSince = new Date().toISOString();
+          });
+        } else {
+          logger.error('Change stream failed, restarting', { error });
+        }
+        await sleep(RESTART_DELAY_MS, undefined, { signal }).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Appends an event to the open segment, cutting it first when its time
+   * bucket has ended or it is full. Events the filter leaves out only move
+   * the resume token.
+   */
+  private async writeEvent(line: string): Promise<void> {
+    // mongosh may print warnings and banners between the events
+    let event: RawChangeEvent;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      logger.warn('Skipping change stream output that is not an event', { line });
+      return;
+    }
+    if (!event?._id || !event.clusterTime) {
+      logger.warn('Skipping change stream output that is not an event', { line });
+      return;
+    }
+
+    if (this.segment && (Date.now() >= this.segment.bucketEndsAt || this.segment.bytes >= this.options.maxSegmentSize)) {
+      await this.closeSegment();
+    }
+    const segment = this.segment ?? await this.openSegment();
+
+    this.resumeToken = JSON.stringify(event._id);
+    segment.resumeToken = this.resumeToken;
+    if (event.ns && !matchesNamespace(this.options.filter, event.ns.db, event.ns.coll ?? '')) {
+      return;
+    }
+
+    const eventTime = event.clusterTime.$timestamp.t;
+    segment.firstEventTime ??= eventTime;
+    segment.lastEventTime = eventTime;
+    segment.events++;
+    segment.bytes += Buffer.byteLength(line) + 1;
+    if (!segment.stream.write(`${line}\n`)) {
+      await waitForDrain(segment.stream);
+    }
+  }
+
+  private async openSegment(): Promise<OpenSegment> {
+    const now = Date.now();
+    const segmentId = createSnapshotId(new Date(now));
+    const filePath = path.join(this.options.path, `${segmentId}.jsonl`);
+    const bucketEndsAt = (Math.floor(now / this.options.segmentDuration) + 1) * this.options.segmentDuration;
+
+    this.segment = {
+      segmentId,
+      filePath,
+      stream: createWriteStream(filePath),
+      startedAt: this.coveredSince,
+      previousResumeToken: this.chainToken,
+      resumeToken: null,
+      bucketEndsAt,
+      events: 0,
+      bytes: 0,
+      firstEventTime: null,
+      lastEventTime: null
+    };
+    this.bucketTimer = setTimeout(() => {
+      this.enqueue(() => this.closeSegment());
+    }, bucketEndsAt - now);
+    return this.segment;
+  }
+
+  /**
+   * Closes the open segment and uploads it after any earlier segments that
+   * still wait for their upload. Segments without kept events are dropped.
+   */
+  private async closeSegment(): Promise<void> {
+    this.clearTimer('bucketTimer');
+    const segment = this.segment;
+    if (segment) {
+      this.segment = null;
+      segment.stream.end();
+      await finished(segment.stream);
+
+      const endedAt = new Date().toISOString();
+      this.coveredSince = endedAt;
+      if (segment.events > 0 && segment.resumeToken) {
+        this.pending.push({ ...segment, endedAt, resumeToken: segment.resumeToken });
+        this.chainToken = segment.resumeToken;
+      } else {
+        await unlink(segment.filePath).catch(() => undefined);
+      }
+    }
+
+    await this.uploadPending();
+  }
+
+  /**
+   * Uploads closed segments in order and checkpoints after each one, so the
+   * state file never points past a segment that is missing from the bucket
+   */
+  private async uploadPending(): Promise<void> {
+    this.clearTimer('retryTimer');
+    while (this.pending.length) {
+      const segment = this.pending[0];
+      try {
+        await this.uploadSegment(segment);
+      } catch (error) {
+        logger.error('Failed to upload change segment, retrying later', { segmentId: segment.segmentId, error });
+        if (this.controller) {
+          this.retryTimer = setTimeout(() => {
+            this.enqueue(() => this.uploadPending());
+          }, UPLOAD_RETRY_DELAY_MS);
+        }
+        return;
+      }
+
+      this.pending.shift();
+      await this.writeState({
+        resumeToken: segment.resumeToken,
+        lastSegmentId: segment.segmentId,
+        lastSegmentEndedAt: segment.endedAt
+      });
+      await unlink(segment.filePath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Compresses and encrypts the events like snapshot parts and uploads them,
+   * followed by the segment file that marks the segment complete
+   */
+  private async uploadSegment(segment: ClosedSegment): Promise<void> {
+    const compression = this.options.compression || 'none';
+    const encryption = this.options.encryption;
+    const compressedPath = `${segment.filePath}${getCodecExtension(compression)}`;
+    const encryptedPath = `${compressedPath}.enc`;
+    const segmentPath = `${segment.filePath}.segment.json`;
+
+    try {
+      if (compression !== 'none') {
+        await pipeline(createReadStream(segment.filePath), createCompressStream(compression), createWriteStream(compressedPath));
+      }
+      if (encryption) {
+        await encryptFile(compressedPath, encryptedPath, encryption);
+      }
+
+      const eventsFileName = getChangeEventsFileName(segment.segmentId, compression);
+      const uploaded = await this.storage.uploadFile(
+        encryption ? encryptedPath : compressedPath,
+        eventsFileName,
+        encryption
+          ? { fileInfo: { 'encryption-algorithm': ENCRYPTION_ALGORITHM, 'encryption-key-id': encryption.keyId } }
+          : {}
+      );
+
+      const changeSegment: ChangeSegment = {
+        version: MANIFEST_VERSION,
+        segmentId: segment.segmentId,
+        startedAt: segment.startedAt,
+        endedAt: segment.endedAt,
+        previousResumeToken: segment.previousResumeToken,
+        resumeToken: segment.resumeToken,
+        firstEventTime: segment.firstEventTime ?? 0,
+        lastEventTime: segment.lastEventTime ?? 0,
+        part: {
+          fileName: eventsFileName,
+          size: uploaded.contentLength,
+          sha1: uploaded.contentSha1,
+          documentCount: segment.events,
+          ...(compression !== 'none' && { compression }),
+          ...(encryption && { encryptionKeyId: encryption.keyId })
+        }
+      };
+      await writeFile(segmentPath, JSON.stringify(changeSegment, null, 2));
+      await this.storage.uploadFile(segmentPath, getChangeSegmentFileName(segment.segmentId));
+
+      logger.info('Uploaded change segment', {
+        segmentId: segment.segmentId,
+        events: segment.events,
+        startedAt: segment.startedAt,
+        endedAt: segment.endedAt
+      });
+    } finally {
+      const temporary = [segmentPath, encryptedPath, ...(compression !== 'none' ? [compressedPath] : [])];
+      await Promise.all(temporary.map(file => rm(file, { force: true })));
+    }
+  }
+
+  /**
+   * Runs stream reads, timers and uploads one after another, so a segment is
+   * never written to while it is being closed
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch((error) => {
+      logger.error('Change stream task failed', { error });
+    });
+    return run;
+  }
+
+  private clearTimer(timer: 'bucketTimer' | 'retryTimer'): void {
+    if (this[timer]) {
+      clearTimeout(this[timer]!);
+      this[timer] = null;
+    }
+  }
+
+  private async readState(): Promise<ChangeStreamState> {
+    try {
+      const contents = await readFile(this.options.stateFile, 'utf8');
+      return { ...EMPTY_STATE, ...JSON.parse(contents) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Failed to read change stream state, starting a new chain of segments', {
+          stateFile: this.options.stateFile,
+          error
+        });
+      }
+      return { ...EMPTY_STATE };
+    }
+  }
+
+  /**
+   * Writes through a temporary file so a crash never leaves a truncated state
+   * file. A failed write is logged, the segments are read again after a restart.
+   */
+  private async writeState(state: ChangeStreamState): Promise<void> {
+    try {
+      await ensureDirectoryExists(path.dirname(this.options.stateFile));
+      const tempFile = `${this.options.stateFile}.tmp`;
+      await writeFile(tempFile, JSON.stringify(state, null, 2));
+      await rename(tempFile, this.options.stateFile);
+    } catch (error) {
+      logger.error('Failed to persist change stream state', { stateFile: this.options.stateFile, error });
+    }
+  }
+}
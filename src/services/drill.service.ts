@@ -0,0 +1,175 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { EJSON } from 'bson';
+import { MongoService } from './mongo.service';
+import { SnapshotService } from './snapshot.service';
+import { RestoreService } from './restore.service';
+import { removeContainer, runContainer } from '../utils/docker.util';
+import logger from '../utils/logger.util';
+import { Config } from '../types/config.types';
+import { Keyring } from '../types/crypto.types';
+import { ManifestCollection } from '../types/manifest.types';
+import { CollectionRestoreResult } from '../types/restore.types';
+import { CollectionDrillResult, DrillProblem, DrillReport } from '../types/drill.types';
+import { StorageBackend } from '../types/storage.types';
+
+export class DrillError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'DrillError';
+  }
+}
+
+// The drill container publishes no ports, so its server runs without authentication
+const DRILL_MONGO_URI = 'mongodb://localhost:27017';
+const STARTUP_POLL_INTERVAL_MS = 1000;
+
+export class DrillService {
+  constructor(
+    private readonly sourceMongoService: MongoService,
+    private readonly storage: StorageBackend,
+    private readonly snapshotService: SnapshotService,
+    private readonly options: Config['drill'],
+    private readonly keyring: Keyring = {}
+  ) {}
+
+  /**
+   * Restores a snapshot (the latest complete one by default) into a
+   * throwaway container, compares counts and sampled documents and removes
+   * the container again. Failed checks are returned in the report; failures
+   * to start the container or restore throw.
+   */
+  async runDrill(snapshotId?: string, signal?: AbortSignal): Promise<DrillReport> {
+    const startedAt = new Date();
+    const containerName = `mongo-b2-drill-${startedAt.getTime()}`;
+
+    try {
+      const resolvedSnapshotId = snapshotId || await this.snapshotService.getLatestSnapshotId();
+      const manifest = await this.snapshotService.getManifest(resolvedSnapshotId);
+
+      logger.info('Starting restore drill', {
+        snapshotId: resolvedSnapshotId,
+        image: this.options.image,
+        containerName
+      });
+      await runContainer(containerName, this.options.image);
+
+      try {
+        const drillMongoService = new MongoService(containerName, DRILL_MONGO_URI, '/tmp');
+        await this.waitForStartup(drillMongoService, signal);
+        const startupMs = Date.now() - startedAt.getTime();
+
+        const restoreService = new RestoreService(drillMongoService, this.storage, this.snapshotService, this.keyring);
+        const restored = await restoreService.restore({ snapshotId: resolvedSnapshotId }, signal);
+        const restoreMs = Date.now() - startedAt.getTime() - startupMs;
+
+        const problems: DrillProblem[] = [];
+        const collections: CollectionDrillResult[] = [];
+        for (const result of restored) {
+          signal?.throwIfAborted();
+          const entry = manifest.collections.find(candidate =>
+            candidate.database === result.database && candidate.collection === result.collection
+          );
+          collections.push(await this.checkCollection(drillMongoService, result, entry, problems));
+        }
+
+        const report: DrillReport = {
+          snapshotId: resolvedSnapshotId,
+          image: this.options.image,
+          ok: problems.length === 0,
+          startedAt: startedAt.toISOString(),
+          startupMs,
+          restoreMs,
+          durationMs: Date.now() - startedAt.getTime(),
+          collections,
+          problems
+        };
+
+        if (report.ok) {
+          logger.info('Restore drill passed', {
+            snapshotId: report.snapshotId,
+            collections: collections.length,
+            restoreMs,
+            durationMs: report.durationMs
+          });
+        } else {
+          logger.error('Restore drill failed', { snapshotId: report.snapshotId, problems });
+        }
+        return report;
+      } finally {
+        await removeContainer(containerName).catch(error => {
+          logger.warn('Failed to remove drill container', { containerName, error });
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to run restore drill', { error });
+      throw new DrillError(
+        error instanceof Error ? error.message : 'Failed to run restore drill'
+      );
+    }
+  }
+
+  private async waitForStartup(drillMongoService: MongoService, signal?: AbortSignal): Promise<void> {
+    const deadline = Date.now() + this.options.startupTimeout;
+    for (;;) {
+      try {
+        await drillMongoService.ping();
+        return;
+      } catch (error) {
+        if (Date.now() >= deadline) {
+          throw new DrillError(`Drill container did not accept connections within ${this.options.startupTimeout}ms`);
+        }
+      }
+      await sleep(STARTUP_POLL_INTERVAL_MS, undefined, { signal });
+    }
+  }
+
+  /**
+   * The restored count must match the snapshot. The source keeps changing
+   * after the snapshot, so single sampled documents may differ from it; only
+   * a sample in which no document matches the source fails the drill.
+   */
+  private async checkCollection(
+    drillMongoService: MongoService,
+    result: CollectionRestoreResult,
+    entry: ManifestCollection | undefined,
+    problems: DrillProblem[]
+  ): Promise<CollectionDrillResult> {
+    const { database, collection } = result;
+    const name = `${database}.${collection}`;
+    const documentsExpected = entry?.reportedDocumentCount ?? result.documentsExpected;
+    const problemsBefore = problems.length;
+
+    const documentsRestored = await drillMongoService.countDocuments(database, collection);
+    const samples = await drillMongoService.sampleDocuments(database, collection, this.options.sampleSize);
+    const sourceSamples = samples.length
+      ? await this.sourceMongoService.findDocumentsById(database, collection, samples.map(document => document._id))
+      : [];
+
+    const sourceById = new Map(sourceSamples.map(document => [toCanonical(document._id), toCanonical(document)]));
+    const samplesMatched = samples.filter(document =>
+      sourceById.get(toCanonical(document._id)) === toCanonical(document)
+    ).length;
+
+    if (documentsRestored !== documentsExpected) {
+      problems.push({ collection: name, problem: `${documentsRestored} documents restored, snapshot has ${documentsExpected}` });
+    }
+    if (samples.length > 0 && samplesMatched === 0) {
+      problems.push({ collection: name, problem: `none of ${samples.length} sampled documents match the source` });
+    }
+
+    return {
+      database,
+      collection,
+      documentsExpected,
+      documentsRestored,
+      samplesChecked: samples.length,
+      samplesMatched,
+      restoreMs: result.durationMs,
+      ok: problems.length === problemsBefore
+    };
+  }
+}
+
+function toCanonical(value: unknown): string {
+  return EJSON.stringify(value, { relaxed: false });
+}
@@ -0,0 +1,187 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { readdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import * as BSON from 'bson';
+import { FilesystemService, FilesystemError } from './filesystem.service';
+import { BackupService } from './backup.service';
+import { MongoService } from './mongo.service';
+import { SnapshotService } from './snapshot.service';
+import { VerifyService } from './verify.service';
+import { RestoreService } from './restore.service';
+
+jest.mock('fs/promises', () => {
+  const actual = jest.requireActual('fs/promises');
+  return { ...actual, readdir: jest.fn(actual.readdir) };
+});
+jest.mock('./mongo.service');
+jest.mock('../utils/logger.util', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn()
+}));
+
+describe('FilesystemService', () => {
+  let tempDir: string;
+  let root: string;
+  let storage: FilesystemService;
+
+  const writeLocal = (name: string, contents: string) => {
+    const filePath = path.join(tempDir, name);
+    writeFileSync(filePath, contents);
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tempDir = mkdtempSync(path.join(tmpdir(), 'filesystem-storage-test-'));
+    root = path.join(tempDir, 'storage');
+    storage = new FilesystemService(root);
+    await storage.authenticate();
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should store files in a directory tree with a SHA-1 sidecar', async () => {
+    const uploaded = await storage.uploadFile(writeLocal('part', 'hello'), 'snapshots/1/app/users/users.jsonl.part1', {
+      fileInfo: { 'encryption-key-id': 'key-2024' }
+    });
+
+    const target = path.join(root, 'snapshots/1/app/users/users.jsonl.part1');
+    expect(readFileSync(target, 'utf8')).toBe('hello');
+    expect(JSON.parse(readFileSync(`${target}.meta.json`, 'utf8'))).toEqual({
+      contentSha1: 'aaf4c61ddcc5e8a2dabede0f3b482cd9aea9434d',
+      uploadTimestamp: uploaded.uploadTimestamp,
+      fileInfo: { 'encryption-key-id': 'key-2024' }
+    });
+    expect(uploaded).toEqual({
+      fileName: 'snapshots/1/app/users/users.jsonl.part1',
+      fileId: 'snapshots/1/app/users/users.jsonl.part1',
+      contentLength: 5,
+      contentSha1: 'aaf4c61ddcc5e8a2dabede0f3b482cd9aea9434d',
+      uploadTimestamp: expect.any(Number)
+    });
+  });
+
+  test('should skip files that are already stored', async () => {
+    await storage.uploadFile(writeLocal('first', 'first'), 'manifest.json');
+    await storage.uploadFile(writeLocal('second', 'second'), 'manifest.json');
+
+    expect(readFileSync(path.join(root, 'manifest.json'), 'utf8')).toBe('first');
+  });
+
+  test('should head a stored file from its sidecar and ignore files without one', async () => {
+    const uploaded = await storage.uploadFile(writeLocal('manifest', 'hello'), 'snapshots/1/manifest.json');
+    writeFileSync(path.join(root, 'snapshots/1/stray.json'), 'stray');
+
+    await expect(storage.headFile('snapshots/1/manifest.json')).resolves.toEqual(uploaded);
+    await expect(storage.headFile('snapshots/1/stray.json')).resolves.toBeNull();
+    await expect(storage.headFile('snapshots/1/missing.json')).resolves.toBeNull();
+  });
+
+  test('should list files by prefix and fold sub-folders unless recursive', async () => {
+    const local = writeLocal('part', 'data');
+    await storage.uploadFile(local, 'snapshots/1/manifest.json');
+    await storage.uploadFile(local, 'snapshots/1/app/users/users.jsonl.part1');
+    await storage.uploadFile(local, 'snapshots/2/app/users/users.jsonl.part1');
+    await storage.uploadFile(local, 'changes/a/segment.json');
+    // A copy interrupted before its sidecar was written is not listed
+    writeFileSync(path.join(root, 'snapshots/2/manifest.json'), 'partial');
+
+    expect((await storage.listExistingFiles('snapshots/')).map(file => file.fileName)).toEqual([
+      'snapshots/1/',
+      'snapshots/2/'
+    ]);
+    expect((await storage.listExistingFiles('snapshots/1/', true)).map(file => file.fileName)).toEqual([
+      'snapshots/1/app/users/users.jsonl.part1',
+      'snapshots/1/manifest.json'
+    ]);
+    expect((await storage.listExistingFiles('snapshots/1/app/users/users.jsonl')).map(file => file.fileName)).toEqual([
+      'snapshots/1/app/users/users.jsonl.part1'
+    ]);
+    expect(await storage.listExistingFiles('missing/')).toEqual([]);
+    await expect(storage.fileExists('snapshots/2/manifest.json')).resolves.toBe(false);
+  });
+
+  test('should only read the prefix directory itself unless recursive', async () => {
+    const local = writeLocal('part', 'data');
+    await storage.uploadFile(local, 'snapshots/1/app/users/users.jsonl.part1');
+    await storage.uploadFile(local, 'snapshots/2/manifest.json');
+    (readdir as jest.Mock).mockClear();
+
+    expect((await storage.listExistingFiles('snapshots/')).map(file => file.fileName)).toEqual([
+      'snapshots/1/',
+      'snapshots/2/'
+    ]);
+    expect(readdir).toHaveBeenCalledTimes(1);
+    expect(readdir).toHaveBeenCalledWith(path.join(root, 'snapshots'), { withFileTypes: true });
+  });
+
+  test('should download whole files and byte ranges', async () => {
+    await storage.uploadFile(writeLocal('part', '0123456789'), 'a/part');
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await storage.downloadFile('a/part')) {
+      chunks.push(chunk);
+    }
+    expect(Buffer.concat(chunks).toString()).toBe('0123456789');
+    await expect(storage.downloadFileRange('a/part', 2, 4)).resolves.toEqual(Buffer.from('234'));
+    await expect(storage.downloadFile('a/missing')).rejects.toThrow(new FilesystemError('File a/missing does not exist'));
+  });
+
+  test('should delete files with their sidecar and empty directories', async () => {
+    const local = writeLocal('part', 'data');
+    await storage.uploadFile(local, 'snapshots/1/app/users/users.jsonl.part1');
+    await storage.uploadFile(local, 'snapshots/2/manifest.json');
+
+    await storage.deleteFile('snapshots/1/app/users/users.jsonl.part1', 'snapshots/1/app/users/users.jsonl.part1');
+
+    expect(existsSync(path.join(root, 'snapshots/1'))).toBe(false);
+    expect(existsSync(path.join(root, 'snapshots/2/manifest.json'))).toBe(true);
+  });
+
+  test('should refuse names outside the root and reserved for sidecars', async () => {
+    const local = writeLocal('part', 'data');
+
+    await expect(storage.uploadFile(local, '../escape')).rejects.toThrow(FilesystemError);
+    await expect(storage.uploadFile(local, 'a/b.meta.json')).rejects.toThrow(FilesystemError);
+  });
+
+  test('should run a backup, verify and restore without network', async () => {
+    const documents = [{ _id: 1, name: 'alice' }, { _id: 2, name: 'bob' }];
+    const dumpPath = path.join(tempDir, 'backup', '2024-03-14T12-00-00-000Z');
+    mkdirSync(path.join(dumpPath, 'app'), { recursive: true });
+    writeFileSync(path.join(dumpPath, 'app', 'users.bson'), Buffer.concat(documents.map(document => BSON.serialize(document))));
+
+    const mongoService = new MongoService('mongo', 'mongodb://localhost:27017', dumpPath) as jest.Mocked<MongoService>;
+    mongoService.createDump.mockResolvedValue(dumpPath);
+    mongoService.getDumpVersion.mockResolvedValue('100.9.4');
+    mongoService.getMaskedUri.mockReturnValue('mongodb://localhost:27017');
+    mongoService.getReportedDocumentCounts.mockReturnValue({ 'app.users': 2 });
+    const restored: unknown[] = [];
+    mongoService.restoreCollection.mockImplementation(async (database, collection, source) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of source) {
+        chunks.push(chunk);
+      }
+      const bson = Buffer.concat(chunks);
+      for (let offset = 0; offset < bson.length; offset += bson.readInt32LE(offset)) {
+        restored.push(BSON.deserialize(bson.subarray(offset, offset + bson.readInt32LE(offset))));
+      }
+      return restored.length;
+    });
+
+    const backupService = new BackupService(mongoService, storage, path.join(tempDir, 'backup'), { compression: 'gzip' });
+    const manifest = await backupService.performIncrementalBackup();
+
+    const snapshotService = new SnapshotService(storage);
+    await expect(snapshotService.getLatestSnapshotId()).resolves.toBe(manifest.snapshotId);
+    const report = await new VerifyService(storage, snapshotService).verifySnapshot(manifest.snapshotId);
+    expect(report.problems).toEqual([]);
+
+    await new RestoreService(mongoService, storage, snapshotService).restore({ snapshotId: manifest.snapshotId });
+    expect(restored).toEqual(documents);
+  });
+});
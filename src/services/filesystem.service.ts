@@ -0,0 +1,275 @@
+import { constants, createReadStream } from 'fs';
+import { access, copyFile, mkdir, open, readdir, readFile, rename, rm, rmdir, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import logger from '../utils/logger.util';
+import { calculateChecksum } from '../utils/file.util';
+import { runWithConcurrency } from '../utils/pool.util';
+import { StorageBackend, StoredFile, UploadOptions } from '../types/storage.types';
+
+/** Written next to every stored file, the file only counts as stored once it exists */
+interface FileMetadata {
+  contentSha1: string;
+  uploadTimestamp: number;
+  fileInfo: Record<string, string>;
+}
+
+export class FilesystemError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'FilesystemError';
+  }
+}
+
+const METADATA_SUFFIX = '.meta.json';
+const TEMPORARY_PATTERN = /\.upload-\d+-\d+\.tmp$/;
+
+/**
+ * Stores files in a directory tree, e.g. on a mounted NAS or a second disk.
+ * Each file `<root>/<fileName>` has a `<fileName>.meta.json` sidecar with its
+ * SHA-1 and file info. Files are copied under a temporary name and the
+ * sidecar is renamed into place last, so an interrupted upload is not listed.
+ */
+export class FilesystemService implements StorageBackend {
+  private readonly root: string;
+
+  constructor(root: string, private readonly uploadConcurrency: number = 1) {
+    this.root = path.resolve(root);
+    logger.info('FilesystemService initialized with:', { root: this.root });
+  }
+
+  /**
+   * Creates the root directory and checks that it is writable
+   */
+  async authenticate(): Promise<void> {
+    try {
+      await mkdir(this.root, { recursive: true });
+      await access(this.root, constants.W_OK);
+    } catch (error) {
+      logger.error('Storage directory is not writable', { root: this.root, error });
+      throw new FilesystemError(
+        `Storage directory ${this.root} is not writable: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  async uploadFile(filePath: string, fileName: string, options: UploadOptions = {}): Promise<StoredFile> {
+    const target = this.resolve(fileName);
+    if (fileName.endsWith(METADATA_SUFFIX)) {
+      throw new FilesystemError(`File names ending in ${METADATA_SUFFIX} are reserved for metadata: ${fileName}`);
+    }
+
+    const existing = await this.readStoredFile(fileName);
+    if (existing) {
+      logger.info('File already exists in storage, skipping upload', { fileName });
+      return existing;
+    }
+
+    const temporarySuffix = `.upload-${process.pid}-${Date.now()}.tmp`;
+    try {
+      await mkdir(path.dirname(target), { recursive: true });
+      const metadata: FileMetadata = {
+        contentSha1: await calculateChecksum(filePath),
+        uploadTimestamp: Date.now(),
+        fileInfo: options.fileInfo || {}
+      };
+
+      await copyFile(filePath, target + temporarySuffix);
+      await rename(target + temporarySuffix, target);
+      await writeFile(target + METADATA_SUFFIX + temporarySuffix, JSON.stringify(metadata, null, 2));
+      await rename(target + METADATA_SUFFIX + temporarySuffix, target + METADATA_SUFFIX);
+
+      const { size } = await stat(target);
+      logger.info('Successfully stored file', { fileName, fileSize: size });
+      return {
+        fileName,
+        fileId: fileName,
+        contentLength: size,
+        contentSha1: metadata.contentSha1,
+        uploadTimestamp: metadata.uploadTimestamp
+      };
+    } catch (error) {
+      await rm(target + temporarySuffix, { force: true });
+      await rm(target + METADATA_SUFFIX + temporarySuffix, { force: true });
+      logger.error('Failed to store file', { fileName, error });
+      throw new FilesystemError(
+        `Failed to store ${fileName}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Runs independent uploads, e.g. the parts of a snapshot, with at most
+   * uploadConcurrency in flight and logs the overall progress
+   */
+  async uploadFiles<T, R>(items: T[], upload: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    let completed = 0;
+    return runWithConcurrency(items, this.uploadConcurrency, async (item, index) => {
+      const result = await upload(item, index);
+      completed++;
+      logger.info(`Uploaded ${completed} of ${items.length} files`);
+      return result;
+    });
+  }
+
+  /**
+   * Lists stored files whose name starts with the prefix, sorted by name.
+   * Unless recursive, files below the prefix's next '/' are folded into a
+   * folder entry ending with '/', as B2 does.
+   */
+  async listExistingFiles(prefix: string = '', recursive: boolean = false): Promise<StoredFile[]> {
+    const directory = prefix.slice(0, prefix.lastIndexOf('/') + 1);
+    const files: StoredFile[] = [];
+    const folders = new Set<string>();
+
+    try {
+      for (const fileName of await this.walk(directory, recursive)) {
+        if (!fileName.startsWith(prefix)) {
+          continue;
+        }
+        const slash = fileName.indexOf('/', prefix.length);
+        if (!recursive && slash !== -1) {
+          folders.add(fileName.slice(0, slash + 1));
+          continue;
+        }
+        const file = await this.readStoredFile(fileName);
+        if (file) {
+          files.push(file);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to list files', { prefix, error });
+      throw new FilesystemError(
+        `Failed to list files: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    const folderEntries = Array.from(folders, fileName => ({
+      fileName,
+      fileId: fileName,
+      contentLength: 0,
+      contentSha1: 'none',
+      uploadTimestamp: 0
+    }));
+    return [...files, ...folderEntries].sort((a, b) => (a.fileName < b.fileName ? -1 : a.fileName > b.fileName ? 1 : 0));
+  }
+
+  async downloadFile(fileName: string): Promise<Readable> {
+    await this.assertStored(fileName);
+    return createReadStream(this.resolve(fileName));
+  }
+
+  async downloadFileRange(fileName: string, start: number, end: number): Promise<Buffer> {
+    await this.assertStored(fileName);
+    const handle = await open(this.resolve(fileName), 'r');
+    try {
+      const buffer = Buffer.alloc(end - start + 1);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Removes the file and its sidecar, then every directory left empty up to
+   * the root
+   */
+  async deleteFile(fileName: string, _fileId: string): Promise<void> {
+    const target = this.resolve(fileName);
+    try {
+      await rm(target + METADATA_SUFFIX, { force: true });
+      await rm(target, { force: true });
+      for (let directory = path.dirname(target); directory !== this.root; directory = path.dirname(directory)) {
+        if ((await readdir(directory)).length > 0) {
+          break;
+        }
+        await rmdir(directory);
+      }
+      logger.info('Deleted file from storage', { fileName });
+    } catch (error) {
+      logger.error('Failed to delete file', { fileName, error });
+      throw new FilesystemError(
+        `Failed to delete ${fileName}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  async fileExists(fileName: string): Promise<boolean> {
+    return !!(await this.readStoredFile(fileName));
+  }
+
+  async headFile(fileName: string): Promise<StoredFile | null> {
+    return this.readStoredFile(fileName);
+  }
+
+  private async assertStored(fileName: string): Promise<void> {
+    if (!(await this.fileExists(fileName))) {
+      throw new FilesystemError(`File ${fileName} does not exist`, 404);
+    }
+  }
+
+  /**
+   * Returns the stored file, or null when it or its sidecar is missing
+   */
+  private async readStoredFile(fileName: string): Promise<StoredFile | null> {
+    const target = this.resolve(fileName);
+    try {
+      const metadata: FileMetadata = JSON.parse(await readFile(target + METADATA_SUFFIX, 'utf8'));
+      const { size } = await stat(target);
+      return {
+        fileName,
+        fileId: fileName,
+        contentLength: size,
+        contentSha1: metadata.contentSha1,
+        uploadTimestamp: metadata.uploadTimestamp
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the names of the stored files below a directory ('' for the
+   * root), leaving out sidecars and temporary copies. Unless recursive, only
+   * the directory itself is read and sub-directories are named with a
+   * trailing '/'.
+   */
+  private async walk(directory: string, recursive: boolean = true): Promise<string[]> {
+    let entries;
+    try {
+      entries = await readdir(this.resolve(directory), { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const names: string[] = [];
+    for (const entry of entries) {
+      const name = `${directory}${entry.name}`;
+      if (entry.isDirectory()) {
+        names.push(...(recursive ? await this.walk(`${name}/`) : [`${name}/`]));
+      } else if (!entry.name.endsWith(METADATA_SUFFIX) && !TEMPORARY_PATTERN.test(entry.name)) {
+        names.push(name);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Maps a file name to its path below the root, refusing names that would
+   * leave it
+   */
+  private resolve(fileName: string): string {
+    const resolved = path.resolve(this.root, fileName);
+    if (resolved !== this.root && !resolved.startsWith(this.root + path.sep)) {
+      throw new FilesystemError(`File name ${fileName} is outside the storage directory`);
+    }
+    return resolved;
+  }
+}
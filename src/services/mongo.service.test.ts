@@ -1,13 +1,17 @@
 import { MongoService, MongoError } from './mongo.service';
 import { execInContainer, copyFromContainer } from '../utils/docker.util';
-import { exec } from 'child_process';
+import { exec, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import { PassThrough, Readable } from 'stream';
 import logger from '../utils/logger.util';
 
 const mockedExec = exec as unknown as jest.Mock;
+const mockedSpawn = spawn as unknown as jest.Mock;
 
 jest.mock('../utils/docker.util');
 jest.mock('child_process', () => ({
-  exec: jest.fn()
+  exec: jest.fn(),
+  spawn: jest.fn()
 }));
 jest.mock('../utils/logger.util', () => ({
   info: jest.fn(),
@@ -165,4 +169,152 @@ describe('MongoService', () => {
       );
     });
   });
-}); 
\ No newline at end of file
+
+  describe('streamDump', () => {
+    const fakeChild = () => Object.assign(new EventEmitter(), {
+      stdout: new PassThrough(),
+      stderr: new PassThrough()
+    });
+
+    test('should stream mongodump --archive from the container', async () => {
+      const child = fakeChild();
+      mockedSpawn.mockReturnValue(child);
+
+      const dump = mongoService.streamDump();
+      child.emit('close', 0);
+
+      expect(mockedSpawn).toHaveBeenCalledWith('docker', [
+        'exec', containerName,
+        'mongodump',
+        `--uri=${mongoUri}`,
+        '--authenticationDatabase=admin',
+        '--archive',
+        '--numParallelCollections=1'
+      ], expect.objectContaining({ stdio: ['ignore', 'pipe', 'pipe'] }));
+      expect(dump.archive).toBe(child.stdout);
+      await expect(dump.completed).resolves.toBeUndefined();
+    });
+
+    test('should narrow the dump with the flags the filter maps to', () => {
+      mockedSpawn.mockReturnValue(fakeChild());
+
+      mongoService.streamDump(undefined, { filter: { include: ['app'], exclude: ['app.sessions'] } });
+
+      expect(mockedSpawn.mock.calls[0][1]).toEqual(expect.arrayContaining(['--db=app', '--excludeCollection=sessions']));
+    });
+
+    test('should reject completed when mongodump exits with an error', async () => {
+      const child = fakeChild();
+      mockedSpawn.mockReturnValue(child);
+
+      const dump = mongoService.streamDump();
+      child.emit('close', 1);
+
+      await expect(dump.completed).rejects.toThrow(new MongoError('mongodump failed with code 1'));
+    });
+
+    test('should record the document counts mongodump reports', async () => {
+      const child = fakeChild();
+      mockedSpawn.mockReturnValue(child);
+
+      const dump = mongoService.streamDump();
+      child.stderr.write('2024-03-14T12:00:00.000+0000\tdone dumping app.users (3 documents)\n');
+      child.stderr.write('2024-03-14T12:00:00.100+0000\tdone dumping app.audit.log (1 document)\n');
+      await new Promise(resolve => setImmediate(resolve));
+      child.emit('close', 0);
+      await dump.completed;
+
+      expect(mongoService.getReportedDocumentCounts()).toEqual({ 'app.users': 3, 'app.audit.log': 1 });
+    });
+  });
+
+  describe('queries', () => {
+    const replyWith = (stdout: string, code = 0) => {
+      mockedSpawn.mockImplementation(() => {
+        const child = Object.assign(new EventEmitter(), {
+          stdin: new PassThrough(),
+          stdout: new PassThrough(),
+          stderr: new PassThrough()
+        });
+        child.stdin.resume();
+        setImmediate(() => {
+          child.stdout.end(stdout);
+          child.emit('close', code);
+        });
+        return child;
+      });
+    };
+
+    test('should count documents with mongosh without going through a shell', async () => {
+      replyWith('42\n');
+
+      await expect(mongoService.countDocuments('app', 'audit.log')).resolves.toBe(42);
+      expect(mockedSpawn).toHaveBeenCalledWith('docker', [
+        'exec', containerName,
+        'mongosh', mongoUri,
+        '--authenticationDatabase=admin',
+        '--quiet',
+        '--eval', 'print(db.getSiblingDB("app").getCollection("audit.log").countDocuments())'
+      ], expect.objectContaining({ stdio: ['pipe', 'pipe', 'pipe'] }));
+    });
+
+    test('should parse sampled documents as canonical extended JSON', async () => {
+      replyWith('[{"_id":{"$oid":"65f2d6a0c2a4b1e3f0a1b2c3"},"n":{"$numberLong":"7"}}]');
+
+      const documents = await mongoService.sampleDocuments('app', 'users', 5);
+
+      expect(documents).toHaveLength(1);
+      expect(documents[0]._id.toHexString()).toBe('65f2d6a0c2a4b1e3f0a1b2c3');
+      expect(documents[0].n._bsontype).toBe('Long');
+      expect(mockedSpawn.mock.calls[0][1]).toContain(
+        'print(EJSON.stringify(db.getSiblingDB("app").getCollection("users").aggregate([{ $sample: { size: 5 } }]).toArray(), { relaxed: false }))'
+      );
+    });
+
+    test('should throw MongoError when mongosh fails', async () => {
+      replyWith('', 1);
+
+      await expect(mongoService.ping()).rejects.toThrow(MongoError);
+    });
+
+    test('should tail the change stream after the resume token', () => {
+      replyWith('');
+
+      mongoService.watchChanges('{"_data":"8265"}');
+
+      const script = (mockedSpawn.mock.calls[0][1] as string[]).pop();
+      expect(script).toContain(`db.getMongo().watch([], { fullDocument: 'updateLookup', startAfter: EJSON.parse("{\\"_data\\":\\"8265\\"}") })`);
+      expect(script).toContain('print(EJSON.stringify(event, { relaxed: false }))');
+    });
+
+    test('should stage change events in the container and apply them up to the limit', async () => {
+      replyWith('12\n');
+
+      await expect(mongoService.applyChanges(Readable.from([Buffer.from('{}\n')]), 1710417600)).resolves.toBe(12);
+
+      const commands = mockedSpawn.mock.calls.map(call => call[1] as string[]);
+      expect(commands[0]).toEqual(['exec', '-i', containerName, 'sh', '-c', expect.stringContaining('cat > /tmp/change-replay/events.jsonl')]);
+      expect(commands[1].pop()).toContain('const until = 1710417600;');
+      expect(commands[2]).toEqual(['exec', containerName, 'rm', '-rf', '/tmp/change-replay']);
+    });
+
+    test('should stage the oplog in the container and replay it up to the limit', async () => {
+      replyWith('');
+
+      await mongoService.replayOplog(Readable.from([Buffer.from('oplog')]), '1710417600:1');
+
+      const commands = mockedSpawn.mock.calls.map(call => call[1] as string[]);
+      expect(commands[0]).toEqual(['exec', '-i', containerName, 'sh', '-c', expect.stringContaining('cat > /tmp/oplog-replay/oplog.bson')]);
+      expect(commands[1]).toEqual([
+        'exec', containerName,
+        'mongorestore',
+        `--uri=${mongoUri}`,
+        '--authenticationDatabase=admin',
+        '--oplogReplay',
+        '--oplogLimit=1710417600:1',
+        '--dir=/tmp/oplog-replay'
+      ]);
+      expect(commands[2]).toEqual(['exec', containerName, 'rm', '-rf', '/tmp/oplog-replay']);
+    });
+  });
+});
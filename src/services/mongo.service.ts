@@ -4,6 +4,13 @@ import logger from '../utils/logger.util';
 import { spawn } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
+import { pipeline, Readable } from 'stream';
+import { Document, EJSON } from 'bson';
+import { createSnapshotId } from '../utils/snapshot.util';
+import { getDumpArgs } from '../utils/filter.util';
+import { DumpStream } from '../types/archive.types';
+import { DumpOptions } from '../types/backup.types';
+import { ChangeEventStream } from '../types/changes.types';
 
 const execAsync = promisify(exec);
 
@@ -14,7 +21,15 @@ export class MongoError extends Error {
   }
 }
 
+const DONE_DUMPING_PATTERN = /done dumping (\S+) \((\d+) documents?\)/g;
+const OPLOG_REPLAY_DIR = '/tmp/oplog-replay';
+const CHANGE_REPLAY_FILE = '/tmp/change-replay/events.jsonl';
+// How long mongosh waits between polls of an idle change stream
+const WATCH_POLL_INTERVAL_MS = 200;
+
 export class MongoService {
+  private reportedDocumentCounts: Record<string, number> = {};
+
   constructor(
     private readonly containerName: string,
     private readonly mongoUri: string,
@@ -25,23 +40,37 @@ export class MongoService {
     }
   }
 
-  async createDump(): Promise<string> {
+  /**
+   * Runs mongodump in the container and copies the dump to the host. Aborting
+   * the signal stops the docker exec client and fails the dump. The filter
+   * narrows the dump as far as mongodump's flags allow, except with oplog
+   * capture, where the whole server is dumped and oplog.bson written next to
+   * the databases.
+   */
+  async createDump(signal?: AbortSignal, options: DumpOptions = {}): Promise<string> {
     try {
+      signal?.throwIfAborted();
+      this.reportedDocumentCounts = {};
+
       // Create a unique directory name based on timestamp
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const timestamp = createSnapshotId(new Date());
       const outputDir = `${this.outputDir}/${timestamp}`;
 
       // Ensure output directory exists
       await fs.promises.mkdir(outputDir, { recursive: true });
 
       // Construct the mongodump command with authentication and optimized settings for large datasets
-      const command = `docker exec ${this.containerName} mongodump --uri="${this.mongoUri}" --out=/dump --authenticationDatabase=admin --numParallelCollections=4`;
+      const command = [
+        `docker exec ${this.containerName} mongodump --uri="${this.mongoUri}" --out=/dump --authenticationDatabase=admin --numParallelCollections=4`,
+        ...getMongodumpArgs(options)
+      ].join(' ');
 
       // Execute mongodump in the container using spawn with progress tracking
       await new Promise<void>((resolve, reject) => {
         const [cmd, ...args] = command.split(' ');
         const child = spawn(cmd, args, {
-          stdio: ['ignore', 'pipe', 'pipe']
+          stdio: ['ignore', 'pipe', 'pipe'],
+          signal
         });
 
         let currentCollection = '';
@@ -52,6 +81,7 @@ export class MongoService {
 
         child.stdout.on('data', (data) => {
           const output = data.toString();
+          this.recordDocumentCounts(output);
           // Log progress without storing in memory
           if (output.includes('writing')) {
             currentCollection = output.split('writing')[1].trim();
@@ -70,6 +100,7 @@ export class MongoService {
 
         child.stderr.on('data', (data) => {
           const output = data.toString();
+          this.recordDocumentCounts(output);
           // Handle progress bars and status updates
           if (output.includes('[') && output.includes('%')) {
             // This is a progress bar, log as info
@@ -99,6 +130,7 @@ export class MongoService {
       });
 
       // Copy the dump from the container to the host
+      signal?.throwIfAborted();
       logger.info('Starting to copy dump files from container...');
       const copyStartTime = Date.now();
       const copyCommand = `docker cp ${this.containerName}:/dump/. ${outputDir}`;
@@ -125,7 +157,7 @@ export class MongoService {
         container: this.containerName,
         outputDir,
         size: sizeOutput.trim(),
-        uri: this.mongoUri.replace(/\/\/[^:]+:[^@]+@/, '//****:****@') // Hide credentials in logs
+        uri: this.getMaskedUri()
       });
 
       return outputDir;
@@ -133,7 +165,7 @@ export class MongoService {
       logger.error('Failed to create MongoDB dump', { 
         error,
         container: this.containerName,
-        uri: this.mongoUri.replace(/\/\/[^:]+:[^@]+@/, '//****:****@') // Hide credentials in logs
+        uri: this.getMaskedUri()
       });
       throw new MongoError(
         error instanceof Error ? error.message : 'Failed to create MongoDB dump'
@@ -141,6 +173,394 @@ export class MongoService {
     }
   }
 
+  /**
+   * Starts mongodump --archive in the container and returns its stdout, so
+   * the dump never touches the disk on either side. Collections are dumped
+   * one at a time, which keeps namespaces from interleaving in the archive.
+   */
+  streamDump(signal?: AbortSignal, options: DumpOptions = {}): DumpStream {
+    signal?.throwIfAborted();
+    this.reportedDocumentCounts = {};
+
+    const args = [
+      'exec', this.containerName,
+      'mongodump',
+      `--uri=${this.mongoUri}`,
+      '--authenticationDatabase=admin',
+      '--archive',
+      '--numParallelCollections=1',
+      ...getMongodumpArgs(options)
+    ];
+    const child = spawn('docker', args, {
+      stdio: ['ignore', 'pipe', 'pipe'],
+      signal
+    });
+    const startTime = Date.now();
+
+    // With --archive all of mongodump's logging goes to stderr
+    child.stderr.on('data', (data) => {
+      const output = data.toString().trim();
+      this.recordDocumentCounts(output);
+      if (/error|failed/i.test(output)) {
+        logger.error('Mongodump error:', { error: output });
+      } else {
+        logger.info('Dump status:', { status: output });
+      }
+    });
+
+    const completed = new Promise<void>((resolve, reject) => {
+      child.on('close', (code) => {
+        if (code === 0) {
+          const totalTime = ((Date.now() - startTime) / 1000).toFixed(2);
+          logger.info(`Mongodump archive stream completed in ${totalTime}s`);
+          resolve();
+        } else {
+          reject(new MongoError(`mongodump failed with code ${code}`));
+        }
+      });
+
+      child.on('error', (error) => {
+        reject(new MongoError(error.message));
+      });
+    });
+
+    return { archive: child.stdout, completed };
+  }
+
+  /**
+   * Document counts from the "done dumping" lines of the last dump, keyed by
+   * database.collection
+   */
+  getReportedDocumentCounts(): Record<string, number> {
+    return { ...this.reportedDocumentCounts };
+  }
+
+  private recordDocumentCounts(output: string): void {
+    for (const match of output.matchAll(DONE_DUMPING_PATTERN)) {
+      this.reportedDocumentCounts[match[1]] = parseInt(match[2], 10);
+    }
+  }
+
+  /**
+   * Restores a single collection by piping a raw BSON document stream into
+   * mongorestore inside the container.
+   * @returns the number of documents mongorestore reported as restored
+   */
+  async restoreCollection(
+    database: string,
+    collection: string,
+    source: Readable,
+    drop: boolean = false
+  ): Promise<number> {
+    try {
+      const args = [
+        'exec', '-i', this.containerName,
+        'mongorestore',
+        `--uri=${this.mongoUri}`,
+        '--authenticationDatabase=admin',
+        `--db=${database}`,
+        `--collection=${collection}`,
+        ...(drop ? ['--drop'] : []),
+        '-'
+      ];
+
+      const restoredCount = await new Promise<number>((resolve, reject) => {
+        const child = spawn('docker', args, {
+          stdio: ['pipe', 'pipe', 'pipe']
+        });
+
+        let restored = 0;
+        let failed = 0;
+
+        const handleOutput = (data: Buffer) => {
+          const output = data.toString();
+          const match = output.match(/(\d+) document\(s\) restored successfully\. (\d+) document\(s\) failed/);
+          if (match) {
+            restored = parseInt(match[1], 10);
+            failed = parseInt(match[2], 10);
+          }
+          logger.info('Restore status:', { status: output.trim() });
+        };
+
+        child.stdout.on('data', handleOutput);
+        child.stderr.on('data', handleOutput);
+
+        pipeline(source, child.stdin, (error) => {
+          if (error) {
+            child.kill();
+            reject(error);
+          }
+        });
+
+        child.on('close', (code) => {
+          if (code !== 0) {
+            reject(new Error(`mongorestore failed with code ${code}`));
+          } else if (failed > 0) {
+            reject(new Error(`mongorestore failed to restore ${failed} documents`));
+          } else {
+            resolve(restored);
+          }
+        });
+
+        child.on('error', (err) => {
+          reject(err);
+        });
+      });
+
+      logger.info('Successfully restored collection', {
+        container: this.containerName,
+        database,
+        collection,
+        documents: restoredCount
+      });
+
+      return restoredCount;
+    } catch (error) {
+      logger.error('Failed to restore collection', {
+        error,
+        container: this.containerName,
+        database,
+        collection
+      });
+      throw new MongoError(
+        error instanceof Error ? error.message : 'Failed to restore collection'
+      );
+    }
+  }
+
+  /**
+   * Resolves when the server in the container answers a ping
+   */
+  async ping(): Promise<void> {
+    const output = await this.evaluate('print(db.adminCommand({ ping: 1 }).ok)');
+    if (output !== '1') {
+      throw new MongoError(`Unexpected ping reply: ${output}`);
+    }
+  }
+
+  async countDocuments(database: string, collection: string): Promise<number> {
+    const output = await this.evaluate(`print(${collectionExpression(database, collection)}.countDocuments())`);
+    const count = parseInt(output, 10);
+    if (isNaN(count)) {
+      throw new MongoError(`Unexpected count reply: ${output}`);
+    }
+    return count;
+  }
+
+  /**
+   * Returns up to `size` randomly chosen documents of a collection
+   */
+  async sampleDocuments(database: string, collection: string, size: number): Promise<Document[]> {
+    return this.evaluateDocuments(
+      `${collectionExpression(database, collection)}.aggregate([{ $sample: { size: ${size} } }]).toArray()`
+    );
+  }
+
+  async findDocumentsById(database: string, collection: string, ids: unknown[]): Promise<Document[]> {
+    const filter = JSON.stringify(EJSON.stringify({ _id: { $in: ids } }, { relaxed: false }));
+    return this.evaluateDocuments(
+      `${collectionExpression(database, collection)}.find(EJSON.parse(${filter})).toArray()`
+    );
+  }
+
+  private async evaluateDocuments(expression: string): Promise<Document[]> {
+    const output = await this.evaluate(`print(EJSON.stringify(${expression}, { relaxed: false }))`);
+    return EJSON.parse(output, { relaxed: false }) as Document[];
+  }
+
+  /**
+   * Replays oplog entries, a raw BSON stream, on top of restored collections
+   * with mongorestore --oplogReplay. The entries are staged as oplog.bson in
+   * an otherwise empty dump directory in the container.
+   * @param oplogLimit only entries before this `<seconds>[:<ordinal>]` timestamp are applied
+   */
+  async replayOplog(source: Readable, oplogLimit?: string): Promise<void> {
+    try {
+      await this.runInContainer(
+        ['sh', '-c', `rm -rf ${OPLOG_REPLAY_DIR} && mkdir -p ${OPLOG_REPLAY_DIR} && cat > ${OPLOG_REPLAY_DIR}/oplog.bson`],
+        source
+      );
+      try {
+        const { stderr } = await this.runInContainer([
+          'mongorestore',
+          `--uri=${this.mongoUri}`,
+          '--authenticationDatabase=admin',
+          '--oplogReplay',
+          ...(oplogLimit ? [`--oplogLimit=${oplogLimit}`] : []),
+          `--dir=${OPLOG_REPLAY_DIR}`
+        ]);
+        logger.info('Replayed oplog', { container: this.containerName, oplogLimit, status: stderr.trim() });
+      } finally {
+        await this.runInContainer(['rm', '-rf', OPLOG_REPLAY_DIR]).catch((error) => {
+          logger.warn('Failed to remove staged oplog', { container: this.containerName, error });
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to replay oplog', { error, container: this.containerName });
+      throw new MongoError(
+        error instanceof Error ? error.message : 'Failed to replay oplog'
+      );
+    }
+  }
+
+  /**
+   * Tails the cluster-wide change stream with mongosh, printing every event
+   * with the current version of the changed document. Runs until mongosh
+   * fails or the signal aborts it.
+   * @param resumeToken canonical Extended JSON token to start after, the stream starts now when unset
+   */
+  watchChanges(resumeToken?: string, signal?: AbortSignal): ChangeEventStream {
+    signal?.throwIfAborted();
+
+    const child = spawn('docker', [
+      'exec', this.containerName,
+      'mongosh', this.mongoUri,
+      '--authenticationDatabase=admin',
+      '--quiet',
+      '--eval', getWatchScript(resumeToken)
+    ], {
+      stdio: ['ignore', 'pipe', 'pipe'],
+      signal
+    });
+
+    let stderr = '';
+    child.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    const completed = new Promise<void>((resolve, reject) => {
+      child.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new MongoError(`mongosh failed with code ${code}: ${stderr.trim()}`));
+        }
+      });
+
+      child.on('error', (error) => {
+        reject(new MongoError(error.message));
+      });
+    });
+
+    return { events: child.stdout, completed };
+  }
+
+  /**
+   * Applies change events, canonical Extended JSON lines as written by
+   * watchChanges, in order. Writes carry the full document and are applied
+   * as upserting replaces, so replaying events that a snapshot already
+   * contains is harmless.
+   * @param untilSeconds events with a later cluster time are not applied
+   * @returns the number of events applied
+   */
+  async applyChanges(source: Readable, untilSeconds?: number): Promise<number> {
+    const replayDir = path.posix.dirname(CHANGE_REPLAY_FILE);
+    try {
+      await this.runInContainer(
+        ['sh', '-c', `rm -rf ${replayDir} && mkdir -p ${replayDir} && cat > ${CHANGE_REPLAY_FILE}`],
+        source
+      );
+      try {
+        return parseInt(await this.evaluate(getApplyChangesScript(untilSeconds)), 10);
+      } finally {
+        await this.runInContainer(['rm', '-rf', replayDir]).catch((error) => {
+          logger.warn('Failed to remove staged change events', { container: this.containerName, error });
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to apply change events', { error, container: this.containerName });
+      throw new MongoError(
+        error instanceof Error ? error.message : 'Failed to apply change events'
+      );
+    }
+  }
+
+  /**
+   * Runs a script with mongosh in the container and returns what it printed.
+   * Arguments are passed without a shell, so the script needs no quoting.
+   */
+  private async evaluate(script: string): Promise<string> {
+    try {
+      const { stdout } = await this.runInContainer([
+        'mongosh', this.mongoUri,
+        '--authenticationDatabase=admin',
+        '--quiet',
+        '--eval', script
+      ]);
+      return stdout.trim();
+    } catch (error) {
+      throw new MongoError(
+        error instanceof Error ? error.message : 'Failed to run mongosh'
+      );
+    }
+  }
+
+  /**
+   * Runs a command with docker exec, feeding it `input` on stdin when given
+   */
+  private runInContainer(command: string[], input?: Readable): Promise<{ stdout: string; stderr: string }> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('docker', ['exec', ...(input ? ['-i'] : []), this.containerName, ...command], {
+        stdio: ['pipe', 'pipe', 'pipe']
+      });
+
+      let stdout = '';
+      let stderr = '';
+      child.stdout.on('data', (data) => {
+        stdout += data.toString();
+      });
+      child.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      if (input) {
+        pipeline(input, child.stdin, (error) => {
+          if (error) {
+            child.kill();
+            reject(error);
+          }
+        });
+      } else {
+        child.stdin.end();
+      }
+
+      child.on('close', (code) => {
+        if (code === 0) {
+          resolve({ stdout, stderr });
+        } else {
+          reject(new Error(`${command[0]} failed with code ${code}: ${stderr.trim()}`));
+        }
+      });
+
+      child.on('error', (error) => {
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Returns the version reported by the mongodump binary in the container
+   */
+  async getDumpVersion(): Promise<string> {
+    try {
+      const { stdout } = await execAsync(`docker exec ${this.containerName} mongodump --version`);
+      const match = stdout.match(/mongodump version:\s*(\S+)/);
+      return match ? match[1] : stdout.split('\n')[0].trim();
+    } catch (error) {
+      logger.error('Failed to get mongodump version', { error });
+      throw new MongoError(
+        error instanceof Error ? error.message : 'Failed to get mongodump version'
+      );
+    }
+  }
+
+  /**
+   * Returns the MongoDB URI with credentials hidden, safe for logs and manifests
+   */
+  getMaskedUri(): string {
+    return this.mongoUri.replace(/\/\/[^:]+:[^@]+@/, '//****:****@');
+  }
+
   async listDumps(): Promise<string[]> {
     try {
       const { stdout } = await execAsync(`ls ${this.outputDir}/*.bson`);
@@ -152,4 +572,58 @@ export class MongoService {
       );
     }
   }
-} 
\ No newline at end of file
+}
+
+function collectionExpression(database: string, collection: string): string {
+  return `db.getSiblingDB(${JSON.stringify(database)}).getCollection(${JSON.stringify(collection)})`;
+}
+
+function getMongodumpArgs(options: DumpOptions): string[] {
+  return options.oplog ? ['--oplog'] : getDumpArgs(options.filter);
+}
+
+function getWatchScript(resumeToken?: string): string {
+  const options = resumeToken
+    ? `{ fullDocument: 'updateLookup', startAfter: EJSON.parse(${JSON.stringify(resumeToken)}) }`
+    : `{ fullDocument: 'updateLookup' }`;
+  return [
+    `const stream = db.getMongo().watch([], ${options});`,
+    'while (!stream.isClosed()) {',
+    '  const event = stream.tryNext();',
+    `  if (event) print(EJSON.stringify(event, { relaxed: false })); else sleep(${WATCH_POLL_INTERVAL_MS});`,
+    '}'
+  ].join('\n');
+}
+
+/**
+ * Updates whose document was deleted before it could be looked up carry no
+ * document; the delete that follows them is applied instead
+ */
+function getApplyChangesScript(untilSeconds?: number): string {
+  return [
+    `const until = ${untilSeconds ?? 'null'};`,
+    'let applied = 0;',
+    `for (const line of require('fs').readFileSync(${JSON.stringify(CHANGE_REPLAY_FILE)}, 'utf8').split('\\n')) {`,
+    '  if (!line) continue;',
+    '  const event = EJSON.parse(line, { relaxed: false });',
+    '  if (until !== null && event.clusterTime.getHighBits() > until) break;',
+    '  const database = db.getSiblingDB(event.ns.db);',
+    '  const collection = event.ns.coll === undefined ? null : database.getCollection(event.ns.coll);',
+    '  switch (event.operationType) {',
+    "    case 'insert': case 'replace': case 'update':",
+    '      if (!event.fullDocument) continue;',
+    '      collection.replaceOne(event.documentKey, event.fullDocument, { upsert: true });',
+    '      break;',
+    "    case 'delete': collection.deleteOne(event.documentKey); break;",
+    "    case 'drop': collection.drop(); break;",
+    "    case 'dropDatabase': database.dropDatabase(); break;",
+    "    case 'rename':",
+    "      db.adminCommand({ renameCollection: event.ns.db + '.' + event.ns.coll, to: event.to.db + '.' + event.to.coll, dropTarget: true });",
+    '      break;',
+    '    default: continue;',
+    '  }',
+    '  applied++;',
+    '}',
+    'print(applied);'
+  ].join('\n');
+}
@@ -0,0 +1,278 @@
+import { Readable, Transform } from 'stream';
+import { MongoService } from './mongo.service';
+import { SnapshotService } from './snapshot.service';
+import { JsonlToBsonTransform } from '../utils/bson.util';
+import { DecryptTransform } from '../utils/crypto.util';
+import { createDecompressStream, isCodecAvailable } from '../utils/compression.util';
+import logger from '../utils/logger.util';
+import { CollectionRestoreResult, RestoreOptions } from '../types/restore.types';
+import { ManifestCollection, ManifestPart, SnapshotManifest } from '../types/manifest.types';
+import { ChangeSegment } from '../types/changes.types';
+import { Keyring } from '../types/crypto.types';
+import { StorageBackend } from '../types/storage.types';
+
+export class RestoreError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'RestoreError';
+  }
+}
+
+export class RestoreService {
+  constructor(
+    private readonly mongoService: MongoService,
+    private readonly storage: StorageBackend,
+    private readonly snapshotService: SnapshotService,
+    private readonly keyring: Keyring = {}
+  ) {}
+
+  /**
+   * Restores the snapshot's collections, then replays its oplog or the
+   * change segments when asked to. The signal stops the restore before the
+   * next collection, part or segment.
+   */
+  async restore(options: RestoreOptions, signal?: AbortSignal): Promise<CollectionRestoreResult[]> {
+    try {
+      const manifest = await this.snapshotService.getManifest(options.snapshotId);
+      if (options.oplogLimit && !options.oplogReplay) {
+        throw new RestoreError('An oplog limit needs oplog replay');
+      }
+      if (options.changesUntil && !options.replayChanges) {
+        throw new RestoreError('A change limit needs change replay');
+      }
+      // The oplog and the change segments cover every namespace under its original database name
+      if (
+        (options.oplogReplay || options.replayChanges) &&
+        (options.databases?.length || options.collections?.length || options.targetDatabase)
+      ) {
+        throw new RestoreError('Oplog and change replay restore the whole snapshot, they cannot be combined with database, collection or target database filters');
+      }
+      if (options.oplogReplay && !manifest.oplog) {
+        throw new RestoreError(`Snapshot ${options.snapshotId} was taken without an oplog`);
+      }
+      const segments = options.replayChanges ? await this.getChangeSegments(manifest, options.changesUntil) : [];
+      const collections = manifest.collections.filter(entry =>
+        (!options.databases?.length || options.databases.includes(entry.database)) &&
+        (!options.collections?.length ||
+          options.collections.includes(entry.collection) ||
+          options.collections.includes(`${entry.database}.${entry.collection}`))
+      );
+
+      if (collections.length === 0) {
+        throw new RestoreError(`No matching collections found in snapshot ${options.snapshotId}`);
+      }
+
+      logger.info('Starting restore', {
+        snapshotId: options.snapshotId,
+        targetDatabase: options.targetDatabase,
+        collections: collections.map(entry => `${entry.database}.${entry.collection}`)
+      });
+
+      const results: CollectionRestoreResult[] = [];
+      for (const entry of collections) {
+        signal?.throwIfAborted();
+        results.push(await this.restoreCollection(entry, options, signal));
+      }
+
+      if (options.oplogReplay && manifest.oplog) {
+        logger.info('Replaying oplog', {
+          snapshotId: options.snapshotId,
+          entries: manifest.oplog.documentCount,
+          oplogLimit: options.oplogLimit
+        });
+        signal?.throwIfAborted();
+        const source = Readable.from(this.readParts(manifest.oplog.parts, options.batchSize, () => undefined, signal));
+        await this.mongoService.replayOplog(source, options.oplogLimit);
+      }
+
+      if (segments.length) {
+        await this.replayChanges(segments, options.changesUntil, signal);
+      }
+
+      logger.info('Completed restore', {
+        snapshotId: options.snapshotId,
+        collections: results.map(result => ({
+          collection: `${result.targetDatabase}.${result.collection}`,
+          parts: result.parts,
+          documents: result.documentsRestored
+        })),
+        totalDocuments: results.reduce((sum, result) => sum + result.documentsRestored, 0)
+      });
+
+      return results;
+    } catch (error) {
+      logger.error('Failed to perform restore', { error });
+      throw new RestoreError(
+        error instanceof Error ? error.message : 'Failed to perform restore'
+      );
+    }
+  }
+
+  private async restoreCollection(
+    entry: ManifestCollection,
+    options: RestoreOptions,
+    signal?: AbortSignal
+  ): Promise<CollectionRestoreResult> {
+    const startTime = Date.now();
+    const targetDatabase = options.targetDatabase || entry.database;
+
+    logger.info('Restoring collection', {
+      database: entry.database,
+      collection: entry.collection,
+      targetDatabase,
+      parts: entry.parts.length
+    });
+
+    let documentsRead = 0;
+    const source = Readable.from(this.readParts(entry.parts, options.batchSize, (documents) => {
+      documentsRead += documents;
+    }, signal));
+
+    const documentsRestored = await this.mongoService.restoreCollection(
+      targetDatabase,
+      entry.collection,
+      source,
+      options.drop
+    );
+
+    if (documentsRestored !== documentsRead || documentsRead !== entry.documentCount) {
+      logger.warn('Restored document count does not match backup', {
+        database: entry.database,
+        collection: entry.collection,
+        documentsExpected: entry.documentCount,
+        documentsRead,
+        documentsRestored
+      });
+    }
+
+    const result = {
+      database: entry.database,
+      collection: entry.collection,
+      targetDatabase,
+      parts: entry.parts.length,
+      documentsExpected: entry.documentCount,
+      documentsRead,
+      documentsRestored,
+      durationMs: Date.now() - startTime
+    };
+
+    logger.info('Restored collection', result);
+    return result;
+  }
+
+  /**
+   * Picks the change segments that cover the time from the snapshot's start
+   * up to `until` and checks that they chain without gaps
+   */
+  private async getChangeSegments(manifest: SnapshotManifest, until?: string): Promise<ChangeSegment[]> {
+    const segments = (await this.snapshotService.listChangeSegments(manifest.startedAt)).filter(segment =>
+      segment.endedAt >= manifest.startedAt && (!until || segment.startedAt <= until)
+    );
+
+    if (segments.length === 0) {
+      logger.warn('No change segments were captured after the snapshot, there are no changes to replay', {
+        snapshotId: manifest.snapshotId
+      });
+      return [];
+    }
+    if (segments[0].startedAt > manifest.startedAt) {
+      throw new RestoreError(
+        `Change segments only start at ${segments[0].startedAt}, after snapshot ${manifest.snapshotId} began`
+      );
+    }
+    for (let index = 1; index < segments.length; index++) {
+      if (segments[index].previousResumeToken !== segments[index - 1].resumeToken) {
+        throw new RestoreError(
+          `Change events between segments ${segments[index - 1].segmentId} and ${segments[index].segmentId} are missing`
+        );
+      }
+    }
+    return segments;
+  }
+
+  /**
+   * Applies change segments one after another on top of the restored
+   * snapshot. Events captured while the dump ran are applied again, which
+   * leaves the same documents behind.
+   */
+  private async replayChanges(segments: ChangeSegment[], until?: string, signal?: AbortSignal): Promise<void> {
+    const untilSeconds = until ? Math.floor(new Date(until).getTime() / 1000) : undefined;
+    logger.info('Replaying changes', {
+      segments: segments.length,
+      from: segments[0].startedAt,
+      until: until ?? segments[segments.length - 1].endedAt
+    });
+
+    let applied = 0;
+    for (const segment of segments) {
+      signal?.throwIfAborted();
+      applied += await this.mongoService.applyChanges(await this.openPart(segment.part), untilSeconds);
+    }
+    logger.info('Replayed changes', { segments: segments.length, events: applied });
+  }
+
+  /**
+   * Downloads parts one after another, decrypting and decompressing them as
+   * recorded in the manifest, and yields
+   * batches of BSON documents
+   */
+  private async *readParts(
+    parts: ManifestPart[],
+    batchSize: number | undefined,
+    onPartRead: (documents: number) => void,
+    signal?: AbortSignal
+  ): AsyncGenerator<Buffer> {
+    for (const [index, part] of parts.entries()) {
+      signal?.throwIfAborted();
+      const source = await this.openPart(part);
+      const jsonlToBson = new JsonlToBsonTransform(batchSize);
+
+      for await (const batch of pipeWithErrors(source, jsonlToBson)) {
+        yield batch;
+      }
+
+      onPartRead(jsonlToBson.getDocumentCount());
+      logger.info(`Restored part ${index + 1} of ${parts.length}`, {
+        fileName: part.fileName,
+        documents: jsonlToBson.getDocumentCount(),
+        expectedDocuments: part.documentCount
+      });
+    }
+  }
+
+  /**
+   * Downloads a part as JSONL text, decrypting and decompressing it as
+   * recorded in the manifest
+   */
+  private async openPart(part: ManifestPart): Promise<Readable> {
+    if (part.encryptionKeyId && !this.keyring[part.encryptionKeyId]) {
+      throw new RestoreError(
+        `Part ${part.fileName} is encrypted with key ${part.encryptionKeyId}, which is not in the keyring`
+      );
+    }
+
+    if (part.compression && !isCodecAvailable(part.compression)) {
+      throw new RestoreError(
+        `Part ${part.fileName} is compressed with ${part.compression}, which this Node.js version cannot decompress`
+      );
+    }
+
+    let source: Readable = await this.storage.downloadFile(part.fileName);
+    if (part.encryptionKeyId) {
+      source = pipeWithErrors(source, new DecryptTransform(this.keyring));
+    }
+    if (part.compression && part.compression !== 'none') {
+      source = pipeWithErrors(source, createDecompressStream(part.compression));
+    }
+    return source;
+  }
+}
+
+/**
+ * Pipes source into destination and forwards source errors, which pipe()
+ * does not do on its own
+ */
+function pipeWithErrors<T extends Transform>(source: Readable, destination: T): T {
+  source.on('error', (error) => destination.destroy(error));
+  return source.pipe(destination);
+}
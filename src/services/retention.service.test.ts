@@ -0,0 +1,134 @@
+import { RetentionService, RetentionError } from './retention.service';
+import { B2Service } from './b2.service';
+import { SnapshotService } from './snapshot.service';
+import { StoredFile } from '../types/storage.types';
+import { SnapshotManifest } from '../types/manifest.types';
+import { ChangeSegment } from '../types/changes.types';
+
+jest.mock('./b2.service');
+jest.mock('./snapshot.service');
+jest.mock('../utils/logger.util', () => ({
+  info: jest.fn(),
+  error: jest.fn()
+}));
+
+describe('RetentionService', () => {
+  let retentionService: RetentionService;
+  let mockB2Service: jest.Mocked<B2Service>;
+  let mockSnapshotService: jest.Mocked<SnapshotService>;
+
+  const policy = { keepLast: 1, keepDaily: 2, keepWeekly: 0, keepMonthly: 0 };
+
+  const remoteFile = (fileName: string): StoredFile => ({
+    fileName,
+    fileId: `id-${fileName}`,
+    contentLength: 100,
+    contentSha1: 'hash',
+    uploadTimestamp: 1234567890
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockB2Service = new B2Service('test-key-id', 'test-key', 'test-bucket') as jest.Mocked<B2Service>;
+    mockSnapshotService = new SnapshotService(mockB2Service) as jest.Mocked<SnapshotService>;
+    retentionService = new RetentionService(mockB2Service, mockSnapshotService);
+
+    mockSnapshotService.listSnapshots.mockResolvedValue([
+      { snapshotId: '2024-03-11T12-00-00-000Z', complete: true },
+      { snapshotId: '2024-03-12T00-00-00-000Z', complete: false },
+      { snapshotId: '2024-03-12T12-00-00-000Z', complete: true },
+      { snapshotId: '2024-03-13T12-00-00-000Z', complete: true },
+      { snapshotId: '2024-03-14T00-00-00-000Z', complete: false }
+    ]);
+    mockSnapshotService.getManifest.mockImplementation(async (snapshotId: string) => ({
+      snapshotId,
+      startedAt: snapshotId.replace(/T(\d+)-(\d+)-(\d+)-(\d+)Z/, 'T$1:$2:$3.$4Z')
+    } as SnapshotManifest));
+    mockB2Service.listExistingFiles.mockImplementation(async (prefix?: string) => [
+      remoteFile(`${prefix}app/users/users.jsonl.part1`),
+      remoteFile(`${prefix}manifest.json`)
+    ]);
+    mockB2Service.deleteFile.mockResolvedValue();
+    mockSnapshotService.listChangeSegments.mockResolvedValue([]);
+  });
+
+  test('should report expired and abandoned snapshots without deleting on dry run', async () => {
+    const report = await retentionService.prune(policy, true);
+
+    expect(report.dryRun).toBe(true);
+    expect(report.kept.map(entry => entry.snapshotId)).toEqual([
+      '2024-03-13T12-00-00-000Z',
+      '2024-03-12T12-00-00-000Z'
+    ]);
+    expect(report.pruned).toEqual([
+      expect.objectContaining({ snapshotId: '2024-03-11T12-00-00-000Z', complete: true, files: 2, bytes: 200 }),
+      expect.objectContaining({ snapshotId: '2024-03-12T00-00-00-000Z', complete: false, createdAt: null })
+    ]);
+    expect(mockB2Service.deleteFile).not.toHaveBeenCalled();
+  });
+
+  test('should delete every file of a pruned snapshot, manifest first', async () => {
+    await retentionService.prune(policy);
+
+    expect(mockB2Service.listExistingFiles).toHaveBeenCalledWith('snapshots/2024-03-11T12-00-00-000Z/', true);
+    expect(mockB2Service.deleteFile.mock.calls.slice(0, 2)).toEqual([
+      ['snapshots/2024-03-11T12-00-00-000Z/manifest.json', 'id-snapshots/2024-03-11T12-00-00-000Z/manifest.json'],
+      [
+        'snapshots/2024-03-11T12-00-00-000Z/app/users/users.jsonl.part1',
+        'id-snapshots/2024-03-11T12-00-00-000Z/app/users/users.jsonl.part1'
+      ]
+    ]);
+    expect(mockB2Service.deleteFile).toHaveBeenCalledTimes(4);
+  });
+
+  test('should prune change segments that end before the oldest kept snapshot, segment.json first', async () => {
+    mockSnapshotService.listChangeSegments.mockResolvedValue([
+      { segmentId: '2024-03-12T00-00-00-000Z', startedAt: '2024-03-12T00:00:00.000Z', endedAt: '2024-03-12T06:00:00.000Z' },
+      { segmentId: '2024-03-12T06-00-00-000Z', startedAt: '2024-03-12T06:00:00.000Z', endedAt: '2024-03-12T18:00:00.000Z' }
+    ] as ChangeSegment[]);
+    mockB2Service.listExistingFiles.mockImplementation(async (prefix?: string) =>
+      prefix?.startsWith('changes/')
+        ? [remoteFile(`${prefix}changes.jsonl.part1`), remoteFile(`${prefix}segment.json`)]
+        : [remoteFile(`${prefix}app/users/users.jsonl.part1`), remoteFile(`${prefix}manifest.json`)]
+    );
+
+    const dryRun = await retentionService.prune(policy, true);
+
+    expect(mockSnapshotService.listChangeSegments).toHaveBeenCalledWith(undefined, '2024-03-12T12:00:00.000Z');
+    expect(dryRun.prunedSegments).toEqual([
+      {
+        segmentId: '2024-03-12T00-00-00-000Z',
+        startedAt: '2024-03-12T00:00:00.000Z',
+        endedAt: '2024-03-12T06:00:00.000Z',
+        files: 2,
+        bytes: 200
+      }
+    ]);
+    expect(mockB2Service.deleteFile).not.toHaveBeenCalled();
+
+    await retentionService.prune(policy);
+
+    const deleted = mockB2Service.deleteFile.mock.calls.map(([fileName]) => fileName);
+    expect(deleted.filter(fileName => fileName.startsWith('changes/'))).toEqual([
+      'changes/2024-03-12T00-00-00-000Z/segment.json',
+      'changes/2024-03-12T00-00-00-000Z/changes.jsonl.part1'
+    ]);
+  });
+
+  test('should never prune an incomplete snapshot newer than the latest complete one', async () => {
+    const report = await retentionService.prune(policy, true);
+
+    expect(report.pruned.map(entry => entry.snapshotId)).not.toContain('2024-03-14T00-00-00-000Z');
+  });
+
+  test('should refuse a policy that keeps nothing', async () => {
+    await expect(retentionService.prune({ ...policy, keepLast: 0 })).rejects.toThrow(RetentionError);
+    expect(mockSnapshotService.listSnapshots).not.toHaveBeenCalled();
+  });
+
+  test('should wrap failures in RetentionError', async () => {
+    mockB2Service.deleteFile.mockRejectedValue(new Error('Delete failed'));
+
+    await expect(retentionService.prune(policy)).rejects.toThrow(RetentionError);
+  });
+});
@@ -0,0 +1,160 @@
+import { SnapshotService } from './snapshot.service';
+import logger from '../utils/logger.util';
+import { applyRetentionPolicy } from '../utils/retention.util';
+import {
+  getChangeSegmentFileName,
+  getChangeSegmentPrefix,
+  getManifestFileName,
+  getSnapshotPrefix
+} from '../utils/snapshot.util';
+import { StorageBackend, StoredFile } from '../types/storage.types';
+import {
+  DatedSnapshot,
+  PrunedChangeSegment,
+  PrunedSnapshot,
+  RetentionPolicy,
+  RetentionReport
+} from '../types/retention.types';
+
+export class RetentionError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'RetentionError';
+  }
+}
+
+export class RetentionService {
+  constructor(
+    private readonly storage: StorageBackend,
+    private readonly snapshotService: SnapshotService
+  ) {}
+
+  /**
+   * Deletes snapshots that fall outside the retention policy. Incomplete
+   * snapshots (no manifest) older than the newest complete one are leftovers
+   * of failed runs and are pruned as well; newer ones may still be uploading.
+   * Change segments that ended before the oldest kept snapshot started can
+   * no longer be replayed and are deleted with them.
+   * With dryRun nothing is deleted and the report lists what would be removed.
+   */
+  async prune(policy: RetentionPolicy, dryRun: boolean = false): Promise<RetentionReport> {
+    if (policy.keepLast < 1) {
+      throw new RetentionError('Retention policy must keep at least the latest snapshot');
+    }
+
+    try {
+      const snapshots = await this.snapshotService.listSnapshots();
+      const lastCompleteIndex = snapshots.map(snapshot => snapshot.complete).lastIndexOf(true);
+
+      const complete: DatedSnapshot[] = [];
+      for (const snapshot of snapshots.filter(snapshot => snapshot.complete)) {
+        const manifest = await this.snapshotService.getManifest(snapshot.snapshotId);
+        complete.push({ snapshotId: snapshot.snapshotId, createdAt: new Date(manifest.startedAt) });
+      }
+
+      const { kept, expired } = applyRetentionPolicy(complete, policy);
+      const abandoned = snapshots
+        .slice(0, Math.max(lastCompleteIndex, 0))
+        .filter(snapshot => !snapshot.complete);
+
+      const pruned: PrunedSnapshot[] = [];
+      for (const snapshot of [
+        ...expired.map(entry => ({ ...entry, complete: true })),
+        ...abandoned.map(entry => ({ snapshotId: entry.snapshotId, createdAt: null, complete: false }))
+      ]) {
+        const files = await this.storage.listExistingFiles(getSnapshotPrefix(snapshot.snapshotId), true);
+        if (!dryRun) {
+          await this.deleteSnapshot(snapshot.snapshotId, files);
+        }
+        pruned.push({
+          ...snapshot,
+          files: files.length,
+          bytes: files.reduce((sum, file) => sum + file.contentLength, 0)
+        });
+      }
+
+      const prunedSegments = await this.pruneChangeSegments(kept, dryRun);
+      const report: RetentionReport = { dryRun, policy, kept, pruned, prunedSegments };
+
+      logger.info(dryRun ? 'Retention dry run: snapshots that would be pruned' : 'Pruned expired snapshots', {
+        policy,
+        kept: kept.map(snapshot => `${snapshot.snapshotId} (${snapshot.reasons.join(', ')})`),
+        pruned: pruned.map(snapshot => snapshot.snapshotId),
+        prunedSegments: prunedSegments.length,
+        bytes: [...pruned, ...prunedSegments].reduce((sum, entry) => sum + entry.bytes, 0)
+      });
+
+      return report;
+    } catch (error) {
+      logger.error('Failed to apply retention policy', { error });
+      throw new RetentionError(
+        error instanceof Error ? error.message : 'Failed to apply retention policy'
+      );
+    }
+  }
+
+  /**
+   * Deletes the change segments that end before the oldest kept snapshot
+   * starts, since restores only replay segments from a snapshot's start on
+   */
+  private async pruneChangeSegments(kept: DatedSnapshot[], dryRun: boolean): Promise<PrunedChangeSegment[]> {
+    if (kept.length === 0) {
+      return [];
+    }
+
+    const oldestKept = new Date(Math.min(...kept.map(snapshot => snapshot.createdAt.getTime()))).toISOString();
+    const segments = await this.snapshotService.listChangeSegments(undefined, oldestKept);
+
+    const pruned: PrunedChangeSegment[] = [];
+    for (const segment of segments.filter(segment => new Date(segment.endedAt).toISOString() < oldestKept)) {
+      const files = await this.storage.listExistingFiles(getChangeSegmentPrefix(segment.segmentId), true);
+      if (!dryRun) {
+        await this.deleteChangeSegment(segment.segmentId, files);
+      }
+      pruned.push({
+        segmentId: segment.segmentId,
+        startedAt: segment.startedAt,
+        endedAt: segment.endedAt,
+        files: files.length,
+        bytes: files.reduce((sum, file) => sum + file.contentLength, 0)
+      });
+    }
+    return pruned;
+  }
+
+  /**
+   * Deletes segment.json first, like the manifest of a snapshot, so a
+   * partially deleted segment is no longer listed
+   */
+  private async deleteChangeSegment(segmentId: string, files: StoredFile[]): Promise<void> {
+    const segmentFileName = getChangeSegmentFileName(segmentId);
+    const ordered = [
+      ...files.filter(file => file.fileName === segmentFileName),
+      ...files.filter(file => file.fileName !== segmentFileName)
+    ];
+
+    for (const file of ordered) {
+      await this.storage.deleteFile(file.fileName, file.fileId);
+    }
+
+    logger.info('Deleted change segment', { segmentId, files: files.length });
+  }
+
+  /**
+   * Deletes the manifest first so a partially deleted snapshot is never
+   * mistaken for a complete one
+   */
+  private async deleteSnapshot(snapshotId: string, files: StoredFile[]): Promise<void> {
+    const manifestName = getManifestFileName(snapshotId);
+    const ordered = [
+      ...files.filter(file => file.fileName === manifestName),
+      ...files.filter(file => file.fileName !== manifestName)
+    ];
+
+    for (const file of ordered) {
+      await this.storage.deleteFile(file.fileName, file.fileId);
+    }
+
+    logger.info('Deleted snapshot', { snapshotId, files: files.length });
+  }
+}
@@ -0,0 +1,247 @@
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { hostname, tmpdir } from 'os';
+import { rename } from 'fs/promises';
+import path from 'path';
+import { RunCoordinatorService } from './run-coordinator.service';
+import { Config } from '../types/config.types';
+
+jest.mock('fs/promises', () => {
+  const actual = jest.requireActual('fs/promises');
+  return { ...actual, rename: jest.fn(actual.rename) };
+});
+jest.mock('../utils/logger.util', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn()
+}));
+
+describe('RunCoordinatorService', () => {
+  let tempDir: string;
+  let options: Config['run'];
+
+  // A job that runs until released, resolving with the given value
+  const controllableJob = <T>(value: T) => {
+    let release!: () => void;
+    const released = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const job = jest.fn(async (signal: AbortSignal) => {
+      await Promise.race([
+        released,
+        new Promise((resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason)))
+      ]);
+      return value;
+    });
+    return { job, release };
+  };
+
+  // The job starts once the lock file has been written
+  const waitForStart = async (job: jest.Mock) => {
+    for (let attempt = 0; attempt < 1000 && job.mock.calls.length === 0; attempt++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  };
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'run-coordinator-test-'));
+    options = {
+      overlap: 'skip',
+      lockFile: path.join(tempDir, 'state', 'backup.lock'),
+      shutdownTimeout: 1000
+    };
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should hold the lock file while a run is in progress', async () => {
+    const coordinator = new RunCoordinatorService(options);
+    const { job, release } = controllableJob('done');
+
+    const run = coordinator.run('scheduled', job);
+    await waitForStart(job);
+
+    expect(JSON.parse(readFileSync(options.lockFile, 'utf8'))).toMatchObject({
+      pid: process.pid,
+      hostname: hostname(),
+      trigger: 'scheduled'
+    });
+    expect(coordinator.isRunning()).toBe(true);
+
+    release();
+    await expect(run).resolves.toEqual({ status: 'completed', result: 'done' });
+    expect(existsSync(options.lockFile)).toBe(false);
+    expect(coordinator.isRunning()).toBe(false);
+  });
+
+  test('should skip overlapping triggers with the skip policy', async () => {
+    const coordinator = new RunCoordinatorService(options);
+    const first = controllableJob('first');
+    const second = jest.fn();
+
+    const run = coordinator.run('scheduled', first.job);
+
+    await expect(coordinator.run('cli', second)).resolves.toEqual({
+      status: 'skipped',
+      reason: 'a scheduled backup is already running'
+    });
+    expect(second).not.toHaveBeenCalled();
+
+    first.release();
+    await run;
+  });
+
+  test('should queue one overlapping trigger with the queue policy', async () => {
+    const coordinator = new RunCoordinatorService({ ...options, overlap: 'queue' });
+    const first = controllableJob('first');
+    const order: string[] = [];
+    first.job.mockImplementationOnce(async () => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      order.push('first');
+      return 'first';
+    });
+
+    const runs = [
+      coordinator.run('scheduled', first.job),
+      coordinator.run('cli', async () => {
+        order.push('second');
+        return 'second';
+      }),
+      coordinator.run('cli', async () => 'third')
+    ];
+
+    await expect(Promise.all(runs)).resolves.toEqual([
+      { status: 'completed', result: 'first' },
+      { status: 'completed', result: 'second' },
+      { status: 'skipped', reason: 'a backup is already queued' }
+    ]);
+    expect(order).toEqual(['first', 'second']);
+  });
+
+  test('should skip when another live process holds the lock', async () => {
+    const coordinator = new RunCoordinatorService(options);
+    const job = jest.fn();
+    mkdirSync(path.dirname(options.lockFile));
+    // The parent process of the test runner is alive and is not us
+    writeFileSync(options.lockFile, JSON.stringify({
+      pid: process.ppid,
+      hostname: hostname(),
+      trigger: 'cli',
+      startedAt: '2024-03-14T12:00:00.000Z'
+    }));
+
+    const outcome = await coordinator.run('scheduled', job);
+
+    expect(outcome).toEqual({
+      status: 'skipped',
+      reason: `backup lock is held by pid ${process.ppid} on ${hostname()} since 2024-03-14T12:00:00.000Z`
+    });
+    expect(job).not.toHaveBeenCalled();
+    expect(existsSync(options.lockFile)).toBe(true);
+  });
+
+  test('should take over a stale lock left by a previous run of this process', async () => {
+    const coordinator = new RunCoordinatorService(options);
+    mkdirSync(path.dirname(options.lockFile));
+    writeFileSync(options.lockFile, JSON.stringify({
+      pid: process.pid,
+      hostname: hostname(),
+      trigger: 'scheduled',
+      startedAt: '2024-03-14T12:00:00.000Z'
+    }));
+
+    await expect(coordinator.run('scheduled', async () => 'done')).resolves.toEqual({
+      status: 'completed',
+      result: 'done'
+    });
+  });
+
+  test('should not take over a lock held by another run of this process', async () => {
+    const scheduler = new RunCoordinatorService(options);
+    const drill = new RunCoordinatorService(options);
+    const { job, release } = controllableJob('done');
+    const running = scheduler.run('scheduled', job);
+    await waitForStart(job);
+
+    await expect(drill.run('drill', async () => 'drilled')).resolves.toEqual({
+      status: 'skipped',
+      reason: expect.stringMatching(new RegExp(`^backup lock is held by pid ${process.pid} on `))
+    });
+    expect(existsSync(options.lockFile)).toBe(true);
+
+    release();
+    await expect(running).resolves.toEqual({ status: 'completed', result: 'done' });
+    await expect(drill.run('drill', async () => 'drilled')).resolves.toEqual({ status: 'completed', result: 'drilled' });
+  });
+
+  test('should put back a lock another process wrote while the stale one was being removed', async () => {
+    const coordinator = new RunCoordinatorService(options);
+    const job = jest.fn(async () => 'done');
+    mkdirSync(path.dirname(options.lockFile));
+    const staleLock = { pid: process.pid, hostname: hostname(), trigger: 'scheduled', startedAt: '2024-03-14T12:00:00.000Z' };
+    const freshLock = { pid: process.ppid, hostname: hostname(), trigger: 'cli', startedAt: '2024-03-14T13:00:00.000Z' };
+    writeFileSync(options.lockFile, JSON.stringify(staleLock));
+    // The other process takes the stale lock over between our read and our rename
+    const actualRename = jest.requireActual('fs/promises').rename;
+    (rename as jest.Mock).mockImplementationOnce(async (from: string, to: string) => {
+      writeFileSync(options.lockFile, JSON.stringify(freshLock));
+      return actualRename(from, to);
+    });
+
+    await expect(coordinator.run('scheduled', job)).resolves.toEqual({
+      status: 'skipped',
+      reason: `backup lock ${options.lockFile} was taken over by another process`
+    });
+    expect(job).not.toHaveBeenCalled();
+    expect(JSON.parse(readFileSync(options.lockFile, 'utf8'))).toEqual(freshLock);
+    expect(readdirSync(path.dirname(options.lockFile))).toEqual(['backup.lock']);
+  });
+
+  test('should treat a lock that cannot be parsed as held until it is old', async () => {
+    const coordinator = new RunCoordinatorService(options);
+    const job = jest.fn(async () => 'done');
+    mkdirSync(path.dirname(options.lockFile));
+    writeFileSync(options.lockFile, '{"pid": 12');
+
+    await expect(coordinator.run('scheduled', job)).resolves.toEqual({
+      status: 'skipped',
+      reason: `backup lock ${options.lockFile} is being written by another process`
+    });
+    expect(job).not.toHaveBeenCalled();
+
+    const longAgo = new Date(Date.now() - 2 * 60 * 1000);
+    utimesSync(options.lockFile, longAgo, longAgo);
+    await expect(coordinator.run('scheduled', job)).resolves.toEqual({ status: 'completed', result: 'done' });
+    expect(readdirSync(path.dirname(options.lockFile))).toEqual([]);
+  });
+
+  test('should wait for the running backup on shutdown', async () => {
+    const coordinator = new RunCoordinatorService(options);
+    const { job, release } = controllableJob('done');
+    const run = coordinator.run('scheduled', job);
+    await waitForStart(job);
+
+    const shutdown = coordinator.shutdown();
+    setTimeout(release, 20);
+    await shutdown;
+
+    await expect(run).resolves.toEqual({ status: 'completed', result: 'done' });
+    await expect(coordinator.run('cli', jest.fn())).resolves.toEqual({
+      status: 'skipped',
+      reason: 'shutting down'
+    });
+  });
+
+  test('should abort the running backup when shutdown times out', async () => {
+    const coordinator = new RunCoordinatorService({ ...options, shutdownTimeout: 20 });
+    const { job } = controllableJob('done');
+    const run = coordinator.run('scheduled', job);
+    await waitForStart(job);
+
+    await coordinator.shutdown();
+
+    await expect(run).rejects.toThrow('Backup aborted');
+    expect(existsSync(options.lockFile)).toBe(false);
+  });
+});
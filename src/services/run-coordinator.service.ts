@@ -0,0 +1,303 @@
+import { randomUUID } from 'crypto';
+import { link, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import { hostname } from 'os';
+import path from 'path';
+import logger from '../utils/logger.util';
+import { ensureDirectoryExists } from '../utils/file.util';
+import { Config } from '../types/config.types';
+import { RunLock, RunOutcome } from '../types/run.types';
+
+export class RunCoordinatorError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'RunCoordinatorError';
+  }
+}
+
+interface ActiveRun {
+  trigger: string;
+  controller: AbortController;
+  settled: Promise<void>;
+}
+
+type LockResult = { acquired: true } | { acquired: false; reason: string };
+
+/** The lock file as read, holder is null when it is stale and cannot be parsed */
+interface LockFileContents {
+  contents: string;
+  holder: RunLock | 'unreadable' | null;
+}
+
+/** How long a lock file that cannot be parsed counts as held, e.g. by a process still writing it */
+const UNREADABLE_LOCK_TIMEOUT = 60 * 1000;
+
+/**
+ * Lock files held by runs of this process, by resolved path. A lock with our
+ * own pid that is not listed here was left by a previous container run.
+ */
+const heldLockFiles = new Set<string>();
+
+/**
+ * Makes sure only one backup runs at a time. Within the process overlapping
+ * triggers are skipped or queued (at most one) depending on `run.overlap`;
+ * across processes, e.g. the daemon and `backup --once`, a lock file next to
+ * the schedule state is held for the duration of the run.
+ */
+export class RunCoordinatorService {
+  private current: ActiveRun | null = null;
+  private queued = false;
+  private shuttingDown = false;
+
+  constructor(private readonly options: Config['run']) {}
+
+  isRunning(): boolean {
+    return this.current !== null;
+  }
+
+  async run<T>(trigger: string, job: (signal: AbortSignal) => Promise<T>): Promise<RunOutcome<T>> {
+    if (this.shuttingDown) {
+      return this.skip(trigger, 'shutting down');
+    }
+
+    if (this.current) {
+      if (this.options.overlap === 'skip') {
+        return this.skip(trigger, `a ${this.current.trigger} backup is already running`);
+      }
+      if (this.queued) {
+        return this.skip(trigger, 'a backup is already queued');
+      }
+
+      logger.info('Backup queued behind the running one', { trigger, running: this.current.trigger });
+      this.queued = true;
+      await this.current.settled;
+      this.queued = false;
+
+      if (this.shuttingDown) {
+        return this.skip(trigger, 'shutting down');
+      }
+    }
+
+    return this.execute(trigger, job);
+  }
+
+  /**
+   * Stops accepting runs and waits for the in-flight one. If it has not
+   * finished within `run.shutdownTimeout` it is aborted and awaited.
+   */
+  async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+    const active = this.current;
+    if (!active) return;
+
+    logger.info('Waiting for the running backup to finish', {
+      trigger: active.trigger,
+      timeoutMs: this.options.shutdownTimeout
+    });
+
+    let timer: NodeJS.Timeout | undefined;
+    const finished = await Promise.race([
+      active.settled.then(() => true),
+      new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), this.options.shutdownTimeout);
+      })
+    ]);
+    clearTimeout(timer);
+
+    if (!finished) {
+      logger.warn('Backup did not finish in time, aborting it', { trigger: active.trigger });
+      this.abort();
+      await active.settled;
+    }
+  }
+
+  /**
+   * Aborts the in-flight run, which fails at its next checkpoint
+   */
+  abort(): void {
+    this.current?.controller.abort(new RunCoordinatorError('Backup aborted'));
+  }
+
+  private async execute<T>(trigger: string, job: (signal: AbortSignal) => Promise<T>): Promise<RunOutcome<T>> {
+    let markSettled!: () => void;
+    const active: ActiveRun = {
+      trigger,
+      controller: new AbortController(),
+      settled: new Promise<void>(resolve => {
+        markSettled = resolve;
+      })
+    };
+    // Claimed before the first await so concurrent triggers see it
+    this.current = active;
+
+    let lockAcquired = false;
+    try {
+      const lock = await this.acquireLock(trigger);
+      if (!lock.acquired) {
+        return this.skip(trigger, lock.reason);
+      }
+      lockAcquired = true;
+
+      const result = await job(active.controller.signal);
+      return { status: 'completed', result };
+    } finally {
+      if (lockAcquired) {
+        await this.releaseLock();
+      }
+      this.current = null;
+      markSettled();
+    }
+  }
+
+  private skip<T>(trigger: string, reason: string): RunOutcome<T> {
+    logger.warn('Skipping backup run', { trigger, reason });
+    return { status: 'skipped', reason };
+  }
+
+  /**
+   * Writes the lock to a temporary file and links it into place, so the lock
+   * file appears complete or not at all and only one process can create it.
+   * A stale lock is taken over with removeStaleLock and the link retried.
+   */
+  private async acquireLock(trigger: string): Promise<LockResult> {
+    const lock: RunLock = {
+      pid: process.pid,
+      hostname: hostname(),
+      trigger,
+      startedAt: new Date().toISOString()
+    };
+    await ensureDirectoryExists(path.dirname(this.options.lockFile));
+    const temporaryFile = `${this.options.lockFile}.${process.pid}.tmp`;
+    await writeFile(temporaryFile, JSON.stringify(lock, null, 2));
+
+    try {
+      for (let attempt = 0; attempt < 3; attempt++) {
+        try {
+          await link(temporaryFile, this.options.lockFile);
+          heldLockFiles.add(path.resolve(this.options.lockFile));
+          return { acquired: true };
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+            throw new RunCoordinatorError(
+              `Failed to create backup lock ${this.options.lockFile}: ${error instanceof Error ? error.message : error}`
+            );
+          }
+        }
+
+        const existing = await this.readLock(this.options.lockFile);
+        if (!existing) {
+          // Released in the meantime
+          continue;
+        }
+        const { holder } = existing;
+        if (holder === 'unreadable') {
+          return { acquired: false, reason: `backup lock ${this.options.lockFile} is being written by another process` };
+        }
+        if (holder && this.isHolderAlive(holder)) {
+          return { acquired: false, reason: `backup lock is held by pid ${holder.pid} on ${holder.hostname} since ${holder.startedAt}` };
+        }
+
+        logger.warn('Removing stale backup lock', { lockFile: this.options.lockFile, holder });
+        if (!(await this.removeStaleLock(existing.contents))) {
+          return { acquired: false, reason: `backup lock ${this.options.lockFile} was taken over by another process` };
+        }
+      }
+    } finally {
+      await unlink(temporaryFile).catch(() => undefined);
+    }
+
+    throw new RunCoordinatorError(`Failed to acquire backup lock ${this.options.lockFile}`);
+  }
+
+  /**
+   * Moves the lock to a name of its own before deleting it, so only the lock
+   * that was found stale is removed. When another process replaced it in the
+   * meantime, its fresh lock is put back and false is returned.
+   */
+  private async removeStaleLock(staleContents: string): Promise<boolean> {
+    const claimedFile = `${this.options.lockFile}.${process.pid}.${randomUUID()}.stale`;
+    try {
+      await rename(this.options.lockFile, claimedFile);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return true;
+      }
+      throw new RunCoordinatorError(
+        `Failed to remove stale backup lock ${this.options.lockFile}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    try {
+      const claimed = await this.readLock(claimedFile);
+      if (!claimed || claimed.contents === staleContents) {
+        return true;
+      }
+
+      try {
+        await link(claimedFile, this.options.lockFile);
+      } catch (error) {
+        logger.error('Failed to put back a backup lock taken over by another process', {
+          lockFile: this.options.lockFile,
+          holder: claimed.holder,
+          error
+        });
+      }
+      return false;
+    } finally {
+      await unlink(claimedFile).catch(() => undefined);
+    }
+  }
+
+  private async releaseLock(): Promise<void> {
+    try {
+      await unlink(this.options.lockFile);
+    } catch (error) {
+      logger.error('Failed to release backup lock', { lockFile: this.options.lockFile, error });
+    } finally {
+      // Only once the file is gone, so no other run of this process takes it for stale
+      heldLockFiles.delete(path.resolve(this.options.lockFile));
+    }
+  }
+
+  /**
+   * Returns null when the lock is gone. A lock that cannot be parsed is
+   * 'unreadable' while it was written recently enough that its writer may
+   * still be finishing, and stale afterwards.
+   */
+  private async readLock(lockFile: string): Promise<LockFileContents | null> {
+    let contents: string;
+    try {
+      contents = await readFile(lockFile, 'utf8');
+    } catch (error) {
+      return null;
+    }
+
+    try {
+      return { contents, holder: JSON.parse(contents) as RunLock };
+    } catch (error) {
+      try {
+        const { mtimeMs } = await stat(lockFile);
+        return { contents, holder: Date.now() - mtimeMs < UNREADABLE_LOCK_TIMEOUT ? 'unreadable' : null };
+      } catch (statError) {
+        return null;
+      }
+    }
+  }
+
+  /**
+   * Locks from other hosts cannot be checked and are assumed live. A lock
+   * with our own pid is live while a run of this process holds it, e.g. the
+   * scheduler's while a drill is triggered, and otherwise left over from a
+   * previous container run.
+   */
+  private isHolderAlive(holder: RunLock): boolean {
+    if (holder.hostname !== hostname()) return true;
+    if (holder.pid === process.pid) return heldLockFiles.has(path.resolve(this.options.lockFile));
+
+    try {
+      process.kill(holder.pid, 0);
+      return true;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+}
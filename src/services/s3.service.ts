@@ -0,0 +1,485 @@
+import axios, { AxiosError, AxiosResponse, ResponseType } from 'axios';
+import { createHash, createHmac } from 'crypto';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+import logger from '../utils/logger.util';
+import { calculateChecksum } from '../utils/file.util';
+import { runWithConcurrency } from '../utils/pool.util';
+import { Config } from '../types/config.types';
+import { StorageBackend, StoredFile, UploadOptions } from '../types/storage.types';
+
+interface S3Request {
+  method: 'GET' | 'HEAD' | 'PUT' | 'POST' | 'DELETE';
+  /** Object key, the bucket itself when omitted */
+  key?: string;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  /** Called for every attempt, so streamed bodies can be retried */
+  body?: () => Readable | string;
+  responseType?: ResponseType;
+}
+
+export class S3Error extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'S3Error';
+  }
+}
+
+// Streamed bodies are not hashed, integrity is checked with Content-MD5 instead
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+const SHA1_METADATA = 'sha1';
+
+/**
+ * Stores objects in any S3-compatible bucket (AWS, B2's S3 endpoint, MinIO)
+ * with path-style requests signed with Signature Version 4. File info is
+ * kept as x-amz-meta-* metadata and the SHA-1 recorded in the manifest as
+ * x-amz-meta-sha1. Interrupted multipart uploads are aborted, not resumed.
+ */
+export class S3Service implements StorageBackend {
+  private authenticated = false;
+  private readonly maxBackoffDelay: number = 30000;
+
+  constructor(
+    private readonly options: Config['s3'],
+    private readonly maxRetries: number = 3,
+    private readonly retryDelay: number = 1000,
+    private readonly partSize: number = 100 * 1024 * 1024,
+    private readonly uploadConcurrency: number = 1
+  ) {
+    logger.info('S3Service initialized with:', {
+      endpoint: this.options.endpoint,
+      region: this.options.region,
+      bucket: this.options.bucket
+    });
+  }
+
+  /**
+   * S3 requests carry their own signature, so this only checks that the
+   * bucket is reachable with the configured key
+   */
+  async authenticate(): Promise<void> {
+    if (!this.options.accessKeyId || !this.options.secretAccessKey) {
+      throw new S3Error('S3 credentials not configured');
+    }
+
+    try {
+      await this.request({ method: 'HEAD' });
+      this.authenticated = true;
+      logger.info('Successfully connected to S3 bucket', { endpoint: this.options.endpoint, bucket: this.options.bucket });
+    } catch (error) {
+      logger.error('Failed to connect to S3 bucket', {
+        endpoint: this.options.endpoint,
+        bucket: this.options.bucket,
+        error: this.describeError(error)
+      });
+      throw new S3Error(`Failed to access bucket ${this.options.bucket}: ${this.describeError(error)}`, this.getStatus(error));
+    }
+  }
+
+  isAuthenticated(): boolean {
+    return this.authenticated;
+  }
+
+  async uploadFile(filePath: string, fileName: string, options: UploadOptions = {}): Promise<StoredFile> {
+    this.assertAuthenticated();
+
+    const existing = await this.headFile(fileName);
+    if (existing) {
+      logger.info('File already exists in S3, skipping upload', { fileName });
+      return existing;
+    }
+
+    const { size } = await stat(filePath);
+    const sha1 = await calculateChecksum(filePath);
+    const headers = {
+      ...this.getMetadataHeaders({ ...options.fileInfo, [SHA1_METADATA]: sha1 }),
+      'Content-Type': 'application/octet-stream'
+    };
+
+    try {
+      logger.info('Starting file upload', { fileName, fileSize: size });
+      if (size <= this.partSize) {
+        await this.request({
+          method: 'PUT',
+          key: fileName,
+          headers: {
+            ...headers,
+            'Content-Length': size.toString(),
+            'Content-MD5': await getContentMd5(filePath)
+          },
+          body: () => createReadStream(filePath)
+        });
+      } else {
+        await this.uploadMultipart(filePath, fileName, size, headers);
+      }
+    } catch (error) {
+      logger.error('S3 upload error', { fileName, error: this.describeError(error) });
+      throw new S3Error(`Failed to upload ${fileName}: ${this.describeError(error)}`, this.getStatus(error));
+    }
+
+    logger.info('Successfully uploaded file', { fileName, fileSize: size });
+    return { fileName, fileId: fileName, contentLength: size, contentSha1: sha1, uploadTimestamp: Date.now() };
+  }
+
+  /**
+   * Runs independent uploads, e.g. the parts of a snapshot, with at most
+   * uploadConcurrency in flight and logs the overall progress
+   */
+  async uploadFiles<T, R>(items: T[], upload: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    let completed = 0;
+    return runWithConcurrency(items, this.uploadConcurrency, async (item, index) => {
+      const result = await upload(item, index);
+      completed++;
+      logger.info(`Uploaded ${completed} of ${items.length} files`);
+      return result;
+    });
+  }
+
+  /**
+   * ListObjectsV2 does not return metadata, so listed files report their
+   * SHA-1 as 'none'
+   */
+  async listExistingFiles(prefix?: string, recursive: boolean = false): Promise<StoredFile[]> {
+    this.assertAuthenticated();
+
+    const files: StoredFile[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      try {
+        const response = await this.request({
+          method: 'GET',
+          query: {
+            'list-type': '2',
+            ...(prefix && { prefix }),
+            ...(!recursive && { delimiter: '/' }),
+            ...(continuationToken && { 'continuation-token': continuationToken })
+          },
+          responseType: 'text'
+        });
+        const xml: string = response.data;
+
+        for (const contents of getXmlElements(xml, 'Contents')) {
+          const fileName = getXmlText(contents, 'Key');
+          files.push({
+            fileName,
+            fileId: fileName,
+            contentLength: parseInt(getXmlText(contents, 'Size'), 10),
+            contentSha1: 'none',
+            uploadTimestamp: Date.parse(getXmlText(contents, 'LastModified'))
+          });
+        }
+        for (const commonPrefix of getXmlElements(xml, 'CommonPrefixes')) {
+          const fileName = getXmlText(commonPrefix, 'Prefix');
+          files.push({ fileName, fileId: fileName, contentLength: 0, contentSha1: 'none', uploadTimestamp: 0 });
+        }
+
+        continuationToken = getXmlText(xml, 'IsTruncated') === 'true'
+          ? getXmlText(xml, 'NextContinuationToken')
+          : undefined;
+      } catch (error) {
+        logger.error('Failed to list files', { prefix, error: this.describeError(error) });
+        throw new S3Error(`Failed to list files: ${this.describeError(error)}`, this.getStatus(error));
+      }
+    } while (continuationToken);
+
+    // Objects and common prefixes come in separate lists, B2 returns them in one sorted by name
+    return files.sort((a, b) => compareNames(a.fileName, b.fileName));
+  }
+
+  async downloadFile(fileName: string): Promise<Readable> {
+    try {
+      const response = await this.request({ method: 'GET', key: fileName, responseType: 'stream' });
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to download file', { fileName, error: this.describeError(error) });
+      throw new S3Error(`Failed to download ${fileName}: ${this.describeError(error)}`, this.getStatus(error));
+    }
+  }
+
+  async downloadFileRange(fileName: string, start: number, end: number): Promise<Buffer> {
+    try {
+      const response = await this.request({
+        method: 'GET',
+        key: fileName,
+        headers: { Range: `bytes=${start}-${end}` },
+        responseType: 'arraybuffer'
+      });
+      return Buffer.from(response.data);
+    } catch (error) {
+      logger.error('Failed to download file range', { fileName, range: `${start}-${end}`, error: this.describeError(error) });
+      throw new S3Error(`Failed to download ${fileName}: ${this.describeError(error)}`, this.getStatus(error));
+    }
+  }
+
+  /**
+   * Deletes the object by key. On a versioned bucket this leaves a delete
+   * marker, older versions are left to the bucket's lifecycle rules.
+   */
+  async deleteFile(fileName: string, _fileId: string): Promise<void> {
+    this.assertAuthenticated();
+
+    try {
+      await this.request({ method: 'DELETE', key: fileName });
+      logger.info('Deleted file from S3', { fileName });
+    } catch (error) {
+      logger.error('Failed to delete file', { fileName, error: this.describeError(error) });
+      throw new S3Error(`Failed to delete ${fileName}: ${this.describeError(error)}`, this.getStatus(error));
+    }
+  }
+
+  async fileExists(fileName: string): Promise<boolean> {
+    return !!(await this.headFile(fileName));
+  }
+
+  async headFile(fileName: string): Promise<StoredFile | null> {
+    try {
+      const response = await this.request({ method: 'HEAD', key: fileName });
+      return {
+        fileName,
+        fileId: fileName,
+        contentLength: parseInt(response.headers['content-length'], 10),
+        contentSha1: response.headers[`x-amz-meta-${SHA1_METADATA}`] || 'none',
+        uploadTimestamp: Date.parse(response.headers['last-modified'])
+      };
+    } catch (error) {
+      if (this.getStatus(error) === 404) {
+        return null;
+      }
+      logger.error('Failed to check if file exists', { fileName, error: this.describeError(error) });
+      throw new S3Error(`Failed to check if ${fileName} exists: ${this.describeError(error)}`, this.getStatus(error));
+    }
+  }
+
+  private async uploadMultipart(
+    filePath: string,
+    fileName: string,
+    fileSize: number,
+    headers: Record<string, string>
+  ): Promise<void> {
+    const created = await this.request({
+      method: 'POST',
+      key: fileName,
+      query: { uploads: '' },
+      headers,
+      responseType: 'text'
+    });
+    const uploadId = getXmlText(created.data, 'UploadId');
+    const totalParts = Math.ceil(fileSize / this.partSize);
+    const partNumbers = Array.from({ length: totalParts }, (_, index) => index + 1);
+
+    try {
+      const etags = await runWithConcurrency(partNumbers, this.uploadConcurrency, async partNumber => {
+        const start = (partNumber - 1) * this.partSize;
+        const end = Math.min(start + this.partSize, fileSize) - 1;
+        const response = await this.request({
+          method: 'PUT',
+          key: fileName,
+          query: { partNumber: partNumber.toString(), uploadId },
+          headers: {
+            'Content-Length': (end - start + 1).toString(),
+            'Content-MD5': await getContentMd5(filePath, { start, end })
+          },
+          body: () => createReadStream(filePath, { start, end })
+        });
+        logger.info(`Uploaded part ${partNumber} of ${totalParts}`, { fileName, partNumber, totalParts });
+        return response.headers.etag as string;
+      });
+
+      const completion = [
+        '<CompleteMultipartUpload>',
+        ...etags.map((etag, index) =>
+          `<Part><PartNumber>${index + 1}</PartNumber><ETag>${escapeXml(etag)}</ETag></Part>`
+        ),
+        '</CompleteMultipartUpload>'
+      ].join('');
+      const completed = await this.request({
+        method: 'POST',
+        key: fileName,
+        query: { uploadId },
+        headers: { 'Content-Type': 'application/xml' },
+        body: () => completion,
+        responseType: 'text'
+      });
+      // CompleteMultipartUpload can fail with a 200 and an error document
+      if (getXmlElements(completed.data, 'Error').length) {
+        throw new S3Error(`Failed to complete multipart upload: ${getXmlText(completed.data, 'Message')}`);
+      }
+    } catch (error) {
+      await this.request({ method: 'DELETE', key: fileName, query: { uploadId } }).catch(abortError => {
+        logger.warn('Failed to abort multipart upload', { fileName, uploadId, error: this.describeError(abortError) });
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Sends a signed request, retrying throttling, server and network errors
+   * with exponential backoff
+   */
+  private async request(request: S3Request): Promise<AxiosResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const body = request.body?.();
+        const url = this.getUrl(request.key, request.query);
+        return await axios.request({
+          method: request.method,
+          url: url.toString(),
+          headers: this.sign(request, url, typeof body === 'string' ? body : undefined),
+          data: body,
+          responseType: request.responseType,
+          maxBodyLength: Infinity,
+          maxContentLength: Infinity
+        });
+      } catch (error) {
+        const status = this.getStatus(error);
+        const retryable = status === undefined || status === 429 || status >= 500;
+        if (!retryable || attempt >= this.maxRetries) {
+          throw error;
+        }
+        const delay = Math.min(this.retryDelay * Math.pow(2, attempt) * (0.5 + Math.random()), this.maxBackoffDelay);
+        logger.warn(`S3 request failed, retrying in ${Math.round(delay / 1000)}s`, {
+          method: request.method,
+          key: request.key,
+          error: this.describeError(error)
+        });
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private getUrl(key?: string, query: Record<string, string> = {}): URL {
+    const url = new URL(this.options.endpoint);
+    const objectPath = [this.options.bucket, ...(key ? [key] : [])].join('/').split('/').map(encodeRfc3986).join('/');
+    url.pathname = `${url.pathname.replace(/\/$/, '')}/${objectPath}`;
+    url.search = getCanonicalQuery(query);
+    return url;
+  }
+
+  /**
+   * Returns the request headers with the AWS Signature Version 4
+   * Authorization header added
+   */
+  private sign(request: S3Request, url: URL, body?: string): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.options.region}/s3/aws4_request`;
+    const headers: Record<string, string> = {
+      ...request.headers,
+      'x-amz-content-sha256': body !== undefined ? sha256(body) : UNSIGNED_PAYLOAD,
+      'x-amz-date': amzDate
+    };
+
+    const signed = Object.entries({ ...headers, host: url.host })
+      .map(([name, value]) => [name.toLowerCase(), value.trim()])
+      .sort(([a], [b]) => compareNames(a, b));
+    const signedHeaders = signed.map(([name]) => name).join(';');
+    const canonicalRequest = [
+      request.method,
+      url.pathname,
+      getCanonicalQuery(request.query),
+      ...signed.map(([name, value]) => `${name}:${value}`),
+      '',
+      signedHeaders,
+      headers['x-amz-content-sha256']
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = [date, this.options.region, 's3', 'aws4_request']
+      .reduce<Buffer | string>((key, part) => hmac(key, part), `AWS4${this.options.secretAccessKey}`);
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    return {
+      ...headers,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+    };
+  }
+
+  private getMetadataHeaders(fileInfo: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(fileInfo).map(([name, value]) => [`x-amz-meta-${name}`, encodeURIComponent(value)])
+    );
+  }
+
+  private assertAuthenticated(): void {
+    if (!this.authenticated) {
+      throw new S3Error('Not authenticated with S3');
+    }
+  }
+
+  private getStatus(error: unknown): number | undefined {
+    return error instanceof AxiosError ? error.response?.status : undefined;
+  }
+
+  private describeError(error: unknown): string {
+    if (error instanceof AxiosError && error.response) {
+      const data = error.response.data;
+      const code = typeof data === 'string' ? getXmlText(data, 'Code') : undefined;
+      return `${error.response.status}${code ? ` ${code}` : ''}`;
+    }
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
+
+async function getContentMd5(filePath: string, range?: { start: number; end: number }): Promise<string> {
+  return Buffer.from(await calculateChecksum(filePath, range, 'md5'), 'hex').toString('base64');
+}
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * encodeURIComponent leaves !'()* alone, SigV4 wants them escaped too
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function getCanonicalQuery(query: Record<string, string> = {}): string {
+  return Object.keys(query)
+    .sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+    .join('&');
+}
+
+function compareNames(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Returns the raw content of every element with the given tag. S3 responses
+ * are flat enough that a full XML parser is not needed.
+ */
+function getXmlElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+/**
+ * Returns the unescaped text of the first element with the given tag
+ */
+function getXmlText(xml: string, tag: string): string {
+  const [element] = getXmlElements(xml, tag);
+  return element === undefined ? '' : unescapeXml(element);
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,129 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { SchedulerService, SchedulerError } from './scheduler.service';
+import { Config } from '../types/config.types';
+
+jest.mock('../utils/logger.util', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn()
+}));
+
+describe('SchedulerService', () => {
+  let tempDir: string;
+  let schedule: Config['schedule'];
+  let task: jest.Mock;
+  let scheduler: SchedulerService;
+
+  const readState = () => JSON.parse(readFileSync(schedule.stateFile, 'utf8'));
+
+  const writeState = (state: object) => writeFileSync(schedule.stateFile, JSON.stringify(state));
+
+  // The timers are fake but the state file I/O is not, so spin the event loop until it settles
+  const waitUntil = async (condition: () => boolean) => {
+    for (let attempt = 0; attempt < 1000 && !condition(); attempt++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-03-14T12:00:00.000Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    tempDir = mkdtempSync(path.join(tmpdir(), 'scheduler-test-'));
+    schedule = {
+      cron: '0 2 * * *',
+      timezone: 'Europe/Berlin',
+      catchUp: true,
+      stateFile: path.join(tempDir, 'state', 'schedule.json')
+    };
+    task = jest.fn().mockResolvedValue(undefined);
+    scheduler = new SchedulerService(schedule, task);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should evaluate the cron expression in the configured time zone', () => {
+    // 02:00 in Berlin is 01:00 UTC in winter
+    expect(scheduler.getNextRun().toISOString()).toBe('2024-03-15T01:00:00.000Z');
+  });
+
+  test('should catch up when there has never been a successful run', async () => {
+    await scheduler.start();
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(readState()).toEqual({
+      lastRunAt: '2024-03-14T12:00:00.000Z',
+      lastSuccessfulRunAt: '2024-03-14T12:00:00.000Z',
+      lastError: null
+    });
+  });
+
+  test('should catch up when the last successful run is older than the previous slot', async () => {
+    mkdirSync(path.dirname(schedule.stateFile));
+    writeState({ lastRunAt: '2024-03-12T01:00:00.000Z', lastSuccessfulRunAt: '2024-03-12T01:00:00.000Z' });
+
+    await scheduler.start();
+
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not run at startup when the previous slot was backed up', async () => {
+    mkdirSync(path.dirname(schedule.stateFile));
+    writeState({ lastRunAt: '2024-03-14T01:00:00.000Z', lastSuccessfulRunAt: '2024-03-14T01:00:00.000Z' });
+
+    await scheduler.start();
+
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  test('should not catch up when catch-up is disabled', async () => {
+    scheduler = new SchedulerService({ ...schedule, catchUp: false }, task);
+
+    await scheduler.start();
+
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  test('should run at the next slot and keep the schedule after a failure', async () => {
+    scheduler = new SchedulerService({ ...schedule, catchUp: false }, task);
+    task.mockRejectedValueOnce(new Error('Dump failed'));
+    await scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(13 * 60 * 60 * 1000);
+    await waitUntil(() => jest.getTimerCount() > 0);
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(readState()).toEqual({
+      lastRunAt: '2024-03-15T01:00:00.000Z',
+      lastSuccessfulRunAt: null,
+      lastError: 'Dump failed'
+    });
+
+    await jest.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+    await waitUntil(() => task.mock.calls.length === 2);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  test('should report the next run and last outcome', async () => {
+    await scheduler.start();
+
+    await expect(scheduler.getStatus()).resolves.toEqual({
+      cron: '0 2 * * *',
+      timezone: 'Europe/Berlin',
+      lastRunAt: '2024-03-14T12:00:00.000Z',
+      lastSuccessfulRunAt: '2024-03-14T12:00:00.000Z',
+      lastError: null,
+      nextRunAt: '2024-03-15T01:00:00.000Z'
+    });
+  });
+
+  test('should refuse to start twice', async () => {
+    await scheduler.start();
+
+    await expect(scheduler.start()).rejects.toThrow(SchedulerError);
+  });
+});
@@ -0,0 +1,169 @@
+import { readFile, writeFile, rename } from 'fs/promises';
+import path from 'path';
+import { parseExpression } from 'cron-parser';
+import logger from '../utils/logger.util';
+import { ensureDirectoryExists } from '../utils/file.util';
+import { Config } from '../types/config.types';
+import { ScheduleState, ScheduleStatus } from '../types/schedule.types';
+
+// setTimeout overflows above ~24.8 days, longer waits are split up
+const MAX_TIMER_DELAY_MS = 24 * 60 * 60 * 1000;
+
+const EMPTY_STATE: ScheduleState = {
+  lastRunAt: null,
+  lastSuccessfulRunAt: null,
+  lastError: null
+};
+
+export class SchedulerError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'SchedulerError';
+  }
+}
+
+export class SchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  /**
+   * @param name what the task is called in log messages
+   */
+  constructor(
+    private readonly schedule: Config['schedule'],
+    private readonly task: () => Promise<void>,
+    private readonly name: string = 'backup'
+  ) {}
+
+  /**
+   * Runs a missed backup first when catch-up is enabled, then waits for the
+   * next cron slot. A backup is missed when the last successful run is older
+   * than the most recent slot, or when there has never been one.
+   */
+  async start(): Promise<void> {
+    if (this.timer) {
+      throw new SchedulerError('Scheduler is already running');
+    }
+    this.stopped = false;
+    const state = await this.readState();
+    const previousRun = this.getPreviousRun();
+
+    if (
+      this.schedule.catchUp &&
+      (!state.lastSuccessfulRunAt || new Date(state.lastSuccessfulRunAt) < previousRun)
+    ) {
+      logger.info(`Catching up on missed ${this.name}`, {
+        lastSuccessfulRunAt: state.lastSuccessfulRunAt,
+        missedRunAt: previousRun.toISOString()
+      });
+      await this.runTask();
+    }
+
+    if (!this.stopped) {
+      this.scheduleNext();
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getNextRun(after: Date = new Date()): Date {
+    return parseExpression(this.schedule.cron, { currentDate: after, tz: this.schedule.timezone })
+      .next()
+      .toDate();
+  }
+
+  async getStatus(): Promise<ScheduleStatus> {
+    return {
+      cron: this.schedule.cron,
+      timezone: this.schedule.timezone,
+      ...(await this.readState()),
+      nextRunAt: this.getNextRun().toISOString()
+    };
+  }
+
+  private getPreviousRun(): Date {
+    return parseExpression(this.schedule.cron, { currentDate: new Date(), tz: this.schedule.timezone })
+      .prev()
+      .toDate();
+  }
+
+  private scheduleNext(): void {
+    const nextRun = this.getNextRun();
+    logger.info(`Next ${this.name} scheduled`, {
+      nextRunAt: nextRun.toISOString(),
+      cron: this.schedule.cron,
+      timezone: this.schedule.timezone
+    });
+    this.armTimer(nextRun);
+  }
+
+  private armTimer(runAt: Date): void {
+    const delay = Math.max(runAt.getTime() - Date.now(), 0);
+    this.timer = setTimeout(async () => {
+      if (Date.now() < runAt.getTime()) {
+        this.armTimer(runAt);
+        return;
+      }
+      await this.runTask();
+      if (!this.stopped) {
+        this.scheduleNext();
+      }
+    }, Math.min(delay, MAX_TIMER_DELAY_MS));
+  }
+
+  /**
+   * Runs the task and records the outcome, a failure never stops the schedule
+   */
+  private async runTask(): Promise<void> {
+    const state = await this.readState();
+    const startedAt = new Date().toISOString();
+
+    try {
+      await this.task();
+      await this.writeState({ lastRunAt: startedAt, lastSuccessfulRunAt: startedAt, lastError: null });
+    } catch (error) {
+      logger.error(`Scheduled ${this.name} failed`, { error });
+      await this.writeState({
+        ...state,
+        lastRunAt: startedAt,
+        lastError: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async readState(): Promise<ScheduleState> {
+    try {
+      const contents = await readFile(this.schedule.stateFile, 'utf8');
+      return { ...EMPTY_STATE, ...JSON.parse(contents) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Failed to read schedule state, treating it as empty', {
+          stateFile: this.schedule.stateFile,
+          error
+        });
+      }
+      return { ...EMPTY_STATE };
+    }
+  }
+
+  /**
+   * Writes through a temporary file so a crash never leaves a truncated state
+   * file. A failed write is logged and does not stop the schedule.
+   */
+  private async writeState(state: ScheduleState): Promise<void> {
+    try {
+      await ensureDirectoryExists(path.dirname(this.schedule.stateFile));
+      const tempFile = `${this.schedule.stateFile}.tmp`;
+      await writeFile(tempFile, JSON.stringify(state, null, 2));
+      await rename(tempFile, this.schedule.stateFile);
+    } catch (error) {
+      logger.error('Failed to persist schedule state', { stateFile: this.schedule.stateFile, error });
+    }
+  }
+}
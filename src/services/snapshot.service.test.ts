@@ -0,0 +1,133 @@
+import { Readable } from 'stream';
+import { SnapshotService, SnapshotError } from './snapshot.service';
+import { B2Service } from './b2.service';
+import { StoredFile } from '../types/storage.types';
+
+jest.mock('./b2.service');
+jest.mock('../utils/logger.util', () => ({
+  info: jest.fn(),
+  error: jest.fn()
+}));
+
+describe('SnapshotService', () => {
+  let snapshotService: SnapshotService;
+  let mockB2Service: jest.Mocked<B2Service>;
+
+  const remoteFile = (fileName: string): StoredFile => ({
+    fileName,
+    fileId: `id-${fileName}`,
+    contentLength: 100,
+    contentSha1: 'hash',
+    uploadTimestamp: 1234567890
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockB2Service = new B2Service('test-key-id', 'test-key', 'test-bucket') as jest.Mocked<B2Service>;
+    snapshotService = new SnapshotService(mockB2Service);
+  });
+
+  describe('listSnapshots', () => {
+    test('should mark snapshots without a manifest as incomplete', async () => {
+      mockB2Service.listExistingFiles.mockImplementation(async (prefix?: string) => {
+        if (prefix === 'snapshots/') {
+          return [
+            remoteFile('snapshots/2024-03-14T12-00-00-000Z/'),
+            remoteFile('snapshots/2024-03-13T12-00-00-000Z/')
+          ];
+        }
+        if (prefix === 'snapshots/2024-03-13T12-00-00-000Z/') {
+          return [remoteFile(`${prefix}app/`), remoteFile(`${prefix}manifest.json`)];
+        }
+        return [remoteFile(`${prefix}app/`)];
+      });
+
+      await expect(snapshotService.listSnapshots()).resolves.toEqual([
+        { snapshotId: '2024-03-13T12-00-00-000Z', complete: true },
+        { snapshotId: '2024-03-14T12-00-00-000Z', complete: false }
+      ]);
+    });
+
+    test('should throw SnapshotError when listing fails', async () => {
+      mockB2Service.listExistingFiles.mockRejectedValue(new Error('List failed'));
+
+      await expect(snapshotService.listSnapshots()).rejects.toThrow(SnapshotError);
+    });
+  });
+
+  describe('getLatestSnapshotId', () => {
+    test('should skip incomplete snapshots', async () => {
+      jest.spyOn(snapshotService, 'listSnapshots').mockResolvedValue([
+        { snapshotId: '2024-03-13T12-00-00-000Z', complete: true },
+        { snapshotId: '2024-03-14T12-00-00-000Z', complete: false }
+      ]);
+
+      await expect(snapshotService.getLatestSnapshotId()).resolves.toBe('2024-03-13T12-00-00-000Z');
+    });
+
+    test('should throw when there is no complete snapshot', async () => {
+      jest.spyOn(snapshotService, 'listSnapshots').mockResolvedValue([]);
+
+      await expect(snapshotService.getLatestSnapshotId()).rejects.toThrow('No complete snapshots found');
+    });
+  });
+
+  describe('getManifest', () => {
+    const snapshotId = '2024-03-14T12-00-00-000Z';
+
+    test('should download and parse the manifest', async () => {
+      mockB2Service.fileExists.mockResolvedValue(true);
+      mockB2Service.downloadFile.mockResolvedValue(
+        Readable.from([Buffer.from('{"snapshotId":"2024-03-14T12-00-00-000Z",'), Buffer.from('"collections":[]}')])
+      );
+
+      const manifest = await snapshotService.getManifest(snapshotId);
+
+      expect(mockB2Service.downloadFile).toHaveBeenCalledWith(`snapshots/${snapshotId}/manifest.json`);
+      expect(manifest).toEqual({ snapshotId, collections: [] });
+    });
+
+    test('should reject incomplete snapshots', async () => {
+      mockB2Service.fileExists.mockResolvedValue(false);
+
+      await expect(snapshotService.getManifest(snapshotId)).rejects.toThrow('has no manifest and is incomplete');
+      expect(mockB2Service.downloadFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listChangeSegments', () => {
+    test('should read the complete segments from the one open at the given time on', async () => {
+      mockB2Service.listExistingFiles.mockResolvedValue([
+        remoteFile('changes/2024-03-14T12-10-00-000Z/events.jsonl'),
+        remoteFile('changes/2024-03-14T12-10-00-000Z/segment.json'),
+        remoteFile('changes/2024-03-14T11-50-00-000Z/segment.json'),
+        remoteFile('changes/2024-03-14T11-55-00-000Z/segment.json'),
+        remoteFile('changes/2024-03-14T12-20-00-000Z/events.jsonl')
+      ]);
+      mockB2Service.downloadFile.mockImplementation(async (fileName: string) =>
+        Readable.from([Buffer.from(JSON.stringify({ segmentId: fileName.split('/')[1] }))])
+      );
+
+      const segments = await snapshotService.listChangeSegments('2024-03-14T12:00:00.000Z');
+
+      expect(mockB2Service.listExistingFiles).toHaveBeenCalledWith('changes/', true);
+      expect(segments.map(segment => segment.segmentId)).toEqual(['2024-03-14T11-55-00-000Z', '2024-03-14T12-10-00-000Z']);
+    });
+
+    test('should only read the segments that started before the given time', async () => {
+      mockB2Service.listExistingFiles.mockResolvedValue([
+        remoteFile('changes/2024-03-14T12-10-00-000Z/segment.json'),
+        remoteFile('changes/2024-03-14T11-50-00-000Z/segment.json'),
+        remoteFile('changes/2024-03-14T11-55-00-000Z/segment.json')
+      ]);
+      mockB2Service.downloadFile.mockImplementation(async (fileName: string) =>
+        Readable.from([Buffer.from(JSON.stringify({ segmentId: fileName.split('/')[1] }))])
+      );
+
+      const segments = await snapshotService.listChangeSegments(undefined, '2024-03-14T12:00:00.000Z');
+
+      expect(segments.map(segment => segment.segmentId)).toEqual(['2024-03-14T11-50-00-000Z', '2024-03-14T11-55-00-000Z']);
+      expect(mockB2Service.downloadFile).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import logger from '../utils/logger.util';
+import {
+  CHANGE_SEGMENT_FILE_NAME,
+  CHANGES_ROOT,
+  createSnapshotId,
+  getChangeSegmentFileName,
+  getManifestFileName,
+  getSnapshotPrefix,
+  MANIFEST_FILE_NAME,
+  SNAPSHOTS_ROOT
+} from '../utils/snapshot.util';
+import { SnapshotManifest, SnapshotSummary } from '../types/manifest.types';
+import { ChangeSegment } from '../types/changes.types';
+import { StorageBackend } from '../types/storage.types';
+
+export class SnapshotError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+export class SnapshotService {
+  constructor(private readonly storage: StorageBackend) {}
+
+  /**
+   * Lists every snapshot in the bucket, oldest first. A snapshot is complete
+   * only if its manifest has been uploaded.
+   */
+  async listSnapshots(): Promise<SnapshotSummary[]> {
+    try {
+      const entries = await this.storage.listExistingFiles(`${SNAPSHOTS_ROOT}/`);
+      const snapshotIds = entries
+        .filter(entry => entry.fileName.endsWith('/'))
+        .map(entry => entry.fileName.slice(`${SNAPSHOTS_ROOT}/`.length, -1))
+        .sort();
+
+      const snapshots: SnapshotSummary[] = [];
+      for (const snapshotId of snapshotIds) {
+        const prefix = getSnapshotPrefix(snapshotId);
+        const files = await this.storage.listExistingFiles(prefix);
+        snapshots.push({
+          snapshotId,
+          complete: files.some(file => file.fileName === `${prefix}${MANIFEST_FILE_NAME}`)
+        });
+      }
+
+      return snapshots;
+    } catch (error) {
+      logger.error('Failed to list snapshots', { error });
+      throw new SnapshotError(
+        error instanceof Error ? error.message : 'Failed to list snapshots'
+      );
+    }
+  }
+
+  /**
+   * Returns the ID of the newest complete snapshot
+   */
+  async getLatestSnapshotId(): Promise<string> {
+    const latest = (await this.listSnapshots()).filter(snapshot => snapshot.complete).pop();
+    if (!latest) {
+      throw new SnapshotError('No complete snapshots found');
+    }
+    return latest.snapshotId;
+  }
+
+  /**
+   * Downloads and parses the manifest of a snapshot
+   */
+  async getManifest(snapshotId: string): Promise<SnapshotManifest> {
+    const fileName = getManifestFileName(snapshotId);
+
+    if (!(await this.storage.fileExists(fileName))) {
+      throw new SnapshotError(`Snapshot ${snapshotId} has no manifest and is incomplete`);
+    }
+
+    try {
+      return await this.readJson<SnapshotManifest>(fileName);
+    } catch (error) {
+      logger.error('Failed to read snapshot manifest', { snapshotId, error });
+      throw new SnapshotError(
+        error instanceof Error ? error.message : 'Failed to read snapshot manifest'
+      );
+    }
+  }
+
+  /**
+   * Lists complete change segments, oldest first. With `since` only the
+   * segment that was open at that time and the ones after it are read, with
+   * `before` only the ones that started before that time.
+   */
+  async listChangeSegments(since?: string, before?: string): Promise<ChangeSegment[]> {
+    try {
+      const files = await this.storage.listExistingFiles(`${CHANGES_ROOT}/`, true);
+      // Segment IDs sort like their start times
+      const beforeId = before ? createSnapshotId(new Date(before)) : undefined;
+      const segmentIds = files
+        .filter(file => file.fileName.endsWith(`/${CHANGE_SEGMENT_FILE_NAME}`))
+        .map(file => file.fileName.slice(`${CHANGES_ROOT}/`.length, -`/${CHANGE_SEGMENT_FILE_NAME}`.length))
+        .filter(segmentId => !beforeId || segmentId < beforeId)
+        .sort();
+
+      const sinceId = since ? createSnapshotId(new Date(since)) : undefined;
+      const first = sinceId ? segmentIds.filter(segmentId => segmentId <= sinceId).length - 1 : 0;
+
+      const segments: ChangeSegment[] = [];
+      for (const segmentId of segmentIds.slice(Math.max(first, 0))) {
+        segments.push(await this.readJson<ChangeSegment>(getChangeSegmentFileName(segmentId)));
+      }
+      return segments;
+    } catch (error) {
+      logger.error('Failed to list change segments', { error });
+      throw new SnapshotError(
+        error instanceof Error ? error.message : 'Failed to list change segments'
+      );
+    }
+  }
+
+  private async readJson<T>(fileName: string): Promise<T> {
+    const download = await this.storage.downloadFile(fileName);
+    const chunks: Buffer[] = [];
+    for await (const chunk of download) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return JSON.parse(Buffer.concat(chunks).toString('utf8')) as T;
+  }
+}
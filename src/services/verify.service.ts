@@ -0,0 +1,196 @@
+import { createHash } from 'crypto';
+import { PassThrough, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { SnapshotService } from './snapshot.service';
+import { JsonlToBsonTransform } from '../utils/bson.util';
+import { DecryptTransform } from '../utils/crypto.util';
+import { createDecompressStream, isCodecAvailable } from '../utils/compression.util';
+import { getSnapshotPrefix } from '../utils/snapshot.util';
+import logger from '../utils/logger.util';
+import { StorageBackend, StoredFile } from '../types/storage.types';
+import { ManifestCollection, ManifestPart } from '../types/manifest.types';
+import { Keyring } from '../types/crypto.types';
+import { CollectionVerifyResult, VerifyOptions, VerifyProblem, VerifyReport } from '../types/verify.types';
+
+export class VerifyError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'VerifyError';
+  }
+}
+
+interface PartReadResult {
+  sha1: string;
+  bytes: number;
+  documents: number;
+}
+
+// Snapshots written before whole-file hashes of large files recorded the concatenated part hashes
+const SHA1_PATTERN = /^[0-9a-f]{40}$/;
+
+export class VerifyService {
+  constructor(
+    private readonly storage: StorageBackend,
+    private readonly snapshotService: SnapshotService,
+    private readonly keyring: Keyring = {}
+  ) {}
+
+  /**
+   * Checks a snapshot end to end: every part must be listed with the recorded
+   * size, download with the recorded SHA-1, decrypt, decompress and parse as
+   * JSONL, and the documents read must match what mongodump reported.
+   * Problems are collected rather than thrown, so one report covers the
+   * whole snapshot.
+   */
+  async verifySnapshot(snapshotId: string, options: VerifyOptions = {}): Promise<VerifyReport> {
+    const startedAt = Date.now();
+    const quick = options.quick ?? false;
+
+    try {
+      const manifest = await this.snapshotService.getManifest(snapshotId);
+      const files = await this.storage.listExistingFiles(getSnapshotPrefix(snapshotId), true);
+      const remote = new Map(files.map(file => [file.fileName, file]));
+
+      const problems: VerifyProblem[] = [];
+      const collections: CollectionVerifyResult[] = [];
+      let parts = 0;
+      let bytesRead = 0;
+
+      // The oplog is checked like a collection, under the namespace mongodump gives it
+      const entries: ManifestCollection[] = manifest.oplog
+        ? [...manifest.collections, { database: '', collection: 'oplog', ...manifest.oplog }]
+        : manifest.collections;
+
+      for (const entry of entries) {
+        const problemsBefore = problems.length;
+        let documentsRead = 0;
+
+        for (const part of entry.parts) {
+          parts++;
+          const problem = this.checkListing(part, remote.get(part.fileName)) || this.checkReadable(part);
+          if (problem) {
+            problems.push({ fileName: part.fileName, problem });
+            continue;
+          }
+          if (quick) continue;
+
+          try {
+            const result = await this.readPart(part);
+            bytesRead += result.bytes;
+            documentsRead += result.documents;
+            if (SHA1_PATTERN.test(part.sha1) && result.sha1 !== part.sha1) {
+              problems.push({ fileName: part.fileName, problem: `downloaded sha1 ${result.sha1}, expected ${part.sha1}` });
+            } else if (result.documents !== part.documentCount) {
+              problems.push({
+                fileName: part.fileName,
+                problem: `${result.documents} documents, manifest lists ${part.documentCount}`
+              });
+            }
+          } catch (error) {
+            problems.push({
+              fileName: part.fileName,
+              problem: `unreadable: ${error instanceof Error ? error.message : String(error)}`
+            });
+          }
+        }
+
+        const documentsExpected = entry.reportedDocumentCount ?? entry.documentCount;
+        if (!quick && problems.length === problemsBefore && documentsRead !== documentsExpected) {
+          problems.push({
+            fileName: entry.database ? `${entry.database}.${entry.collection}` : entry.collection,
+            problem: `${documentsRead} documents read, mongodump reported ${documentsExpected}`
+          });
+        }
+
+        collections.push({
+          database: entry.database,
+          collection: entry.collection,
+          documentsExpected,
+          documentsRead: quick ? null : documentsRead,
+          ok: problems.length === problemsBefore
+        });
+      }
+
+      const report: VerifyReport = {
+        snapshotId,
+        ok: problems.length === 0,
+        quick,
+        parts,
+        bytesRead,
+        durationMs: Date.now() - startedAt,
+        collections,
+        problems
+      };
+
+      if (report.ok) {
+        logger.info('Snapshot verified', { snapshotId, quick, parts, bytesRead });
+      } else {
+        logger.error('Snapshot failed verification', { snapshotId, quick, parts, problems });
+      }
+      return report;
+    } catch (error) {
+      logger.error('Failed to verify snapshot', { snapshotId, error });
+      throw new VerifyError(
+        error instanceof Error ? error.message : 'Failed to verify snapshot'
+      );
+    }
+  }
+
+  private checkListing(part: ManifestPart, file: StoredFile | undefined): string | null {
+    if (!file) {
+      return 'missing';
+    }
+    if (file.contentLength !== part.size) {
+      return `size ${file.contentLength}, expected ${part.size}`;
+    }
+    // B2 large files and S3 listings come without a whole-file SHA-1 ("none")
+    if (file.contentSha1 !== 'none' && file.contentSha1 !== part.sha1) {
+      return `sha1 ${file.contentSha1}, expected ${part.sha1}`;
+    }
+    return null;
+  }
+
+  private checkReadable(part: ManifestPart): string | null {
+    if (part.encryptionKeyId && !this.keyring[part.encryptionKeyId]) {
+      return `encryption key ${part.encryptionKeyId} is not in the keyring`;
+    }
+    if (part.compression && !isCodecAvailable(part.compression)) {
+      return `${part.compression} decompression is not supported by this Node.js version`;
+    }
+    return null;
+  }
+
+  /**
+   * Downloads a part, hashing the stored bytes on the way, and parses every
+   * JSONL line the same way a restore would
+   */
+  private async readPart(part: ManifestPart): Promise<PartReadResult> {
+    const hash = createHash('sha1');
+    let bytes = 0;
+    const tap = new Transform({
+      transform(chunk: Buffer, encoding, callback) {
+        hash.update(chunk);
+        bytes += chunk.length;
+        callback(null, chunk);
+      }
+    });
+    const jsonlToBson = new JsonlToBsonTransform();
+    const discard = new Writable({
+      write(chunk, encoding, callback) {
+        callback();
+      }
+    });
+
+    const download = await this.storage.downloadFile(part.fileName);
+    await pipeline([
+      download,
+      tap,
+      part.encryptionKeyId ? new DecryptTransform(this.keyring) : new PassThrough(),
+      createDecompressStream(part.compression || 'none'),
+      jsonlToBson,
+      discard
+    ]);
+
+    return { sha1: hash.digest('hex'), bytes, documents: jsonlToBson.getDocumentCount() };
+  }
+}
@@ -0,0 +1,513 @@
+import { createHash } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export interface B2EmulatorOptions {
+  keyId?: string;
+  applicationKey?: string;
+  bucketId?: string;
+  bucketName?: string;
+  /** B2 requires 5MB, tests lower it to exercise large files cheaply */
+  minimumPartSize?: number;
+  capabilities?: string[];
+  namePrefix?: string | null;
+  /** Authorizes a key restricted to the emulated bucket */
+  restrictedToBucket?: boolean;
+}
+
+export interface EmulatedFile {
+  fileId: string;
+  fileName: string;
+  data: Buffer;
+  /** 'none' for large files, as B2 reports them */
+  contentSha1: string;
+  fileInfo: Record<string, string>;
+  uploadTimestamp: number;
+}
+
+interface UnfinishedLargeFile {
+  fileId: string;
+  fileName: string;
+  fileInfo: Record<string, string>;
+  uploadTimestamp: number;
+  parts: Map<number, { data: Buffer; contentSha1: string }>;
+}
+
+interface B2Request {
+  endpoint: string;
+  params: Record<string, any>;
+  headers: IncomingMessage['headers'];
+  body: Buffer;
+  /** Path segments after the endpoint, e.g. the upload URL's file ID */
+  path: string[];
+}
+
+type FaultStatus = 401 | 429 | 503;
+
+class EmulatorError extends Error {
+  constructor(public readonly status: number, public readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+const FAULT_CODES: Record<FaultStatus, string> = {
+  401: 'expired_auth_token',
+  429: 'too_many_requests',
+  503: 'service_unavailable'
+};
+
+/**
+ * In-process HTTP server emulating the parts of the B2 native API (v2) that
+ * B2Service uses, strict enough to catch protocol bugs: tokens, SHA-1s,
+ * part sizes and percent-encoded names are checked as B2 checks them.
+ * Faults can be queued per endpoint, downloads are the endpoint 'download'.
+ */
+export class B2Emulator {
+  readonly files = new Map<string, EmulatedFile>();
+  readonly unfinished = new Map<string, UnfinishedLargeFile>();
+  /** Endpoint of every request received, in order */
+  readonly requests: string[] = [];
+  private readonly options: Required<B2EmulatorOptions>;
+  private readonly faults = new Map<string, FaultStatus[]>();
+  private readonly accountTokens = new Set<string>();
+  private readonly uploadTokens = new Map<string, string>();
+  private readonly downloadTokens = new Map<string, string>();
+  private server: Server | null = null;
+  private baseUrl = '';
+  private nextId = 1;
+
+  constructor(options: B2EmulatorOptions = {}) {
+    this.options = {
+      keyId: 'emulator-key-id',
+      applicationKey: 'emulator-key',
+      bucketId: 'emulator-bucket-id',
+      bucketName: 'emulator-bucket',
+      minimumPartSize: 5 * 1024 * 1024,
+      capabilities: ['listBuckets', 'listFiles', 'readFiles', 'writeFiles', 'deleteFiles'],
+      namePrefix: null,
+      restrictedToBucket: false,
+      ...options
+    };
+  }
+
+  /**
+   * Starts listening on a free local port and returns the URL to authorize against
+   */
+  async start(): Promise<string> {
+    this.server = createServer((request, response) => {
+      this.handle(request, response).catch(error => this.send(response, 500, {
+        status: 500,
+        code: 'internal_error',
+        message: error instanceof Error ? error.message : String(error)
+      }));
+    });
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (this.server) {
+      this.server.closeAllConnections();
+      await new Promise(resolve => this.server!.close(resolve));
+      this.server = null;
+    }
+  }
+
+  /**
+   * Fails the next requests to an endpoint (e.g. 'b2_upload_part') with the
+   * given statuses, one per request
+   */
+  injectFault(endpoint: string, ...statuses: FaultStatus[]): void {
+    this.faults.set(endpoint, [...(this.faults.get(endpoint) || []), ...statuses]);
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url || '/', this.baseUrl);
+    const body = await readBody(request);
+    const [, root, version, ...rest] = url.pathname.split('/');
+    const isDownload = root === 'file';
+    const endpoint = isDownload ? 'download' : rest[0];
+    this.requests.push(endpoint);
+
+    const fault = this.faults.get(endpoint)?.shift();
+    if (fault) {
+      this.send(response, fault, { status: fault, code: FAULT_CODES[fault], message: `Injected ${fault}` });
+      return;
+    }
+
+    try {
+      if (isDownload) {
+        this.download(request, response, url, [version, ...rest]);
+        return;
+      }
+      if (root !== 'b2api' || version !== 'v2') {
+        throw new EmulatorError(404, 'not_found', `Unknown path ${url.pathname}`);
+      }
+
+      const params: Record<string, any> = Object.fromEntries(url.searchParams);
+      if (request.method === 'POST' && request.headers['content-type']?.includes('application/json') && body.length) {
+        Object.assign(params, JSON.parse(body.toString()));
+      }
+      this.send(response, 200, this.call({ endpoint, params, headers: request.headers, body, path: rest.slice(1) }));
+    } catch (error) {
+      if (error instanceof EmulatorError) {
+        this.send(response, error.status, { status: error.status, code: error.code, message: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private call(request: B2Request): unknown {
+    const { endpoint, params } = request;
+    if (endpoint === 'b2_authorize_account') {
+      return this.authorizeAccount(request);
+    }
+    if (endpoint === 'b2_upload_file') {
+      return this.uploadFile(request);
+    }
+    if (endpoint === 'b2_upload_part') {
+      return this.uploadPart(request);
+    }
+
+    this.checkAccountToken(request);
+    switch (endpoint) {
+      case 'b2_list_buckets':
+        return {
+          buckets: [{ accountId: 'emulator-account', bucketId: this.options.bucketId, bucketName: this.options.bucketName, bucketType: 'allPrivate' }]
+            .filter(bucket => !params.bucketId || bucket.bucketId === params.bucketId)
+            .filter(bucket => !params.bucketName || bucket.bucketName === params.bucketName)
+        };
+      case 'b2_get_upload_url':
+        this.checkBucket(params.bucketId);
+        return {
+          bucketId: params.bucketId,
+          uploadUrl: `${this.baseUrl}/b2api/v2/b2_upload_file/${params.bucketId}`,
+          authorizationToken: this.issueToken(this.uploadTokens, params.bucketId)
+        };
+      case 'b2_list_file_names':
+        this.checkBucket(params.bucketId);
+        this.checkName(params.prefix || '');
+        return this.listFileNames(params);
+      case 'b2_start_large_file': {
+        this.checkBucket(params.bucketId);
+        this.checkName(params.fileName);
+        const file: UnfinishedLargeFile = {
+          fileId: `large-${this.nextId++}`,
+          fileName: params.fileName,
+          fileInfo: params.fileInfo || {},
+          uploadTimestamp: Date.now(),
+          parts: new Map()
+        };
+        this.unfinished.set(file.fileId, file);
+        return { fileId: file.fileId, fileName: file.fileName, bucketId: params.bucketId, fileInfo: file.fileInfo };
+      }
+      case 'b2_get_upload_part_url':
+        this.getUnfinished(params.fileId);
+        return {
+          fileId: params.fileId,
+          uploadUrl: `${this.baseUrl}/b2api/v2/b2_upload_part/${params.fileId}`,
+          authorizationToken: this.issueToken(this.uploadTokens, params.fileId)
+        };
+      case 'b2_finish_large_file':
+        return this.finishLargeFile(params);
+      case 'b2_list_unfinished_large_files':
+        this.checkBucket(params.bucketId);
+        this.checkName(params.namePrefix || '');
+        return {
+          files: [...this.unfinished.values()]
+            .filter(file => !params.namePrefix || file.fileName.startsWith(params.namePrefix))
+            .map(({ fileId, fileName, fileInfo, uploadTimestamp }) => ({ fileId, fileName, fileInfo, uploadTimestamp })),
+          nextFileId: null
+        };
+      case 'b2_list_parts':
+        return {
+          parts: [...this.getUnfinished(params.fileId).parts.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([partNumber, part]) => ({ partNumber, contentLength: part.data.length, contentSha1: part.contentSha1 })),
+          nextPartNumber: null
+        };
+      case 'b2_cancel_large_file':
+        this.getUnfinished(params.fileId);
+        this.unfinished.delete(params.fileId);
+        return { fileId: params.fileId };
+      case 'b2_get_download_authorization':
+        this.checkBucket(params.bucketId);
+        this.checkName(params.fileNamePrefix);
+        return {
+          bucketId: params.bucketId,
+          fileNamePrefix: params.fileNamePrefix,
+          authorizationToken: this.issueToken(this.downloadTokens, params.fileNamePrefix)
+        };
+      case 'b2_delete_file_version': {
+        this.checkName(params.fileName);
+        const file = this.files.get(params.fileName);
+        if (!file || file.fileId !== params.fileId) {
+          throw new EmulatorError(400, 'file_not_present', `File not present: ${params.fileName}`);
+        }
+        this.files.delete(params.fileName);
+        return { fileId: params.fileId, fileName: params.fileName };
+      }
+      default:
+        throw new EmulatorError(404, 'not_found', `Unknown endpoint ${endpoint}`);
+    }
+  }
+
+  private authorizeAccount(request: B2Request): unknown {
+    const expected = `Basic ${Buffer.from(`${this.options.keyId}:${this.options.applicationKey}`).toString('base64')}`;
+    if (request.headers.authorization !== expected) {
+      throw new EmulatorError(401, 'unauthorized', 'Invalid application key');
+    }
+    const authorizationToken = `account-${this.nextId++}`;
+    this.accountTokens.add(authorizationToken);
+    return {
+      accountId: 'emulator-account',
+      authorizationToken,
+      apiUrl: this.baseUrl,
+      downloadUrl: this.baseUrl,
+      recommendedPartSize: this.options.minimumPartSize,
+      absoluteMinimumPartSize: this.options.minimumPartSize,
+      allowed: {
+        bucketId: this.options.restrictedToBucket ? this.options.bucketId : null,
+        bucketName: this.options.restrictedToBucket ? this.options.bucketName : null,
+        capabilities: this.options.capabilities,
+        namePrefix: this.options.namePrefix
+      }
+    };
+  }
+
+  private uploadFile(request: B2Request): unknown {
+    const [bucketId] = request.path;
+    this.checkUploadToken(request, bucketId);
+    const fileName = decodeName(request.headers['x-bz-file-name']);
+    this.checkName(fileName);
+    const contentSha1 = this.checkContent(request);
+
+    const file: EmulatedFile = {
+      fileId: `file-${this.nextId++}`,
+      fileName,
+      data: request.body,
+      contentSha1,
+      fileInfo: getFileInfo(request.headers),
+      uploadTimestamp: Date.now()
+    };
+    this.files.set(fileName, file);
+    return this.describe(file);
+  }
+
+  private uploadPart(request: B2Request): unknown {
+    const [fileId] = request.path;
+    this.checkUploadToken(request, fileId);
+    const file = this.getUnfinished(fileId);
+    const partNumber = parseInt(String(request.headers['x-bz-part-number']), 10);
+    if (!(partNumber >= 1 && partNumber <= 10000)) {
+      throw new EmulatorError(400, 'bad_request', `Invalid part number ${request.headers['x-bz-part-number']}`);
+    }
+    const contentSha1 = this.checkContent(request);
+    file.parts.set(partNumber, { data: request.body, contentSha1 });
+    return { fileId, partNumber, contentLength: request.body.length, contentSha1 };
+  }
+
+  private finishLargeFile(params: Record<string, any>): unknown {
+    const file = this.getUnfinished(params.fileId);
+    const sha1s: string[] = params.partSha1Array || [];
+    if (sha1s.length < 2 || sha1s.length !== file.parts.size) {
+      throw new EmulatorError(400, 'bad_request', `Expected ${file.parts.size} part SHA-1s (at least 2), got ${sha1s.length}`);
+    }
+
+    const parts = sha1s.map((sha1, index) => {
+      const part = file.parts.get(index + 1);
+      if (!part || part.contentSha1 !== sha1) {
+        throw new EmulatorError(400, 'bad_request', `Part ${index + 1} SHA-1 does not match`);
+      }
+      if (index < sha1s.length - 1 && part.data.length < this.options.minimumPartSize) {
+        throw new EmulatorError(400, 'bad_request', `Part ${index + 1} is smaller than ${this.options.minimumPartSize} bytes`);
+      }
+      return part.data;
+    });
+
+    this.unfinished.delete(file.fileId);
+    const finished: EmulatedFile = {
+      fileId: file.fileId,
+      fileName: file.fileName,
+      data: Buffer.concat(parts),
+      contentSha1: 'none',
+      fileInfo: file.fileInfo,
+      uploadTimestamp: file.uploadTimestamp
+    };
+    this.files.set(file.fileName, finished);
+    return this.describe(finished);
+  }
+
+  private listFileNames(params: Record<string, any>): unknown {
+    const prefix: string = params.prefix || '';
+    const delimiter: string | undefined = params.delimiter || undefined;
+    const maxFileCount = parseInt(params.maxFileCount || '100', 10);
+    const entries = new Map<string, unknown>();
+
+    for (const file of [...this.files.values()].sort((a, b) => compareNames(a.fileName, b.fileName))) {
+      if (!file.fileName.startsWith(prefix) || (params.startFileName && file.fileName < params.startFileName)) {
+        continue;
+      }
+      const folderEnd = delimiter ? file.fileName.indexOf(delimiter, prefix.length) : -1;
+      if (folderEnd !== -1) {
+        const folderName = file.fileName.slice(0, folderEnd + 1);
+        entries.set(folderName, { action: 'folder', fileId: null, fileName: folderName, contentLength: 0, contentSha1: null, fileInfo: {}, uploadTimestamp: 0 });
+      } else {
+        entries.set(file.fileName, this.describe(file));
+      }
+    }
+
+    const names = [...entries.keys()].sort(compareNames);
+    return {
+      files: names.slice(0, maxFileCount).map(name => entries.get(name)),
+      nextFileName: names.length > maxFileCount ? names[maxFileCount] : null
+    };
+  }
+
+  private download(request: IncomingMessage, response: ServerResponse, url: URL, path: string[]): void {
+    const [bucketName, ...nameSegments] = path;
+    if (bucketName !== this.options.bucketName) {
+      throw new EmulatorError(404, 'not_found', `Bucket ${bucketName} does not exist`);
+    }
+    const fileName = nameSegments.map(segment => decodeURIComponent(segment)).join('/');
+    const token = url.searchParams.get('Authorization') || request.headers.authorization || '';
+    const tokenPrefix = this.downloadTokens.get(token);
+    if (!this.accountTokens.has(token) && (tokenPrefix === undefined || !fileName.startsWith(tokenPrefix))) {
+      throw new EmulatorError(401, 'unauthorized', `Not authorized to download ${fileName}`);
+    }
+
+    const file = this.files.get(fileName);
+    if (!file) {
+      throw new EmulatorError(404, 'not_found', `File ${fileName} does not exist`);
+    }
+
+    const headers = {
+      'Content-Type': 'application/octet-stream',
+      'X-Bz-File-Id': file.fileId,
+      'X-Bz-File-Name': encodeURIComponent(file.fileName),
+      'X-Bz-Content-Sha1': file.contentSha1
+    };
+    const range = request.headers.range?.match(/^bytes=(\d+)-(\d+)$/);
+    if (range) {
+      const start = parseInt(range[1], 10);
+      const end = Math.min(parseInt(range[2], 10), file.data.length - 1);
+      response.writeHead(206, { ...headers, 'Content-Range': `bytes ${start}-${end}/${file.data.length}` });
+      response.end(file.data.subarray(start, end + 1));
+      return;
+    }
+    response.writeHead(200, { ...headers, 'Content-Length': file.data.length });
+    response.end(file.data);
+  }
+
+  private checkAccountToken(request: B2Request): void {
+    if (!this.accountTokens.has(String(request.headers.authorization))) {
+      throw new EmulatorError(401, 'bad_auth_token', 'Invalid authorization token');
+    }
+  }
+
+  private checkUploadToken(request: B2Request, target: string): void {
+    if (this.uploadTokens.get(String(request.headers.authorization)) !== target) {
+      throw new EmulatorError(401, 'bad_auth_token', 'Invalid upload authorization token');
+    }
+  }
+
+  /**
+   * Keys with a name prefix may only name, list and download files below it
+   */
+  private checkName(fileName: string): void {
+    const { namePrefix } = this.options;
+    if (namePrefix && !fileName.startsWith(namePrefix)) {
+      throw new EmulatorError(401, 'unauthorized', `Application key is restricted to names starting with ${namePrefix}`);
+    }
+  }
+
+  private checkBucket(bucketId: string): void {
+    if (bucketId !== this.options.bucketId) {
+      throw new EmulatorError(400, 'bad_request', `Invalid bucketId: ${bucketId}`);
+    }
+  }
+
+  /**
+   * Checks the body against Content-Length and X-Bz-Content-Sha1
+   */
+  private checkContent(request: B2Request): string {
+    const contentLength = parseInt(String(request.headers['content-length']), 10);
+    if (contentLength !== request.body.length) {
+      throw new EmulatorError(400, 'bad_request', `Content-Length ${contentLength}, received ${request.body.length} bytes`);
+    }
+    const contentSha1 = createHash('sha1').update(request.body).digest('hex');
+    if (request.headers['x-bz-content-sha1'] !== contentSha1) {
+      throw new EmulatorError(400, 'bad_request', `Sha1 did not match data received`);
+    }
+    return contentSha1;
+  }
+
+  private getUnfinished(fileId: string): UnfinishedLargeFile {
+    const file = this.unfinished.get(fileId);
+    if (!file) {
+      throw new EmulatorError(400, 'bad_request', `No active upload for: ${fileId}`);
+    }
+    return file;
+  }
+
+  private issueToken(tokens: Map<string, string>, target: string): string {
+    const token = `token-${this.nextId++}`;
+    tokens.set(token, target);
+    return token;
+  }
+
+  private describe(file: EmulatedFile): unknown {
+    return {
+      action: 'upload',
+      fileId: file.fileId,
+      fileName: file.fileName,
+      contentLength: file.data.length,
+      contentSha1: file.contentSha1,
+      fileInfo: file.fileInfo,
+      uploadTimestamp: file.uploadTimestamp
+    };
+  }
+
+  private send(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
+
+async function readBody(request: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * B2 expects file names and info values percent-encoded ('+' for a space),
+ * raw spaces and non-ASCII characters are rejected
+ */
+function decodeName(header: string | string[] | undefined): string {
+  const value = String(header);
+  try {
+    if (/[^\x21-\x7e]/.test(value)) {
+      throw new Error('raw character');
+    }
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch (error) {
+    throw new EmulatorError(400, 'bad_request', `Value is not percent-encoded: ${value}`);
+  }
+}
+
+function getFileInfo(headers: IncomingMessage['headers']): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers)
+      .filter(([name]) => name.startsWith('x-bz-info-'))
+      .map(([name, value]) => [name.slice('x-bz-info-'.length), decodeName(value)])
+  );
+}
+
+function compareNames(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
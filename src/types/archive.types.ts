@@ -0,0 +1,17 @@
+import { Readable } from 'stream';
+
+/**
+ * One namespace of a mongodump archive, documents is a raw BSON stream
+ */
+export interface ArchiveCollection {
+  database: string;
+  collection: string;
+  documents: Readable;
+}
+
+export interface DumpStream {
+  /** mongodump --archive output */
+  archive: Readable;
+  /** Settles when mongodump exits, rejects on a non-zero exit code */
+  completed: Promise<void>;
+}
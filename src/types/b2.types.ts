@@ -1,7 +0,0 @@
-export interface B2File {
-  fileId: string;
-  fileName: string;
-  contentLength: number;
-  contentSha1: string;
-  uploadTimestamp: number;
-} 
\ No newline at end of file
@@ -1,7 +1,49 @@
+import { ExtendedJsonMode } from '../utils/bson.util';
+import { EncryptionKey } from './crypto.types';
+import { CompressionCodec } from '../utils/compression.util';
+import { ManifestCollection, ManifestOplog } from './manifest.types';
+import { NamespaceFilter } from './filter.types';
+
 export interface LocalFile {
   name: string;
   path: string;
+  database: string;
+  collection: string;
   size: number;
   checksum: string;
   lastModified: Date;
+}
+
+export interface BackupOptions {
+  extendedJsonMode?: ExtendedJsonMode;
+  /** Maximum size of a JSONL part, in bytes */
+  chunkSize?: number;
+  /** Codec applied to each part, the part size limit counts compressed bytes */
+  compression?: CompressionCodec;
+  /** Encrypts every part before upload when set */
+  encryption?: EncryptionKey;
+  /** Pipe mongodump --archive into the upload instead of dumping to disk first */
+  streaming?: boolean;
+  /** Namespaces to back up, everything when unset */
+  filter?: NamespaceFilter;
+  /** Capture the oplog during the dump for a consistent point-in-time snapshot */
+  oplog?: boolean;
+}
+
+/**
+ * What mongodump is asked to dump
+ */
+export interface DumpOptions {
+  filter?: NamespaceFilter;
+  /** Adds --oplog, which mongodump only accepts for full dumps, so the filter is then applied afterwards */
+  oplog?: boolean;
+}
+
+/**
+ * What a backup run uploaded, before the manifest is written
+ */
+export interface DumpUpload {
+  snapshotId: string;
+  collections: ManifestCollection[];
+  oplog?: ManifestOplog;
 } 
\ No newline at end of file
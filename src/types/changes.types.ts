@@ -0,0 +1,59 @@
+import { Readable } from 'stream';
+import { EncryptionKey } from './crypto.types';
+import { CompressionCodec } from '../utils/compression.util';
+import { ManifestPart } from './manifest.types';
+import { NamespaceFilter } from './filter.types';
+
+export interface ChangeEventStream {
+  /** One canonical Extended JSON change event per line */
+  events: Readable;
+  /** Settles when mongosh exits, rejects on a non-zero exit code */
+  completed: Promise<void>;
+}
+
+export interface ChangeStreamOptions {
+  /** Local directory the open segment is written to */
+  path: string;
+  /** Length of the time buckets segments are cut at, in milliseconds */
+  segmentDuration: number;
+  /** A segment is also cut once it holds this many uncompressed bytes */
+  maxSegmentSize: number;
+  /** Where the resume token of the last uploaded segment is persisted */
+  stateFile: string;
+  compression?: CompressionCodec;
+  /** Encrypts every segment before upload when set */
+  encryption?: EncryptionKey;
+  /** Namespaces whose events are kept, everything when unset */
+  filter?: NamespaceFilter;
+}
+
+/**
+ * Uploaded after the events of a segment, a segment is complete only once
+ * this exists. Segments chain through their resume tokens, so a gap in the
+ * captured events shows up as a segment whose previousResumeToken does not
+ * match the one before it.
+ */
+export interface ChangeSegment {
+  version: number;
+  segmentId: string;
+  /** Events are captured without gaps from this time on */
+  startedAt: string;
+  endedAt: string;
+  /** Token the change stream was resumed after, null when it started fresh */
+  previousResumeToken: string | null;
+  /** Token of the last event read into the segment, as canonical Extended JSON */
+  resumeToken: string;
+  /** Cluster time of the first and last event, in seconds */
+  firstEventTime: number;
+  lastEventTime: number;
+  /** The events as JSONL, documentCount counts events */
+  part: ManifestPart;
+}
+
+export interface ChangeStreamState {
+  /** Resume token of the last uploaded segment */
+  resumeToken: string | null;
+  lastSegmentId: string | null;
+  /** End of the last uploaded segment, where the next one starts */
+  lastSegmentEndedAt: string | null;
+}
@@ -0,0 +1,10 @@
+import { AppServices } from '../app';
+import { Config } from './config.types';
+
+export interface CommandContext {
+  json: boolean;
+  config: Config;
+  getServices: () => Promise<AppServices>;
+}
+
+export type CommandHandler = (args: string[], context: CommandContext) => Promise<number>;
@@ -0,0 +1,119 @@
+import { ExtendedJsonMode } from '../utils/bson.util';
+import { CompressionCodec } from '../utils/compression.util';
+import { RetentionPolicy } from './retention.types';
+import { RunOverlapPolicy } from './run.types';
+import { Keyring } from './crypto.types';
+import { StorageBackendName } from './storage.types';
+
+export interface Config {
+  mongo: {
+    uri: string;
+    containerName: string;
+  };
+  storage: {
+    /** Where snapshots and change segments are stored */
+    backend: StorageBackendName;
+  };
+  /** Empty strings unless the b2 backend is selected */
+  b2: {
+    keyId: string;
+    applicationKey: string;
+    /** Either the ID or the name of the bucket is set, B2Service resolves the other at startup */
+    bucketId: string;
+    bucketName: string;
+    /** Prepended to every file name, empty to use the application key's name prefix if it has one */
+    prefix: string;
+    /** Size of each part of a large file upload, in bytes */
+    partSize: number;
+    maxRetries: number;
+    /** Parts and files uploaded at the same time */
+    uploadConcurrency: number;
+    /** Where b2_authorize_account is called, the API URL comes from its response */
+    authUrl: string;
+  };
+  /** Endpoint, bucket and keys are empty unless the s3 backend is selected; it shares the b2 part size, retries and concurrency */
+  s3: {
+    /** Base URL of the S3-compatible API, buckets are addressed path-style */
+    endpoint: string;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+  };
+  filesystem: {
+    /** Directory the files are stored below, empty unless the filesystem backend is selected */
+    path: string;
+  };
+  backup: {
+    path: string;
+    /** Maximum size of a JSONL part, in bytes */
+    chunkSize: number;
+    extendedJsonMode: ExtendedJsonMode;
+    /** Codec applied to every JSONL part before encryption */
+    compression: CompressionCodec;
+    /** Pipe mongodump --archive into the upload instead of staging the dump on disk */
+    streaming: boolean;
+    /** db or db.collection globs to back up, everything when empty */
+    include: string[];
+    /** db or db.collection globs to leave out */
+    exclude: string[];
+    /** Capture the oplog written during the dump so restores can replay it */
+    oplog: boolean;
+  };
+  schedule: {
+    /** Five or six field cron expression */
+    cron: string;
+    /** IANA time zone the cron expression is evaluated in */
+    timezone: string;
+    /** Run a missed backup at startup when the last successful run is older than the previous slot */
+    catchUp: boolean;
+    /** Where the last run times are persisted */
+    stateFile: string;
+  };
+  run: {
+    /** What to do with a trigger while a backup is running */
+    overlap: RunOverlapPolicy;
+    /** Held for the duration of a run, shared by every process on the host */
+    lockFile: string;
+    /** How long shutdown waits for a running backup before aborting it, in milliseconds */
+    shutdownTimeout: number;
+  };
+  drill: {
+    /** Cron expression for restore drills, evaluated in the schedule's time zone; null disables them */
+    cron: string | null;
+    /** MongoDB image of the throwaway container, it needs mongosh and mongorestore */
+    image: string;
+    /** Restored documents per collection compared with the source */
+    sampleSize: number;
+    /** How long to wait for the drill container to accept connections, in milliseconds */
+    startupTimeout: number;
+    /** Where the last drill times are persisted */
+    stateFile: string;
+  };
+  changes: {
+    /** Tail the change stream and upload segments between snapshots */
+    enabled: boolean;
+    /** Length of the time buckets segments are cut at, in milliseconds */
+    segmentDuration: number;
+    /** Local directory the open segment is written to */
+    path: string;
+    /** Where the resume token of the last uploaded segment is persisted */
+    stateFile: string;
+  };
+  encryption: {
+    /** Key that new parts are encrypted with, null disables encryption */
+    keyId: string | null;
+    /** Every key that restores may need, including retired ones */
+    keyring: Keyring;
+  };
+  /** Null when no retention setting is configured, which disables pruning */
+  retention: RetentionPolicy | null;
+}
+
+export interface ConfigSources {
+  env?: NodeJS.ProcessEnv;
+  /** Path of a YAML or JSON config file */
+  configFile?: string;
+  /** Settings from command-line flags, keyed by setting path (e.g. `mongo.uri`) */
+  flags?: Record<string, string>;
+}
@@ -0,0 +1,7 @@
+/** Encryption keys by key ID */
+export type Keyring = Record<string, Buffer>;
+
+export interface EncryptionKey {
+  keyId: string;
+  key: Buffer;
+}
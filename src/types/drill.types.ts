@@ -0,0 +1,32 @@
+export interface CollectionDrillResult {
+  database: string;
+  collection: string;
+  /** Documents mongodump reported, or the manifest count for snapshots that predate it */
+  documentsExpected: number;
+  /** Documents counted in the drill container after the restore */
+  documentsRestored: number;
+  samplesChecked: number;
+  /** Sampled documents identical to the source document with the same _id */
+  samplesMatched: number;
+  restoreMs: number;
+  ok: boolean;
+}
+
+export interface DrillProblem {
+  /** database.collection */
+  collection: string;
+  problem: string;
+}
+
+export interface DrillReport {
+  snapshotId: string;
+  image: string;
+  ok: boolean;
+  startedAt: string;
+  /** Time until the drill container accepted connections */
+  startupMs: number;
+  restoreMs: number;
+  durationMs: number;
+  collections: CollectionDrillResult[];
+  problems: DrillProblem[];
+}
@@ -0,0 +1,10 @@
+/**
+ * Glob patterns on `db.collection`; `*` matches any run of characters and `?`
+ * a single one. A pattern without a dot matches a whole database.
+ */
+export interface NamespaceFilter {
+  /** Namespaces to back up, everything when empty */
+  include: string[];
+  /** Namespaces to leave out, checked after `include` */
+  exclude: string[];
+}
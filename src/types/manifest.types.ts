@@ -0,0 +1,51 @@
+import { ExtendedJsonMode } from '../utils/bson.util';
+import { CompressionCodec } from '../utils/compression.util';
+import { NamespaceFilter } from './filter.types';
+
+export interface ManifestPart {
+  fileName: string;
+  size: number;
+  sha1: string;
+  documentCount: number;
+  /** Codec the JSONL was compressed with before encryption, absent means none */
+  compression?: CompressionCodec;
+  /** Set when the part is encrypted, size and sha1 describe the encrypted object */
+  encryptionKeyId?: string;
+}
+
+export interface ManifestCollection {
+  database: string;
+  collection: string;
+  documentCount: number;
+  /** Documents mongodump reported dumping, absent in older snapshots */
+  reportedDocumentCount?: number;
+  parts: ManifestPart[];
+}
+
+/**
+ * Oplog entries mongodump --oplog captured while the dump ran
+ */
+export interface ManifestOplog {
+  documentCount: number;
+  parts: ManifestPart[];
+}
+
+export interface SnapshotManifest {
+  version: number;
+  snapshotId: string;
+  startedAt: string;
+  completedAt: string;
+  mongodumpVersion: string;
+  sourceUri: string;
+  extendedJsonMode: ExtendedJsonMode;
+  /** Include/exclude rules the snapshot was taken with, absent when everything was backed up */
+  filter?: NamespaceFilter;
+  collections: ManifestCollection[];
+  /** Present when the snapshot was taken with oplog capture */
+  oplog?: ManifestOplog;
+}
+
+export interface SnapshotSummary {
+  snapshotId: string;
+  complete: boolean;
+}
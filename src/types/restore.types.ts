@@ -0,0 +1,27 @@
+export interface RestoreOptions {
+  snapshotId: string;
+  databases?: string[];
+  collections?: string[];
+  targetDatabase?: string;
+  drop?: boolean;
+  batchSize?: number;
+  /** Replay the oplog captured with the snapshot after restoring the collections */
+  oplogReplay?: boolean;
+  /** mongorestore --oplogLimit timestamp, `<seconds>[:<ordinal>]` */
+  oplogLimit?: string;
+  /** Apply the change segments captured since the snapshot after restoring it */
+  replayChanges?: boolean;
+  /** ISO date, later change events are not applied */
+  changesUntil?: string;
+}
+
+export interface CollectionRestoreResult {
+  database: string;
+  collection: string;
+  targetDatabase: string;
+  parts: number;
+  documentsExpected: number;
+  documentsRead: number;
+  documentsRestored: number;
+  durationMs: number;
+}
@@ -0,0 +1,42 @@
+export interface RetentionPolicy {
+  keepLast: number;
+  keepDaily: number;
+  keepWeekly: number;
+  keepMonthly: number;
+}
+
+export type RetentionReason = 'last' | 'daily' | 'weekly' | 'monthly';
+
+export interface DatedSnapshot {
+  snapshotId: string;
+  createdAt: Date;
+}
+
+export interface RetainedSnapshot extends DatedSnapshot {
+  reasons: RetentionReason[];
+}
+
+export interface PrunedSnapshot {
+  snapshotId: string;
+  createdAt: Date | null;
+  complete: boolean;
+  files: number;
+  bytes: number;
+}
+
+/** A change segment that ended before the oldest kept snapshot started */
+export interface PrunedChangeSegment {
+  segmentId: string;
+  startedAt: string;
+  endedAt: string;
+  files: number;
+  bytes: number;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  policy: RetentionPolicy;
+  kept: RetainedSnapshot[];
+  pruned: PrunedSnapshot[];
+  prunedSegments: PrunedChangeSegment[];
+}
@@ -0,0 +1,12 @@
+export type RunOverlapPolicy = 'skip' | 'queue';
+
+export type RunOutcome<T> =
+  | { status: 'completed'; result: T }
+  | { status: 'skipped'; reason: string };
+
+export interface RunLock {
+  pid: number;
+  hostname: string;
+  trigger: string;
+  startedAt: string;
+}
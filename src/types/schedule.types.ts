@@ -0,0 +1,11 @@
+export interface ScheduleState {
+  lastRunAt: string | null;
+  lastSuccessfulRunAt: string | null;
+  lastError: string | null;
+}
+
+export interface ScheduleStatus extends ScheduleState {
+  cron: string;
+  timezone: string;
+  nextRunAt: string;
+}
@@ -0,0 +1,42 @@
+import { Readable } from 'stream';
+
+export type StorageBackendName = 'b2' | 's3' | 'filesystem';
+
+export interface StoredFile {
+  /** B2 file ID; the file name on backends without file versions */
+  fileId: string;
+  fileName: string;
+  contentLength: number;
+  /** 'none' when the backend does not report the SHA-1, e.g. B2 large files */
+  contentSha1: string;
+  uploadTimestamp: number;
+}
+
+export interface UploadOptions {
+  /** Stored as metadata on the file, X-Bz-Info-* on B2 and x-amz-meta-* on S3 */
+  fileInfo?: Record<string, string>;
+}
+
+/**
+ * Object storage that snapshots and change segments are kept in. Names are
+ * '/'-separated keys relative to the bucket.
+ */
+export interface StorageBackend {
+  authenticate(): Promise<void>;
+  /** Uploads a local file, skipping it when the name already exists */
+  uploadFile(filePath: string, fileName: string, options?: UploadOptions): Promise<StoredFile>;
+  /** Runs independent uploads with the backend's upload concurrency */
+  uploadFiles<T, R>(items: T[], upload: (item: T, index: number) => Promise<R>): Promise<R[]>;
+  /**
+   * Lists files under a prefix. Unless recursive, only the direct children are
+   * returned and sub-folders appear as entries whose name ends with '/'.
+   */
+  listExistingFiles(prefix?: string, recursive?: boolean): Promise<StoredFile[]>;
+  downloadFile(fileName: string): Promise<Readable>;
+  /** Downloads the bytes from start to end, both inclusive */
+  downloadFileRange(fileName: string, start: number, end: number): Promise<Buffer>;
+  deleteFile(fileName: string, fileId: string): Promise<void>;
+  fileExists(fileName: string): Promise<boolean>;
+  /** Returns the stored file's details, or null when it does not exist */
+  headFile(fileName: string): Promise<StoredFile | null>;
+}
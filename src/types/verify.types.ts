@@ -0,0 +1,31 @@
+export interface VerifyOptions {
+  /** Only compare the manifest with the bucket listing, without downloading parts */
+  quick?: boolean;
+}
+
+export interface VerifyProblem {
+  /** Part file name, or database.collection for collection-level problems */
+  fileName: string;
+  problem: string;
+}
+
+export interface CollectionVerifyResult {
+  database: string;
+  collection: string;
+  /** Documents mongodump reported, or the manifest count for snapshots that predate it */
+  documentsExpected: number;
+  /** Documents parsed from the downloaded parts, null for quick checks */
+  documentsRead: number | null;
+  ok: boolean;
+}
+
+export interface VerifyReport {
+  snapshotId: string;
+  ok: boolean;
+  quick: boolean;
+  parts: number;
+  bytesRead: number;
+  durationMs: number;
+  collections: CollectionVerifyResult[];
+  problems: VerifyProblem[];
+}
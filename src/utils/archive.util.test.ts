@@ -0,0 +1,143 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as BSON from 'bson';
+import { ArchiveDemuxer, Crc64 } from './archive.util';
+import { ArchiveCollection } from '../types/archive.types';
+
+const TERMINATOR = Buffer.from([0xff, 0xff, 0xff, 0xff]);
+
+const serialize = (document: BSON.Document) => Buffer.from(BSON.serialize(document));
+
+type Block = { namespace: string; documents?: BSON.Document[]; eof?: boolean; crc?: bigint };
+
+/**
+ * Builds an archive the way mongodump --archive lays it out
+ */
+function buildArchive(blocks: Block[]): Buffer {
+  const magic = Buffer.alloc(4);
+  magic.writeUInt32LE(0x8199e26d);
+  const crcs = new Map<string, Crc64>();
+  const parts = [
+    magic,
+    serialize({ version: '0.1', server_version: '7.0.5', tool_version: '100.9.4' }),
+    serialize({ db: 'app', collection: 'users', metadata: '{"indexes":[]}', size: 0, type: 'collection' }),
+    TERMINATOR
+  ];
+
+  for (const block of blocks) {
+    const [db, collection] = block.namespace.split('.');
+    const crc = crcs.get(block.namespace) || new Crc64();
+    crcs.set(block.namespace, crc);
+    const documents = (block.documents || []).map(serialize);
+    documents.forEach(document => crc.update(document));
+    const header = block.eof
+      ? { db, collection, EOF: true, CRC: BSON.Long.fromBigInt(block.crc ?? crc.digest()) }
+      : { db, collection, EOF: false, CRC: BSON.Long.fromNumber(0) };
+    parts.push(serialize(header), ...documents, TERMINATOR);
+  }
+  return Buffer.concat(parts);
+}
+
+function inPieces(data: Buffer, size: number): Readable {
+  const pieces: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += size) {
+    pieces.push(data.subarray(offset, offset + size));
+  }
+  return Readable.from(pieces);
+}
+
+async function readDocuments(stream: Readable): Promise<BSON.Document[]> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  const buffer = Buffer.concat(chunks);
+  const documents: BSON.Document[] = [];
+  for (let position = 0; position < buffer.length; position += buffer.readInt32LE(position)) {
+    documents.push(BSON.deserialize(buffer.subarray(position, position + buffer.readInt32LE(position))));
+  }
+  return documents;
+}
+
+/**
+ * Runs the demuxer and collects every namespace's documents
+ */
+async function demux(source: Readable): Promise<Record<string, BSON.Document[]>> {
+  const demuxer = new ArchiveDemuxer();
+  const reads: Promise<[string, BSON.Document[]]>[] = [];
+  demuxer.on('collection', (entry: ArchiveCollection) => {
+    const read = readDocuments(entry.documents)
+      .then((documents): [string, BSON.Document[]] => [`${entry.database}.${entry.collection}`, documents]);
+    // The pipeline reports the failure, streams are only destroyed along with it
+    read.catch(() => undefined);
+    reads.push(read);
+  });
+  await pipeline(source, demuxer);
+  return Object.fromEntries(await Promise.all(reads));
+}
+
+describe('Archive Utilities', () => {
+  test('should compute the CRC-64 used by mongodump', () => {
+    expect(new Crc64().update(Buffer.from('123456789')).digest()).toBe(0x995dc9bbdf1939fan);
+    expect(new Crc64().update(Buffer.from('1234')).update(Buffer.from('56789')).digest()).toBe(0x995dc9bbdf1939fan);
+  });
+
+  test('should split interleaved namespaces into per-collection streams', async () => {
+    const archive = buildArchive([
+      { namespace: 'app.users', documents: [{ name: 'ada' }, { name: 'bob' }] },
+      { namespace: 'crm.leads', documents: [{ lead: 1 }] },
+      { namespace: 'app.users', documents: [{ name: 'cy' }] },
+      { namespace: 'app.users', eof: true },
+      { namespace: 'app.empty', eof: true },
+      { namespace: 'crm.leads', eof: true }
+    ]);
+
+    const collections = await demux(inPieces(archive, 7));
+
+    expect(collections).toEqual({
+      'app.users': [{ name: 'ada' }, { name: 'bob' }, { name: 'cy' }],
+      'crm.leads': [{ lead: 1 }],
+      'app.empty': []
+    });
+  });
+
+  test('should wait for a slow consumer instead of buffering', async () => {
+    const documents = Array.from({ length: 2000 }, (_, i) => ({ i, padding: 'x'.repeat(100) }));
+    const archive = buildArchive([{ namespace: 'app.big', documents }, { namespace: 'app.big', eof: true }]);
+    const demuxer = new ArchiveDemuxer();
+    let stream: Readable | undefined;
+    demuxer.on('collection', (entry: ArchiveCollection) => {
+      stream = entry.documents;
+    });
+
+    const done = pipeline(inPieces(archive, 4096), demuxer);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(stream!.readableLength).toBeLessThan(archive.length / 2);
+    expect(await readDocuments(stream!)).toHaveLength(documents.length);
+    await done;
+  });
+
+  test('should fail on a CRC mismatch', async () => {
+    const archive = buildArchive([
+      { namespace: 'app.users', documents: [{ name: 'ada' }] },
+      { namespace: 'app.users', eof: true, crc: 42n }
+    ]);
+
+    await expect(demux(Readable.from([archive]))).rejects.toThrow('CRC mismatch for app.users');
+  });
+
+  test('should fail when the archive is truncated', async () => {
+    const archive = buildArchive([
+      { namespace: 'app.users', documents: [{ name: 'ada' }] },
+      { namespace: 'app.users', eof: true }
+    ]);
+
+    await expect(demux(Readable.from([archive.subarray(0, archive.length - 30)])))
+      .rejects.toThrow('Archive ended unexpectedly, app.users incomplete');
+  });
+
+  test('should reject input that is not an archive', async () => {
+    await expect(demux(Readable.from([serialize({ a: 1 })]))).rejects.toThrow('Input is not a mongodump archive');
+  });
+});
@@ -0,0 +1,213 @@
+import { PassThrough, Writable } from 'stream';
+import * as BSON from 'bson';
+import { waitForDrain } from './stream.util';
+import { ArchiveCollection } from '../types/archive.types';
+
+/**
+ * mongodump --archive layout, see mongo-tools archive/ for the writer:
+ *
+ *   magic (int32 0x8199e26d)
+ *   prelude header document, collection metadata documents, terminator
+ *   blocks of: namespace header document, BSON documents, terminator
+ *
+ * A terminator is the int32 -1. Blocks of different namespaces may be
+ * interleaved; the last block of a namespace has EOF set and carries the
+ * CRC-64 (ECMA) of all its documents.
+ */
+const ARCHIVE_MAGIC = 0x8199e26d;
+const TERMINATOR = -1;
+
+type ParserState = 'magic' | 'prelude-header' | 'prelude-metadata' | 'block-header' | 'block-body';
+
+interface NamespaceHeader {
+  db: string;
+  collection: string;
+  EOF: boolean;
+  CRC: bigint;
+}
+
+interface OpenNamespace {
+  entry: ArchiveCollection;
+  stream: PassThrough;
+  crc: Crc64;
+}
+
+const CRC64_POLY_HI = 0xc96c5795;
+const CRC64_POLY_LO = 0xd7870f42;
+const CRC64_TABLE_HI = new Uint32Array(256);
+const CRC64_TABLE_LO = new Uint32Array(256);
+for (let index = 0; index < 256; index++) {
+  let hi = 0;
+  let lo = index;
+  for (let bit = 0; bit < 8; bit++) {
+    const carry = lo & 1;
+    lo = ((lo >>> 1) | ((hi & 1) << 31)) >>> 0;
+    hi = hi >>> 1;
+    if (carry) {
+      hi = (hi ^ CRC64_POLY_HI) >>> 0;
+      lo = (lo ^ CRC64_POLY_LO) >>> 0;
+    }
+  }
+  CRC64_TABLE_HI[index] = hi;
+  CRC64_TABLE_LO[index] = lo;
+}
+
+/**
+ * CRC-64 with the ECMA polynomial as computed by Go's hash/crc64, kept in
+ * two 32-bit halves to avoid BigInt arithmetic per byte
+ */
+export class Crc64 {
+  private hi = 0xffffffff;
+  private lo = 0xffffffff;
+
+  update(data: Buffer): this {
+    let hi = this.hi;
+    let lo = this.lo;
+    for (let offset = 0; offset < data.length; offset++) {
+      const index = (lo ^ data[offset]) & 0xff;
+      lo = (CRC64_TABLE_LO[index] ^ ((lo >>> 8) | ((hi & 0xff) << 24))) >>> 0;
+      hi = (CRC64_TABLE_HI[index] ^ (hi >>> 8)) >>> 0;
+    }
+    this.hi = hi;
+    this.lo = lo;
+    return this;
+  }
+
+  digest(): bigint {
+    return (BigInt((~this.hi) >>> 0) << 32n) | BigInt((~this.lo) >>> 0);
+  }
+}
+
+/**
+ * Splits a mongodump archive into one raw BSON stream per collection. A
+ * 'collection' event is emitted with an ArchiveCollection when a namespace
+ * first appears, and its stream ends when the namespace's EOF block arrives.
+ * Writes wait while a collection stream is full, so the consumer controls
+ * the pace; with interleaved namespaces every open stream has to be read.
+ */
+export class ArchiveDemuxer extends Writable {
+  private buffer: Buffer = Buffer.alloc(0);
+  private state: ParserState = 'magic';
+  private current: OpenNamespace | null = null;
+  private namespaces = new Map<string, OpenNamespace>();
+
+  _write(chunk: Buffer, encoding: BufferEncoding, callback: (error?: Error | null) => void) {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    this.parse().then(() => callback(), callback);
+  }
+
+  _final(callback: (error?: Error | null) => void) {
+    const open = [...this.namespaces.keys()];
+    if (this.state !== 'block-header' || this.buffer.length || open.length) {
+      const detail = open.length ? `, ${open.join(', ')} incomplete` : '';
+      callback(new Error(`Archive ended unexpectedly${detail}`));
+      return;
+    }
+    callback();
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null) => void) {
+    for (const namespace of this.namespaces.values()) {
+      namespace.stream.destroy(error || new Error('Archive stream closed'));
+    }
+    this.namespaces.clear();
+    callback(error);
+  }
+
+  private async parse() {
+    if (this.state === 'magic') {
+      if (this.buffer.length < 4) return;
+      if (this.buffer.readUInt32LE(0) !== ARCHIVE_MAGIC) {
+        throw new Error('Input is not a mongodump archive');
+      }
+      this.buffer = this.buffer.subarray(4);
+      this.state = 'prelude-header';
+    }
+
+    for (let item = this.nextItem(); item !== null; item = this.nextItem()) {
+      switch (this.state) {
+        case 'prelude-header':
+          if (item === TERMINATOR) throw new Error('Archive prelude is missing its header');
+          this.state = 'prelude-metadata';
+          break;
+        case 'prelude-metadata':
+          // Collection metadata (indexes, options) is not part of the JSONL snapshot
+          if (item === TERMINATOR) this.state = 'block-header';
+          break;
+        case 'block-header':
+          if (item === TERMINATOR) throw new Error('Unexpected terminator before a namespace header');
+          this.openBlock(BSON.deserialize(item, { useBigInt64: true }) as NamespaceHeader);
+          break;
+        case 'block-body':
+          if (item === TERMINATOR) {
+            this.current = null;
+            this.state = 'block-header';
+          } else {
+            await this.writeDocument(item);
+          }
+          break;
+      }
+    }
+  }
+
+  /**
+   * Takes the next document or terminator off the buffer, null when it is incomplete
+   */
+  private nextItem(): Buffer | typeof TERMINATOR | null {
+    if (this.buffer.length < 4) return null;
+
+    const size = this.buffer.readInt32LE(0);
+    if (size === TERMINATOR) {
+      this.buffer = this.buffer.subarray(4);
+      return TERMINATOR;
+    }
+    if (size < 5) {
+      throw new Error(`Invalid document size ${size} in archive`);
+    }
+    if (this.buffer.length < size) return null;
+
+    const item = this.buffer.subarray(0, size);
+    this.buffer = this.buffer.subarray(size);
+    return item;
+  }
+
+  private openBlock(header: NamespaceHeader) {
+    const key = `${header.db}.${header.collection}`;
+    let namespace = this.namespaces.get(key);
+    if (!namespace) {
+      const stream = new PassThrough();
+      namespace = {
+        entry: { database: header.db, collection: header.collection, documents: stream },
+        stream,
+        crc: new Crc64()
+      };
+      this.namespaces.set(key, namespace);
+      this.emit('collection', namespace.entry);
+    }
+
+    if (header.EOF) {
+      const expected = BigInt.asUintN(64, BigInt(header.CRC));
+      const actual = namespace.crc.digest();
+      if (expected !== actual) {
+        throw new Error(`CRC mismatch for ${key}: archive has ${expected.toString(16)}, data has ${actual.toString(16)}`);
+      }
+      this.namespaces.delete(key);
+      namespace.stream.end();
+    }
+
+    this.current = namespace;
+    this.state = 'block-body';
+  }
+
+  private async writeDocument(document: Buffer) {
+    const namespace = this.current!;
+    if (!this.namespaces.has(`${namespace.entry.database}.${namespace.entry.collection}`)) {
+      throw new Error(`Documents after EOF for ${namespace.entry.database}.${namespace.entry.collection}`);
+    }
+
+    namespace.crc.update(document);
+    if (!namespace.stream.write(document)) {
+      await waitForDrain(namespace.stream);
+    }
+  }
+}
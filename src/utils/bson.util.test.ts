@@ -0,0 +1,187 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import { randomBytes } from 'crypto';
+import { gunzipSync } from 'zlib';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import * as BSON from 'bson';
+import { convertBsonToJsonlChunks, JsonlToBsonTransform } from './bson.util';
+import { DecryptTransform } from './crypto.util';
+
+async function collect(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk as Buffer));
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('BSON Utils', () => {
+  let workDir: string;
+
+  const documents: BSON.Document[] = [
+    {
+      _id: new BSON.ObjectId('65f2e1a4c3b2a1f0e9d8c7b6'),
+      createdAt: new Date('2024-03-14T12:00:00.123Z'),
+      count: new BSON.Int32(42),
+      ratio: new BSON.Double(1),
+      negativeZero: new BSON.Double(-0),
+      big: BSON.Long.fromString('9007199254740993'),
+      price: BSON.Decimal128.fromString('19.99'),
+      payload: new BSON.Binary(Buffer.from([0, 1, 2, 255]), BSON.Binary.SUBTYPE_BYTE_ARRAY),
+      uuid: new BSON.Binary(Buffer.alloc(16, 7), BSON.Binary.SUBTYPE_UUID),
+      pattern: new BSON.BSONRegExp('^a.*z$', 'im'),
+      ts: new BSON.Timestamp({ t: 1710417600, i: 3 }),
+      min: new BSON.MinKey(),
+      max: new BSON.MaxKey(),
+      nested: { tags: ['a', new BSON.Int32(1), null], flag: true }
+    },
+    { _id: new BSON.Int32(2), name: 'plain' }
+  ];
+  const bson = Buffer.concat(documents.map(doc => Buffer.from(BSON.serialize(doc))));
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(path.join(tmpdir(), 'bson-util-'));
+    await writeFile(path.join(workDir, 'items.bson'), bson);
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  describe('convertBsonToJsonlChunks', () => {
+    test('should write canonical Extended JSON by default', async () => {
+      const chunks = await convertBsonToJsonlChunks({
+        inputPath: path.join(workDir, 'items.bson'),
+        outputDir: path.join(workDir, 'out')
+      });
+
+      expect(chunks).toEqual([{ path: path.join(workDir, 'out', 'items.jsonl.part1'), documentCount: 2 }]);
+      const [first] = (await readFile(chunks[0].path, 'utf8')).split('\n');
+      expect(JSON.parse(first)).toEqual(expect.objectContaining({
+        _id: { $oid: '65f2e1a4c3b2a1f0e9d8c7b6' },
+        createdAt: { $date: { $numberLong: '1710417600123' } },
+        count: { $numberInt: '42' },
+        ratio: { $numberDouble: '1.0' },
+        big: { $numberLong: '9007199254740993' },
+        price: { $numberDecimal: '19.99' }
+      }));
+    });
+
+    test('should write relaxed Extended JSON when requested', async () => {
+      const chunks = await convertBsonToJsonlChunks({
+        inputPath: path.join(workDir, 'items.bson'),
+        outputDir: path.join(workDir, 'out'),
+        mode: 'relaxed'
+      });
+
+      const [first] = (await readFile(chunks[0].path, 'utf8')).split('\n');
+      expect(JSON.parse(first)).toEqual(expect.objectContaining({
+        createdAt: { $date: '2024-03-14T12:00:00.123Z' },
+        count: 42
+      }));
+    });
+
+    test('should split output into parts with per-part document counts', async () => {
+      const chunks = await convertBsonToJsonlChunks({
+        inputPath: path.join(workDir, 'items.bson'),
+        outputDir: path.join(workDir, 'out'),
+        chunkSize: 1
+      });
+
+      expect(chunks.map(chunk => path.basename(chunk.path))).toEqual(['items.jsonl.part1', 'items.jsonl.part2']);
+      expect(chunks.map(chunk => chunk.documentCount)).toEqual([1, 1]);
+    });
+
+    test('should gzip parts and name them .jsonl.gz', async () => {
+      const chunks = await convertBsonToJsonlChunks({
+        inputPath: path.join(workDir, 'items.bson'),
+        outputDir: path.join(workDir, 'out'),
+        compression: 'gzip'
+      });
+
+      expect(chunks).toEqual([{ path: path.join(workDir, 'out', 'items.jsonl.gz.part1'), documentCount: 2 }]);
+      const jsonl = gunzipSync(await readFile(chunks[0].path));
+      const restored = await collect(Readable.from([jsonl]).pipe(new JsonlToBsonTransform()));
+      expect(restored.equals(bson)).toBe(true);
+    });
+
+    test('should encrypt parts after compressing them', async () => {
+      const key = { keyId: 'key-2024', key: randomBytes(32) };
+      const chunks = await convertBsonToJsonlChunks({
+        inputPath: path.join(workDir, 'items.bson'),
+        outputDir: path.join(workDir, 'out'),
+        compression: 'gzip',
+        encryption: key
+      });
+
+      expect(chunks).toEqual([{ path: path.join(workDir, 'out', 'items.jsonl.gz.part1'), documentCount: 2 }]);
+      const encrypted = await readFile(chunks[0].path);
+      expect(encrypted.subarray(0, 4).toString()).toBe('MB2E');
+      const compressed = await collect(Readable.from([encrypted]).pipe(new DecryptTransform({ [key.keyId]: key.key })));
+      const restored = await collect(Readable.from([gunzipSync(compressed)]).pipe(new JsonlToBsonTransform()));
+      expect(restored.equals(bson)).toBe(true);
+    });
+
+    test('should measure the part size on compressed bytes', async () => {
+      // Hex strings compress to roughly half their size
+      const many = Array.from({ length: 4000 }, (_, i) => ({ i, data: randomBytes(48).toString('hex') }));
+      await writeFile(
+        path.join(workDir, 'many.bson'),
+        Buffer.concat(many.map(doc => Buffer.from(BSON.serialize(doc))))
+      );
+      const chunkSize = 64 * 1024;
+
+      const chunks = await convertBsonToJsonlChunks({
+        inputPath: path.join(workDir, 'many.bson'),
+        outputDir: path.join(workDir, 'out'),
+        chunkSize,
+        compression: 'gzip'
+      });
+
+      const plainSizes = await Promise.all(chunks.map(async chunk => gunzipSync(await readFile(chunk.path)).length));
+      const compressedSizes = await Promise.all(chunks.map(async chunk => (await stat(chunk.path)).size));
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.reduce((sum, chunk) => sum + chunk.documentCount, 0)).toBe(many.length);
+      // Full parts hold more than chunkSize of JSONL, and the flush before each
+      // check keeps them within one line of chunkSize on disk
+      const longestLine = Math.max(...many.map(doc => BSON.EJSON.stringify(doc).length + 1));
+      expect(plainSizes[0]).toBeGreaterThan(chunkSize);
+      compressedSizes.slice(0, -1).forEach(size => {
+        expect(size).toBeGreaterThanOrEqual(chunkSize);
+        expect(size).toBeLessThanOrEqual(chunkSize + longestLine);
+      });
+      expect(compressedSizes[compressedSizes.length - 1]).toBeLessThanOrEqual(chunkSize + longestLine);
+    });
+  });
+
+  describe('round trip', () => {
+    test('should restore canonical JSONL to byte-identical BSON', async () => {
+      const chunks = await convertBsonToJsonlChunks({
+        inputPath: path.join(workDir, 'items.bson'),
+        outputDir: path.join(workDir, 'out')
+      });
+
+      const jsonl = await readFile(chunks[0].path);
+      const restored = await collect(Readable.from([jsonl]).pipe(new JsonlToBsonTransform()));
+
+      expect(restored.equals(bson)).toBe(true);
+    });
+  });
+
+  describe('JsonlToBsonTransform', () => {
+    test('should handle lines split across chunks and count documents', async () => {
+      const transform = new JsonlToBsonTransform(1);
+      const restored = await collect(Readable.from([
+        Buffer.from('{"a":{"$numberInt":"1"}}\n{"a":'),
+        Buffer.from('{"$numberInt":"2"}}\n\n')
+      ]).pipe(transform));
+
+      expect(transform.getDocumentCount()).toBe(2);
+      expect(restored.equals(Buffer.concat([
+        Buffer.from(BSON.serialize({ a: 1 })),
+        Buffer.from(BSON.serialize({ a: 2 }))
+      ]))).toBe(true);
+    });
+  });
+});
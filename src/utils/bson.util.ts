@@ -1,25 +1,63 @@
 import { createReadStream, createWriteStream } from 'fs';
-import { Transform } from 'stream';
+import { Readable, Transform } from 'stream';
+import { StringDecoder } from 'string_decoder';
 import * as BSON from 'bson';
 import path from 'path';
 import { mkdir } from 'fs/promises';
+import { CompressionCodec, createCompressStream, flushCompressStream, getCodecExtension } from './compression.util';
+import { EncryptTransform } from './crypto.util';
+import { EncryptionKey } from '../types/crypto.types';
+import { waitForDrain } from './stream.util';
 
 const CHUNK_SIZE = 10 * 1024 * 1024; // 10MB in bytes
 
-interface BsonToJsonlOptions {
-  inputPath: string;
+/**
+ * MongoDB Extended JSON v2 output mode. Canonical preserves every BSON type
+ * and round-trips exactly; relaxed is more readable but loses numeric types.
+ */
+export type ExtendedJsonMode = 'canonical' | 'relaxed';
+
+interface BsonStreamToJsonlOptions {
   outputDir: string;
+  baseName: string;
+  /**
+   * Compressed bytes after which a part is closed. A part exceeds it by at
+   * most the last line written to it; encryption adds its framing on top.
+   */
   chunkSize?: number;
+  mode?: ExtendedJsonMode;
+  compression?: CompressionCodec;
+  /** Encrypts each part after compressing it, before it is written to disk */
+  encryption?: EncryptionKey;
+  onChunk?: (chunk: JsonlChunk) => Promise<void>;
+}
+
+interface BsonToJsonlOptions extends Omit<BsonStreamToJsonlOptions, 'baseName' | 'onChunk'> {
+  inputPath: string;
+}
+
+// Keep BSON wrapper types (Int32, Double, Long, BSONRegExp) so EJSON can
+// describe them exactly instead of collapsing them into JS values
+const DESERIALIZE_OPTIONS: BSON.DeserializeOptions = {
+  promoteValues: false,
+  bsonRegExp: true
+};
+
+export interface JsonlChunk {
+  path: string;
+  documentCount: number;
 }
 
 class BsonToJsonlTransform extends Transform {
   private buffer: Buffer;
   private position: number;
+  private relaxed: boolean;
 
-  constructor() {
+  constructor(mode: ExtendedJsonMode = 'canonical') {
     super();
     this.buffer = Buffer.alloc(0);
     this.position = 0;
+    this.relaxed = mode === 'relaxed';
   }
 
   _transform(chunk: Buffer, encoding: string, callback: (error?: Error | null) => void) {
@@ -46,8 +84,8 @@ class BsonToJsonlTransform extends Transform {
         try {
           // Extract and parse the complete BSON document
           const docBuffer = this.buffer.slice(this.position, this.position + size);
-          const doc = BSON.deserialize(docBuffer);
-          this.push(JSON.stringify(doc) + '\n');
+          const doc = BSON.deserialize(docBuffer, DESERIALIZE_OPTIONS);
+          this.push(BSON.EJSON.stringify(doc, { relaxed: this.relaxed }) + '\n');
           
           // Move position to next document
           this.position += size;
@@ -83,87 +121,277 @@ class BsonToJsonlTransform extends Transform {
   }
 }
 
+/**
+ * Splits the JSONL stream into part files, compressing each part with the
+ * given codec and then encrypting it when a key is given. The part size limit
+ * applies to the bytes written to disk, so with compression a part holds more
+ * documents than with plain JSONL.
+ * When onChunk is set, each part is handed over as soon as it is complete
+ * and the stream waits for it before starting the next one.
+ */
 class ChunkingTransform extends Transform {
   private currentChunk: number;
   private currentSize: number;
+  private unflushedSize: number;
   private outputDir: string;
   private baseName: string;
-  private currentStream: NodeJS.WritableStream | null;
+  private currentStream: Transform | null;
+  private currentWrite: Promise<void> | null;
   private chunkSize: number;
-  private chunkPaths: string[];
+  private codec: CompressionCodec;
+  private encryption?: EncryptionKey;
+  private onChunk?: (chunk: JsonlChunk) => Promise<void>;
+  private chunks: JsonlChunk[];
 
-  constructor(outputDir: string, baseName: string, chunkSize: number) {
+  constructor(
+    outputDir: string,
+    baseName: string,
+    chunkSize: number,
+    codec: CompressionCodec = 'none',
+    onChunk?: (chunk: JsonlChunk) => Promise<void>,
+    encryption?: EncryptionKey
+  ) {
     super();
     this.currentChunk = 0;
     this.currentSize = 0;
+    this.unflushedSize = 0;
     this.outputDir = outputDir;
     this.baseName = baseName;
     this.chunkSize = chunkSize;
+    this.codec = codec;
+    this.onChunk = onChunk;
+    this.encryption = encryption;
     this.currentStream = null;
-    this.chunkPaths = [];
+    this.currentWrite = null;
+    this.chunks = [];
   }
 
   _transform(chunk: Buffer, encoding: string, callback: (error?: Error | null) => void) {
-    try {
-      if (!this.currentStream || this.currentSize >= this.chunkSize) {
-        if (this.currentStream) {
-          this.currentStream.end();
-        }
-        this.currentChunk++;
-        this.currentSize = 0;
-        const chunkPath = this.getChunkPath();
-        this.chunkPaths.push(chunkPath);
-        this.currentStream = createWriteStream(chunkPath);
-      }
+    this.writeChunk(chunk).then(() => callback(), callback);
+  }
 
-      this.currentStream.write(chunk);
-      this.currentSize += chunk.length;
-      callback();
-    } catch (error) {
-      callback(error as Error);
+  _flush(callback: (error?: Error | null) => void) {
+    // Only finish once the last chunk file has been fully written to disk
+    this.finishCurrentStream().then(() => callback(), callback);
+  }
+
+  private async writeChunk(chunk: Buffer) {
+    if (this.currentStream && await this.isCurrentPartFull()) {
+      await this.finishCurrentStream();
+    }
+    if (!this.currentStream) {
+      this.startNextStream();
+    }
+
+    this.chunks[this.chunks.length - 1].documentCount += countLines(chunk);
+    if (this.codec !== 'none') {
+      this.unflushedSize += chunk.length;
+    }
+    // Wait for the compressor to drain so a slow disk does not buffer the whole collection
+    if (!this.currentStream!.write(chunk)) {
+      await waitForDrain(this.currentStream!);
     }
   }
 
-  _flush(callback: (error?: Error | null) => void) {
-    try {
-      if (this.currentStream) {
-        this.currentStream.end();
-      }
-      callback();
-    } catch (error) {
-      callback(error as Error);
+  /**
+   * Compressors hold back output until they have enough input, so once the
+   * part may be full the compressor is flushed and the check is exact
+   */
+  private async isCurrentPartFull(): Promise<boolean> {
+    const compressor = this.currentStream!;
+    // Emitted, waiting to be read, or not yet taken by the compressor
+    const size = () => this.currentSize + compressor.readableLength + compressor.writableLength;
+
+    if (size() + this.unflushedSize < this.chunkSize) {
+      return false;
+    }
+    if (this.unflushedSize > 0) {
+      await flushCompressStream(compressor, this.codec);
+      this.unflushedSize = 0;
+    }
+    return size() >= this.chunkSize;
+  }
+
+  private startNextStream() {
+    this.currentChunk++;
+    this.currentSize = 0;
+    this.unflushedSize = 0;
+    const chunkPath = this.getChunkPath();
+    this.chunks.push({ path: chunkPath, documentCount: 0 });
+
+    const compressor = createCompressStream(this.codec);
+    const output = this.encryption ? compressor.pipe(new EncryptTransform(this.encryption)) : compressor;
+    const file = createWriteStream(chunkPath);
+    // Count what leaves the compressor, not what goes into it
+    compressor.on('data', (data: Buffer) => {
+      this.currentSize += data.length;
+    });
+    this.currentWrite = new Promise<void>((resolve, reject) => {
+      file.on('finish', resolve);
+      file.on('error', (error) => {
+        compressor.destroy(error);
+        reject(error);
+      });
+      compressor.on('error', reject);
+      output.on('error', reject);
+    });
+    // Failures surface when the part is finished, keep them from being reported as unhandled before that
+    this.currentWrite.catch(() => undefined);
+    output.pipe(file);
+    this.currentStream = compressor;
+  }
+
+  private async finishCurrentStream() {
+    if (!this.currentStream) return;
+
+    this.currentStream.end();
+    this.currentStream = null;
+    await this.currentWrite;
+    if (this.onChunk) {
+      await this.onChunk(this.chunks[this.chunks.length - 1]);
     }
   }
 
   private getChunkPath(): string {
-    return path.join(this.outputDir, `${this.baseName}.jsonl.part${this.currentChunk}`);
+    return path.join(
+      this.outputDir,
+      `${this.baseName}.jsonl${getCodecExtension(this.codec)}.part${this.currentChunk}`
+    );
   }
 
-  getChunkPaths(): string[] {
-    return this.chunkPaths;
+  getChunks(): JsonlChunk[] {
+    return this.chunks;
   }
 }
 
-export async function convertBsonToJsonlChunks({ 
-  inputPath, 
-  outputDir, 
-  chunkSize = CHUNK_SIZE 
-}: BsonToJsonlOptions): Promise<string[]> {
+function countLines(chunk: Buffer | string): number {
+  const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+  let count = 0;
+  for (let index = buffer.indexOf(0x0a); index !== -1; index = buffer.indexOf(0x0a, index + 1)) {
+    count++;
+  }
+  return count;
+}
+
+export async function convertBsonToJsonlChunks({
+  inputPath,
+  ...options
+}: BsonToJsonlOptions): Promise<JsonlChunk[]> {
+  return convertBsonStreamToJsonlChunks(createReadStream(inputPath), {
+    ...options,
+    baseName: path.basename(inputPath, '.bson')
+  });
+}
+
+/**
+ * Converts a raw BSON document stream into JSONL parts named after baseName.
+ * With onChunk, each part is passed on as soon as it is written, so a caller
+ * that uploads and deletes it keeps at most one part on disk.
+ */
+export async function convertBsonStreamToJsonlChunks(
+  input: Readable,
+  {
+    outputDir,
+    baseName,
+    chunkSize = CHUNK_SIZE,
+    mode = 'canonical',
+    compression = 'none',
+    encryption,
+    onChunk
+  }: BsonStreamToJsonlOptions
+): Promise<JsonlChunk[]> {
   // Create output directory if it doesn't exist
   await mkdir(outputDir, { recursive: true });
 
-  // Get base name from input file
-  const baseName = path.basename(inputPath, '.bson');
-
   return new Promise((resolve, reject) => {
-    const readStream = createReadStream(inputPath);
-    const bsonToJsonl = new BsonToJsonlTransform();
-    const chunking = new ChunkingTransform(outputDir, baseName, chunkSize);
+    const bsonToJsonl = new BsonToJsonlTransform(mode);
+    const chunking = new ChunkingTransform(outputDir, baseName, chunkSize, compression, onChunk, encryption);
 
-    readStream
+    input.on('error', reject);
+    bsonToJsonl.on('error', reject);
+
+    input
       .pipe(bsonToJsonl)
       .pipe(chunking)
-      .on('finish', () => resolve(chunking.getChunkPaths()))
+      .on('finish', () => resolve(chunking.getChunks()))
       .on('error', reject);
   });
-} 
\ No newline at end of file
+}
+
+const RESTORE_BATCH_SIZE = 1000; // documents per write to mongorestore
+
+/**
+ * Parses Extended JSON lines back into a raw BSON document stream. Documents are grouped
+ * into batches so the consumer receives fewer, larger writes.
+ */
+export class JsonlToBsonTransform extends Transform {
+  private decoder: StringDecoder;
+  private remainder: string;
+  private batch: Buffer[];
+  private batchSize: number;
+  private lineNumber: number;
+  private documentCount: number;
+
+  constructor(batchSize: number = RESTORE_BATCH_SIZE) {
+    super();
+    this.decoder = new StringDecoder('utf8');
+    this.remainder = '';
+    this.batch = [];
+    this.batchSize = batchSize;
+    this.lineNumber = 0;
+    this.documentCount = 0;
+  }
+
+  _transform(chunk: Buffer, encoding: string, callback: (error?: Error | null) => void) {
+    try {
+      const lines = (this.remainder + this.decoder.write(chunk)).split('\n');
+      this.remainder = lines.pop() || '';
+
+      for (const line of lines) {
+        this.processLine(line);
+      }
+
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: (error?: Error | null) => void) {
+    try {
+      this.processLine(this.remainder + this.decoder.end());
+      this.remainder = '';
+      this.pushBatch();
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  getDocumentCount(): number {
+    return this.documentCount;
+  }
+
+  private processLine(line: string) {
+    this.lineNumber++;
+    if (!line.trim()) return;
+
+    try {
+      // Non-relaxed parsing keeps numbers typed, so both EJSON modes load back
+      this.batch.push(Buffer.from(BSON.serialize(BSON.EJSON.parse(line, { relaxed: false }))));
+    } catch (error) {
+      throw new Error(`Failed to parse JSONL document at line ${this.lineNumber}: ${error}`);
+    }
+
+    this.documentCount++;
+    if (this.batch.length >= this.batchSize) {
+      this.pushBatch();
+    }
+  }
+
+  private pushBatch() {
+    if (this.batch.length === 0) return;
+    this.push(Buffer.concat(this.batch));
+    this.batch = [];
+  }
+}
@@ -0,0 +1,82 @@
+import { Readable } from 'stream';
+import { gunzipSync, gzipSync } from 'zlib';
+import {
+  createCompressStream,
+  createDecompressStream,
+  flushCompressStream,
+  getCodecExtension,
+  isCodecAvailable
+} from './compression.util';
+
+async function collect(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('Compression Utilities', () => {
+  const jsonl = Buffer.from('{"_id":{"$oid":"65f2c0a1e4b0a1b2c3d4e5f6"},"name":"Ada"}\n'.repeat(500));
+
+  test('should name parts after the codec', () => {
+    expect(getCodecExtension('none')).toBe('');
+    expect(getCodecExtension('gzip')).toBe('.gz');
+    expect(getCodecExtension('zstd')).toBe('.zst');
+  });
+
+  test('should pass data through unchanged without a codec', async () => {
+    const output = await collect(Readable.from([jsonl]).pipe(createCompressStream('none')));
+
+    expect(output.equals(jsonl)).toBe(true);
+  });
+
+  test('should round trip gzip', async () => {
+    const compressed = await collect(Readable.from([jsonl]).pipe(createCompressStream('gzip')));
+    const restored = await collect(Readable.from([compressed]).pipe(createDecompressStream('gzip')));
+
+    expect(compressed.length).toBeLessThan(jsonl.length);
+    expect(restored.equals(jsonl)).toBe(true);
+  });
+
+  test('should decompress gzip written by other tools', async () => {
+    const restored = await collect(Readable.from([gzipSync(jsonl)]).pipe(createDecompressStream('gzip')));
+
+    expect(restored.equals(jsonl)).toBe(true);
+  });
+
+  test('should emit everything written so far when flushed', async () => {
+    const compressor = createCompressStream('gzip');
+    const chunks: Buffer[] = [];
+    compressor.on('data', chunk => chunks.push(chunk));
+    compressor.write(jsonl);
+
+    await flushCompressStream(compressor, 'gzip');
+    const flushed = Buffer.concat(chunks).length;
+    compressor.end();
+    await new Promise(resolve => compressor.on('end', resolve));
+
+    // Only the empty final block and the trailer are left after the flush
+    expect(Buffer.concat(chunks).length - flushed).toBeLessThan(16);
+    expect(gunzipSync(Buffer.concat(chunks)).equals(jsonl)).toBe(true);
+  });
+
+  test('should always support gzip', () => {
+    expect(isCodecAvailable('none')).toBe(true);
+    expect(isCodecAvailable('gzip')).toBe(true);
+  });
+
+  if (isCodecAvailable('zstd')) {
+    test('should round trip zstd', async () => {
+      const compressed = await collect(Readable.from([jsonl]).pipe(createCompressStream('zstd')));
+      const restored = await collect(Readable.from([compressed]).pipe(createDecompressStream('zstd')));
+
+      expect(restored.equals(jsonl)).toBe(true);
+    });
+  } else {
+    test('should reject zstd when zlib lacks it', () => {
+      expect(() => createCompressStream('zstd')).toThrow('zstd compression is not supported');
+      expect(() => createDecompressStream('zstd')).toThrow('zstd decompression is not supported');
+    });
+  }
+});
@@ -0,0 +1,76 @@
+import zlib from 'zlib';
+import { PassThrough, Transform } from 'stream';
+
+export type CompressionCodec = 'none' | 'gzip' | 'zstd';
+
+// zstd landed in zlib with Node 22.15, older typings do not declare it
+const zstd = zlib as unknown as {
+  createZstdCompress?: () => Transform;
+  createZstdDecompress?: () => Transform;
+};
+
+const EXTENSIONS: Record<CompressionCodec, string> = {
+  none: '',
+  gzip: '.gz',
+  zstd: '.zst'
+};
+
+export function isCodecAvailable(codec: CompressionCodec): boolean {
+  return codec !== 'zstd' || typeof zstd.createZstdCompress === 'function';
+}
+
+/**
+ * File name suffix added after `.jsonl`, e.g. `.gz`
+ */
+export function getCodecExtension(codec: CompressionCodec): string {
+  return EXTENSIONS[codec];
+}
+
+export function createCompressStream(codec: CompressionCodec): Transform {
+  switch (codec) {
+    case 'none':
+      return new PassThrough();
+    case 'gzip':
+      return zlib.createGzip();
+    case 'zstd':
+      if (!zstd.createZstdCompress) {
+        throw new Error('zstd compression is not supported by this Node.js version');
+      }
+      return zstd.createZstdCompress();
+  }
+}
+
+/**
+ * Makes a compressor emit everything written to it so far without ending the
+ * stream. Gzip uses a sync flush, which keeps the dictionary.
+ */
+export function flushCompressStream(stream: Transform, codec: CompressionCodec): Promise<void> {
+  const compressor = stream as unknown as zlib.Zlib;
+  return new Promise(resolve => {
+    switch (codec) {
+      case 'none':
+        resolve();
+        return;
+      case 'gzip':
+        compressor.flush(zlib.constants.Z_SYNC_FLUSH, () => resolve());
+        return;
+      case 'zstd':
+        compressor.flush(() => resolve());
+        return;
+    }
+  });
+}
+
+export function createDecompressStream(codec: CompressionCodec): Transform {
+  switch (codec) {
+    case 'none':
+      return new PassThrough();
+    case 'gzip':
+      return zlib.createGunzip();
+    case 'zstd':
+      if (!zstd.createZstdDecompress) {
+        throw new Error('zstd decompression is not supported by this Node.js version');
+      }
+      return zstd.createZstdDecompress();
+  }
+}
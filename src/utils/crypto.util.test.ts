@@ -0,0 +1,169 @@
+import { Readable } from 'stream';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { DecryptTransform, EncryptTransform, encryptFile, parseKeyring } from './crypto.util';
+
+async function collect(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+// Re-chunks data into small pieces to exercise header and tag boundaries
+function inPieces(data: Buffer, size: number): Readable {
+  const pieces: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += size) {
+    pieces.push(data.subarray(offset, offset + size));
+  }
+  return Readable.from(pieces);
+}
+
+describe('Crypto Utilities', () => {
+  const key = { keyId: 'key-2024', key: Buffer.alloc(32, 1) };
+  const keyring = { [key.keyId]: key.key, 'key-2023': Buffer.alloc(32, 2) };
+  const plaintext = Buffer.from('{"_id":{"$oid":"65f2c0a1e4b0a1b2c3d4e5f6"},"name":"Ada"}\n'.repeat(500));
+
+  const encrypt = (data: Buffer) => collect(Readable.from([data]).pipe(new EncryptTransform(key)));
+
+  test('should round-trip data split at arbitrary boundaries', async () => {
+    const encrypted = await encrypt(plaintext);
+
+    expect(encrypted.subarray(0, 4).toString()).toBe('MB2E');
+    expect(encrypted.includes(Buffer.from('Ada'))).toBe(false);
+
+    for (const size of [1, 7, 16, 4096]) {
+      const decrypt = new DecryptTransform(keyring);
+      await expect(collect(inPieces(encrypted, size).pipe(decrypt))).resolves.toEqual(plaintext);
+      expect(decrypt.getKeyId()).toBe('key-2024');
+    }
+  });
+
+  describe('chunks', () => {
+    const chunkSize = 1000;
+    // "MB2E", version, key ID length, "key-2024", nonce prefix and chunk size
+    const headerLength = 4 + 2 + 'key-2024'.length + 8 + 4;
+    const sealedSize = chunkSize + 16;
+
+    const encryptInChunks = (data: Buffer) =>
+      collect(Readable.from([data]).pipe(new EncryptTransform(key, chunkSize)));
+
+    test('should round-trip data that fills its last chunk, leaves it short or is empty', async () => {
+      // The plaintext is 29 full chunks
+      for (const data of [plaintext, plaintext.subarray(0, 28500), Buffer.alloc(0)]) {
+        const encrypted = await encryptInChunks(data);
+
+        expect(encrypted.length).toBe(headerLength + data.length + Math.max(Math.ceil(data.length / chunkSize), 1) * 16);
+        for (const size of [1, 999, 1016, 4096]) {
+          await expect(collect(inPieces(encrypted, size).pipe(new DecryptTransform(keyring)))).resolves.toEqual(data);
+        }
+      }
+    });
+
+    test('should not release any plaintext of a chunk that fails authentication', async () => {
+      const encrypted = await encryptInChunks(plaintext);
+      encrypted[headerLength + 2 * sealedSize + 10] ^= 1;
+
+      const released: Buffer[] = [];
+      const decrypt = inPieces(encrypted, 4096).pipe(new DecryptTransform(keyring));
+      decrypt.on('data', chunk => released.push(chunk));
+      await expect(new Promise((resolve, reject) => decrypt.on('end', resolve).on('error', reject)))
+        .rejects.toThrow('failed authentication');
+
+      expect(Buffer.concat(released)).toEqual(plaintext.subarray(0, 2 * chunkSize));
+    });
+
+    test('should reject chunks that were dropped, reordered or appended', async () => {
+      const encrypted = await encryptInChunks(plaintext);
+      const header = encrypted.subarray(0, headerLength);
+      const chunk = (index: number) => encrypted.subarray(headerLength + index * sealedSize, headerLength + (index + 1) * sealedSize);
+      const decrypt = (data: Buffer) => collect(Readable.from([data]).pipe(new DecryptTransform(keyring)));
+
+      await expect(decrypt(encrypted.subarray(0, encrypted.length - sealedSize))).rejects.toThrow('failed authentication');
+      await expect(decrypt(Buffer.concat([header, chunk(1), chunk(0), encrypted.subarray(headerLength + 2 * sealedSize)])))
+        .rejects.toThrow('failed authentication');
+      await expect(decrypt(Buffer.concat([encrypted, chunk(28)]))).rejects.toThrow('failed authentication');
+    });
+
+    test('should reject parts in the previous format', async () => {
+      const encrypted = await encryptInChunks(plaintext);
+      encrypted[4] = 1;
+
+      await expect(collect(Readable.from([encrypted]).pipe(new DecryptTransform(keyring))))
+        .rejects.toThrow('Unsupported encryption format version 1');
+    });
+  });
+
+  test('should use a fresh nonce for every stream', async () => {
+    const [first, second] = await Promise.all([encrypt(plaintext), encrypt(plaintext)]);
+
+    expect(first.equals(second)).toBe(false);
+  });
+
+  test('should reject modified ciphertext', async () => {
+    const encrypted = await encrypt(plaintext);
+    encrypted[encrypted.length - 100] ^= 1;
+
+    await expect(collect(Readable.from([encrypted]).pipe(new DecryptTransform(keyring))))
+      .rejects.toThrow('failed authentication');
+  });
+
+  test('should reject a swapped key ID in the header', async () => {
+    const encrypted = await encrypt(plaintext);
+    const swapped = Buffer.concat([
+      encrypted.subarray(0, 6),
+      Buffer.from('key-2023'),
+      encrypted.subarray(6 + 'key-2024'.length)
+    ]);
+
+    await expect(collect(Readable.from([swapped]).pipe(new DecryptTransform(keyring))))
+      .rejects.toThrow('failed authentication');
+  });
+
+  test('should reject truncated data and unknown keys', async () => {
+    const encrypted = await encrypt(plaintext);
+
+    await expect(collect(Readable.from([encrypted.subarray(0, encrypted.length - 5)]).pipe(new DecryptTransform(keyring))))
+      .rejects.toThrow('failed authentication');
+    await expect(collect(Readable.from([encrypted.subarray(0, 10)]).pipe(new DecryptTransform(keyring))))
+      .rejects.toThrow('truncated');
+    await expect(collect(Readable.from([encrypted]).pipe(new DecryptTransform({}))))
+      .rejects.toThrow('Encryption key key-2024 is not in the keyring');
+    await expect(collect(Readable.from([plaintext]).pipe(new DecryptTransform(keyring))))
+      .rejects.toThrow('not an encrypted backup part');
+  });
+
+  test('should encrypt files', async () => {
+    const tempDir = mkdtempSync(path.join(tmpdir(), 'crypto-test-'));
+    try {
+      const inputPath = path.join(tempDir, 'users.jsonl.part1');
+      writeFileSync(inputPath, plaintext);
+
+      await encryptFile(inputPath, `${inputPath}.enc`, key);
+
+      const decrypted = await collect(Readable.from([readFileSync(`${inputPath}.enc`)]).pipe(new DecryptTransform(keyring)));
+      expect(decrypted).toEqual(plaintext);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('parseKeyring', () => {
+    const base64Key = Buffer.alloc(32, 3).toString('base64');
+
+    test('should parse comma and newline separated entries', () => {
+      const parsed = parseKeyring(`# rotated 2024-01\nkey-a:${base64Key}\n\nkey-b:${base64Key},key-c:${base64Key}`);
+
+      expect(Object.keys(parsed)).toEqual(['key-a', 'key-b', 'key-c']);
+      expect(parsed['key-a']).toEqual(Buffer.alloc(32, 3));
+    });
+
+    test('should reject malformed entries, short keys and duplicates', () => {
+      expect(() => parseKeyring(base64Key)).toThrow('expected <keyId>:<base64 key>');
+      expect(() => parseKeyring(`key-a:${Buffer.alloc(16).toString('base64')}`)).toThrow('must be 32 bytes');
+      expect(() => parseKeyring(`key-a:${base64Key}\nkey-a:${base64Key}`)).toThrow('defined more than once');
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { Transform, TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import { EncryptionKey, Keyring } from '../types/crypto.types';
+
+export const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+
+/**
+ * Encrypted objects are laid out as
+ *   "MB2E" | version (1 byte) | key ID length (1 byte) | key ID | nonce prefix (8 bytes) | chunk size (4 bytes)
+ *   chunks: ciphertext | GCM auth tag (16 bytes)
+ * The plaintext is sealed in chunks of chunk size bytes, only the last one may
+ * be shorter or empty. A chunk's IV is the nonce prefix followed by its index
+ * and its additional data is the header followed by a flag that is 1 for the
+ * last chunk only, so the key ID cannot be swapped and chunks cannot be
+ * modified, reordered, dropped or appended without failing authentication.
+ */
+const MAGIC = Buffer.from('MB2E');
+const FORMAT_VERSION = 2;
+const NONCE_PREFIX_LENGTH = 8;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+const CHUNK_SIZE = 64 * 1024;
+// Bounds what a decryptor buffers for a header it has not authenticated yet
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+const MAX_CHUNK_INDEX = 0xffffffff;
+const KEY_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+interface Header {
+  keyId: string;
+  noncePrefix: Buffer;
+  chunkSize: number;
+  length: number;
+}
+
+function buildHeader(keyId: string, noncePrefix: Buffer, chunkSize: number): Buffer {
+  const keyIdBytes = Buffer.from(keyId, 'utf8');
+  const chunkSizeBytes = Buffer.alloc(4);
+  chunkSizeBytes.writeUInt32BE(chunkSize);
+  return Buffer.concat([MAGIC, Buffer.from([FORMAT_VERSION, keyIdBytes.length]), keyIdBytes, noncePrefix, chunkSizeBytes]);
+}
+
+/**
+ * Parses the header at the start of `data`, or returns null if more bytes are needed
+ */
+function parseHeader(data: Buffer): Header | null {
+  if (data.length < MAGIC.length + 2) return null;
+  if (!data.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw new Error('Data is not an encrypted backup part');
+  }
+
+  const version = data[MAGIC.length];
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported encryption format version ${version}`);
+  }
+
+  const keyIdLength = data[MAGIC.length + 1];
+  const keyIdStart = MAGIC.length + 2;
+  const noncePrefixStart = keyIdStart + keyIdLength;
+  const length = noncePrefixStart + NONCE_PREFIX_LENGTH + 4;
+  if (data.length < length) return null;
+
+  const chunkSize = data.readUInt32BE(noncePrefixStart + NONCE_PREFIX_LENGTH);
+  if (chunkSize === 0 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error(`Invalid encryption chunk size ${chunkSize}`);
+  }
+
+  return {
+    keyId: data.subarray(keyIdStart, noncePrefixStart).toString('utf8'),
+    noncePrefix: data.subarray(noncePrefixStart, noncePrefixStart + NONCE_PREFIX_LENGTH),
+    chunkSize,
+    length
+  };
+}
+
+function getChunkIv(noncePrefix: Buffer, index: number): Buffer {
+  if (index > MAX_CHUNK_INDEX) {
+    throw new Error('Encrypted data has too many chunks');
+  }
+  const iv = Buffer.alloc(NONCE_PREFIX_LENGTH + 4);
+  noncePrefix.copy(iv);
+  iv.writeUInt32BE(index, NONCE_PREFIX_LENGTH);
+  return iv;
+}
+
+function getChunkAad(header: Buffer, last: boolean): Buffer {
+  return Buffer.concat([header, Buffer.from([last ? 1 : 0])]);
+}
+
+export class EncryptTransform extends Transform {
+  private readonly key: Buffer;
+  private readonly header: Buffer;
+  private readonly noncePrefix: Buffer;
+  private pending: Buffer = Buffer.alloc(0);
+  private index = 0;
+
+  constructor({ keyId, key }: EncryptionKey, private readonly chunkSize: number = CHUNK_SIZE) {
+    super();
+    this.key = key;
+    this.noncePrefix = randomBytes(NONCE_PREFIX_LENGTH);
+    this.header = buildHeader(keyId, this.noncePrefix, chunkSize);
+    this.push(this.header);
+  }
+
+  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback) {
+    try {
+      this.pending = Buffer.concat([this.pending, chunk]);
+      // A full chunk is only sealed once more data follows, the last one is sealed on flush
+      while (this.pending.length > this.chunkSize) {
+        this.push(this.seal(this.pending.subarray(0, this.chunkSize), false));
+        this.pending = this.pending.subarray(this.chunkSize);
+      }
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback) {
+    try {
+      this.push(this.seal(this.pending, true));
+      this.pending = Buffer.alloc(0);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  private seal(plaintext: Buffer, last: boolean): Buffer {
+    const cipher = createCipheriv(ENCRYPTION_ALGORITHM, this.key, getChunkIv(this.noncePrefix, this.index++));
+    cipher.setAAD(getChunkAad(this.header, last));
+    return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+  }
+}
+
+/**
+ * Decrypts with the key named in the header. Each chunk is released only
+ * once its auth tag has been verified, so consumers never see modified
+ * plaintext; data cut off or extended after a chunk fails at that point.
+ */
+export class DecryptTransform extends Transform {
+  private pending: Buffer = Buffer.alloc(0);
+  private header: Buffer | null = null;
+  private noncePrefix: Buffer = Buffer.alloc(0);
+  private chunkSize = 0;
+  private key: Buffer | null = null;
+  private keyId: string | null = null;
+  private index = 0;
+
+  constructor(private readonly keyring: Keyring) {
+    super();
+  }
+
+  getKeyId(): string | null {
+    return this.keyId;
+  }
+
+  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback) {
+    try {
+      this.pending = Buffer.concat([this.pending, chunk]);
+
+      if (!this.header) {
+        const header = parseHeader(this.pending);
+        if (!header) {
+          callback();
+          return;
+        }
+
+        const key = this.keyring[header.keyId];
+        if (!key) {
+          throw new Error(`Encryption key ${header.keyId} is not in the keyring`);
+        }
+
+        this.keyId = header.keyId;
+        this.key = key;
+        this.noncePrefix = header.noncePrefix;
+        this.chunkSize = header.chunkSize;
+        this.header = this.pending.subarray(0, header.length);
+        this.pending = this.pending.subarray(header.length);
+      }
+
+      // A full chunk followed by more data is not the last one
+      const sealedSize = this.chunkSize + TAG_LENGTH;
+      while (this.pending.length > sealedSize) {
+        this.push(this.open(this.pending.subarray(0, sealedSize), false));
+        this.pending = this.pending.subarray(sealedSize);
+      }
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback) {
+    if (!this.header || this.pending.length < TAG_LENGTH) {
+      callback(new Error('Encrypted data is truncated'));
+      return;
+    }
+
+    try {
+      this.push(this.open(this.pending, true));
+      this.pending = Buffer.alloc(0);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  private open(sealed: Buffer, last: boolean): Buffer {
+    const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, this.key!, getChunkIv(this.noncePrefix, this.index++));
+    decipher.setAAD(getChunkAad(this.header!, last));
+    decipher.setAuthTag(sealed.subarray(sealed.length - TAG_LENGTH));
+    try {
+      return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - TAG_LENGTH)), decipher.final()]);
+    } catch (error) {
+      throw new Error('Encrypted data failed authentication, it was modified or the key is wrong');
+    }
+  }
+}
+
+/**
+ * Encrypts a file to `outputPath` without loading it into memory
+ */
+export async function encryptFile(inputPath: string, outputPath: string, key: EncryptionKey): Promise<void> {
+  await pipeline(createReadStream(inputPath), new EncryptTransform(key), createWriteStream(outputPath));
+}
+
+/**
+ * Parses `<keyId>:<base64 key>` entries separated by commas or new lines.
+ * Blank lines and lines starting with # are ignored.
+ */
+export function parseKeyring(text: string): Keyring {
+  const keyring: Keyring = {};
+
+  for (const entry of text.split(/[,\n]/).map(line => line.trim())) {
+    if (!entry || entry.startsWith('#')) continue;
+
+    const separator = entry.indexOf(':');
+    const keyId = entry.slice(0, separator).trim();
+    if (separator < 0 || !KEY_ID_PATTERN.test(keyId)) {
+      throw new Error(`Invalid key entry "${entry.slice(0, 16)}...", expected <keyId>:<base64 key> with a key ID of letters, digits, ".", "_" or "-"`);
+    }
+
+    const key = Buffer.from(entry.slice(separator + 1).trim(), 'base64');
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`Key ${keyId} must be ${KEY_LENGTH} bytes (base64 encoded), got ${key.length}`);
+    }
+    if (keyring[keyId]) {
+      throw new Error(`Key ${keyId} is defined more than once`);
+    }
+    keyring[keyId] = key;
+  }
+
+  return keyring;
+}
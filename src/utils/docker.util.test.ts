@@ -1,5 +1,5 @@
 import { exec, ExecException, ChildProcess, ExecOptions } from 'child_process';
-import { DockerError, execInContainer, copyFromContainer, isContainerRunning } from './docker.util';
+import { DockerError, execInContainer, copyFromContainer, isContainerRunning, runContainer, removeContainer } from './docker.util';
 import { execInContainer as execInContainerUtil } from './docker.util';
 
 type ExecCallback = (error: ExecException | null, stdout: string | Buffer, stderr: string | Buffer) => void;
@@ -142,4 +142,43 @@ describe('Docker Utilities', () => {
         .rejects.toThrow('Docker ps failed');
     }, 30000);
   });
-}); 
\ No newline at end of file
+
+  describe('runContainer', () => {
+    test('should start a detached container that removes itself', async () => {
+      mockExec.mockImplementation(((cmd: string, callback: ExecCallback) => {
+        callback(null, 'abc123\n', '');
+        return {} as ChildProcess;
+      }) as any);
+
+      const id = await runContainer('drill', 'mongo:7');
+
+      expect(id).toBe('abc123');
+      expect(mockExec).toHaveBeenCalledWith(
+        'docker run -d --rm --name drill mongo:7',
+        expect.any(Function)
+      );
+    });
+
+    test('should throw DockerError when the container cannot start', async () => {
+      mockExec.mockImplementation(((cmd: string, callback: ExecCallback) => {
+        callback(new Error('No such image'), '', '');
+        return {} as ChildProcess;
+      }) as any);
+
+      await expect(runContainer('drill', 'mongo:404')).rejects.toThrow(DockerError);
+    });
+  });
+
+  describe('removeContainer', () => {
+    test('should force remove the container', async () => {
+      mockExec.mockImplementation(((cmd: string, callback: ExecCallback) => {
+        callback(null, 'drill\n', '');
+        return {} as ChildProcess;
+      }) as any);
+
+      await removeContainer('drill');
+
+      expect(mockExec).toHaveBeenCalledWith('docker rm -f drill', expect.any(Function));
+    });
+  });
+});
@@ -51,4 +51,34 @@ export function isContainerRunning(containerName: string): Promise<boolean> {
       resolve(stdout.trim() === containerName);
     });
   });
-} 
\ No newline at end of file
+}
+
+/**
+ * Starts a detached container that docker removes once it stops
+ * @returns the ID of the new container
+ */
+export function runContainer(containerName: string, image: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    exec(`docker run -d --rm --name ${containerName} ${image}`, (error, stdout) => {
+      if (error) {
+        logger.error(`Docker run error: ${error.message}`);
+        reject(new DockerError(`Failed to start container: ${error.message}`, error.code));
+        return;
+      }
+      resolve(stdout.trim());
+    });
+  });
+}
+
+export function removeContainer(containerName: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    exec(`docker rm -f ${containerName}`, error => {
+      if (error) {
+        logger.error(`Docker rm error: ${error.message}`);
+        reject(new DockerError(`Failed to remove container: ${error.message}`, error.code));
+        return;
+      }
+      resolve();
+    });
+  });
+}
@@ -7,9 +7,17 @@ import { pipeline } from 'stream';
 
 const pipelineAsync = promisify(pipeline);
 
-export async function calculateChecksum(filePath: string): Promise<string> {
-  const hash = createHash('sha1');
-  const fileStream = createReadStream(filePath);
+/**
+ * Hex SHA-1 (or another algorithm's digest) of a file, or of the byte range
+ * start..end (inclusive, as in fs.createReadStream) when given
+ */
+export async function calculateChecksum(
+  filePath: string,
+  range?: { start: number; end: number },
+  algorithm: string = 'sha1'
+): Promise<string> {
+  const hash = createHash(algorithm);
+  const fileStream = createReadStream(filePath, range);
   
   try {
     await pipelineAsync(fileStream, hash);
@@ -0,0 +1,75 @@
+import { getDumpArgs, isEmptyFilter, isValidNamespacePattern, matchesNamespace } from './filter.util';
+import { NamespaceFilter } from '../types/filter.types';
+
+describe('Filter Utils', () => {
+  const filter = (include: string[], exclude: string[] = []): NamespaceFilter => ({ include, exclude });
+
+  describe('matchesNamespace', () => {
+    test('should match everything without include rules', () => {
+      expect(matchesNamespace(filter([]), 'app', 'users')).toBe(true);
+      expect(matchesNamespace(undefined, 'admin', 'system.users')).toBe(true);
+    });
+
+    test('should treat patterns without a dot as whole databases', () => {
+      const rules = filter([], ['admin', 'config']);
+
+      expect(matchesNamespace(rules, 'admin', 'system.version')).toBe(false);
+      expect(matchesNamespace(rules, 'config', 'chunks')).toBe(false);
+      expect(matchesNamespace(rules, 'app', 'users')).toBe(true);
+    });
+
+    test('should apply excludes after includes', () => {
+      const rules = filter(['app.*', 'crm.contacts'], ['*.tmp_*', 'app.audit.log']);
+
+      expect(matchesNamespace(rules, 'app', 'users')).toBe(true);
+      expect(matchesNamespace(rules, 'app', 'tmp_import')).toBe(false);
+      expect(matchesNamespace(rules, 'app', 'audit.log')).toBe(false);
+      expect(matchesNamespace(rules, 'crm', 'contacts')).toBe(true);
+      expect(matchesNamespace(rules, 'crm', 'leads')).toBe(false);
+    });
+
+    test('should match ? against a single character and treat other characters literally', () => {
+      expect(matchesNamespace(filter(['app.logs_202?']), 'app', 'logs_2024')).toBe(true);
+      expect(matchesNamespace(filter(['app.logs_202?']), 'app', 'logs_20245')).toBe(false);
+      expect(matchesNamespace(filter(['app.a+b']), 'app', 'aab')).toBe(false);
+    });
+  });
+
+  describe('getDumpArgs', () => {
+    test('should not restrict mongodump without include rules', () => {
+      expect(getDumpArgs(undefined)).toEqual([]);
+      expect(getDumpArgs(filter([], ['admin']))).toEqual([]);
+    });
+
+    test('should dump a single collection with --db and --collection', () => {
+      expect(getDumpArgs(filter(['app.users'], ['app.users_old']))).toEqual(['--db=app', '--collection=users']);
+    });
+
+    test('should translate excludes within the included database', () => {
+      expect(getDumpArgs(filter(['app'], ['app.sessions', '*.tmp_*', 'app.*_old', 'crm.leads']))).toEqual([
+        '--db=app',
+        '--excludeCollection=sessions',
+        '--excludeCollectionsWithPrefix=tmp_'
+      ]);
+    });
+
+    test('should dump everything when the includes span databases', () => {
+      expect(getDumpArgs(filter(['app.users', 'crm.contacts']))).toEqual([]);
+      expect(getDumpArgs(filter(['app*']))).toEqual([]);
+    });
+  });
+
+  test('should validate patterns', () => {
+    expect(isValidNamespacePattern('app')).toBe(true);
+    expect(isValidNamespacePattern('*.tmp_*')).toBe(true);
+    expect(isValidNamespacePattern('.users')).toBe(false);
+    expect(isValidNamespacePattern('app.')).toBe(false);
+    expect(isValidNamespacePattern('my app.users')).toBe(false);
+  });
+
+  test('should tell empty filters apart', () => {
+    expect(isEmptyFilter(undefined)).toBe(true);
+    expect(isEmptyFilter(filter([], []))).toBe(true);
+    expect(isEmptyFilter(filter([], ['admin']))).toBe(false);
+  });
+});
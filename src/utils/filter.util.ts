@@ -0,0 +1,85 @@
+import { NamespaceFilter } from '../types/filter.types';
+
+interface NamespacePattern {
+  database: string;
+  collection: string;
+}
+
+const GLOB_CHARACTERS = /[*?]/;
+
+/**
+ * Database names cannot contain dots, so the first dot separates the database
+ * from the collection, which may contain further dots
+ */
+function parsePattern(pattern: string): NamespacePattern {
+  const dot = pattern.indexOf('.');
+  return dot === -1
+    ? { database: pattern, collection: '*' }
+    : { database: pattern.slice(0, dot), collection: pattern.slice(dot + 1) };
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map(character => {
+      if (character === '*') return '.*';
+      if (character === '?') return '.';
+      return character.replace(/[\\^$+.()|[\]{}]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+function matchesPattern(pattern: string, database: string, collection: string): boolean {
+  const parsed = parsePattern(pattern);
+  return globToRegExp(parsed.database).test(database) && globToRegExp(parsed.collection).test(collection);
+}
+
+export function isValidNamespacePattern(pattern: string): boolean {
+  const { database, collection } = parsePattern(pattern);
+  return database.length > 0 && collection.length > 0 && !/[/\\ "$]/.test(database);
+}
+
+export function isEmptyFilter(filter: NamespaceFilter | undefined): boolean {
+  return !filter || (filter.include.length === 0 && filter.exclude.length === 0);
+}
+
+export function matchesNamespace(filter: NamespaceFilter | undefined, database: string, collection: string): boolean {
+  if (!filter) return true;
+  const included = filter.include.length === 0 ||
+    filter.include.some(pattern => matchesPattern(pattern, database, collection));
+  return included && !filter.exclude.some(pattern => matchesPattern(pattern, database, collection));
+}
+
+/**
+ * Translates a filter into mongodump flags where mongodump can express it:
+ * includes within a single literal database become `--db` (plus
+ * `--collection` for a single literal collection) and excludes in that
+ * database become `--excludeCollection` or `--excludeCollectionsWithPrefix`.
+ * Anything else is dumped and dropped by `matchesNamespace` afterwards.
+ */
+export function getDumpArgs(filter: NamespaceFilter | undefined): string[] {
+  if (!filter || filter.include.length === 0) return [];
+
+  const includes = filter.include.map(parsePattern);
+  const database = includes[0].database;
+  if (GLOB_CHARACTERS.test(database) || includes.some(include => include.database !== database)) {
+    return [];
+  }
+
+  const args = [`--db=${database}`];
+  if (includes.length === 1 && !GLOB_CHARACTERS.test(includes[0].collection)) {
+    // mongodump rejects --excludeCollection together with --collection
+    return [...args, `--collection=${includes[0].collection}`];
+  }
+
+  for (const exclude of filter.exclude.map(parsePattern)) {
+    if (!globToRegExp(exclude.database).test(database)) continue;
+    if (!GLOB_CHARACTERS.test(exclude.collection)) {
+      args.push(`--excludeCollection=${exclude.collection}`);
+    } else if (/^[^*?]+\*$/.test(exclude.collection)) {
+      args.push(`--excludeCollectionsWithPrefix=${exclude.collection.slice(0, -1)}`);
+    }
+  }
+  return args;
+}
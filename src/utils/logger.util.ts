@@ -30,4 +30,19 @@ const logger = winston.createLogger({
   ]
 });
 
+/**
+ * Sends console output of every level to stderr so stdout is left for
+ * command output
+ */
+export function logToStderr() {
+  for (const transport of logger.transports) {
+    if (transport instanceof winston.transports.Console) {
+      // The constructor turns the level list into a lookup object, which is what log() reads
+      (transport as unknown as { stderrLevels: Record<string, boolean> }).stderrLevels = Object.fromEntries(
+        Object.keys(winston.config.npm.levels).map(level => [level, true])
+      );
+    }
+  }
+}
+
 export default logger; 
\ No newline at end of file
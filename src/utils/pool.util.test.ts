@@ -0,0 +1,49 @@
+import { runWithConcurrency } from './pool.util';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Pool Utilities', () => {
+  test('should return results in item order with bounded concurrency', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await runWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(ms);
+      running--;
+      return index * 10;
+    });
+
+    expect(results).toEqual([0, 10, 20, 30, 40]);
+    expect(maxRunning).toBe(2);
+  });
+
+  test('should give each worker its own index', async () => {
+    const workersByItem: number[] = [];
+
+    await runWithConcurrency(['a', 'b', 'c', 'd'], 3, async (item, index, worker) => {
+      workersByItem[index] = worker;
+      await delay(index === 0 ? 20 : 1);
+    });
+
+    expect(new Set(workersByItem.slice(0, 3))).toEqual(new Set([0, 1, 2]));
+    expect(workersByItem[3]).not.toBe(0);
+  });
+
+  test('should stop taking items after a failure and rethrow it', async () => {
+    const started: number[] = [];
+
+    await expect(runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+      started.push(item);
+      await delay(5);
+      if (item === 2) throw new Error('part 2 failed');
+    })).rejects.toThrow('part 2 failed');
+
+    expect(started).toEqual([1, 2, 3]);
+  });
+
+  test('should handle an empty list', async () => {
+    await expect(runWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+  });
+});
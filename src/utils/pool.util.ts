@@ -0,0 +1,35 @@
+/**
+ * Runs task for every item with at most `concurrency` tasks in flight and
+ * returns the results in item order. Each task is told which worker runs it,
+ * so workers can keep their own state such as a B2 upload URL. After the
+ * first failure no new items are started; the error is rethrown once the
+ * running tasks have settled.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number, worker: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+
+  const work = async (worker: number) => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index], index, worker);
+      } catch (error) {
+        failure = failure || { error };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, (_, worker) => work(worker)));
+
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+  return results;
+}
@@ -0,0 +1,84 @@
+import { applyRetentionPolicy } from './retention.util';
+import { DatedSnapshot, RetentionPolicy } from '../types/retention.types';
+
+describe('Retention Utils', () => {
+  const snapshot = (iso: string): DatedSnapshot => ({
+    snapshotId: iso.replace(/[:.]/g, '-'),
+    createdAt: new Date(iso)
+  });
+
+  const policy = (overrides: Partial<RetentionPolicy>): RetentionPolicy => ({
+    keepLast: 1,
+    keepDaily: 0,
+    keepWeekly: 0,
+    keepMonthly: 0,
+    ...overrides
+  });
+
+  // Two runs a day, 2024-03-01 .. 2024-03-20
+  const twiceDaily: DatedSnapshot[] = [];
+  for (let day = 1; day <= 20; day++) {
+    const date = `2024-03-${String(day).padStart(2, '0')}`;
+    twiceDaily.push(snapshot(`${date}T00:00:00.000Z`), snapshot(`${date}T12:00:00.000Z`));
+  }
+
+  test('should always keep the latest N snapshots', () => {
+    const { kept, expired } = applyRetentionPolicy(twiceDaily, policy({ keepLast: 3 }));
+
+    expect(kept.map(entry => entry.snapshotId)).toEqual([
+      '2024-03-20T12-00-00-000Z',
+      '2024-03-20T00-00-00-000Z',
+      '2024-03-19T12-00-00-000Z'
+    ]);
+    expect(kept.every(entry => entry.reasons.includes('last'))).toBe(true);
+    expect(expired).toHaveLength(37);
+  });
+
+  test('should keep the newest snapshot of each day', () => {
+    const { kept } = applyRetentionPolicy(twiceDaily, policy({ keepDaily: 3 }));
+
+    expect(kept.map(entry => entry.snapshotId)).toEqual([
+      '2024-03-20T12-00-00-000Z',
+      '2024-03-19T12-00-00-000Z',
+      '2024-03-18T12-00-00-000Z'
+    ]);
+    expect(kept[0].reasons).toEqual(['last', 'daily']);
+  });
+
+  test('should keep the newest snapshot of each ISO week and month', () => {
+    const history = [
+      snapshot('2023-12-31T12:00:00.000Z'), // Sunday, ISO week 2023-W52
+      snapshot('2024-01-01T12:00:00.000Z'), // Monday, ISO week 2024-W01
+      snapshot('2024-01-07T12:00:00.000Z'), // Sunday, ISO week 2024-W01
+      snapshot('2024-02-15T12:00:00.000Z')
+    ];
+
+    const weekly = applyRetentionPolicy(history, policy({ keepLast: 1, keepWeekly: 3 }));
+    expect(weekly.kept.map(entry => entry.snapshotId)).toEqual([
+      '2024-02-15T12-00-00-000Z',
+      '2024-01-07T12-00-00-000Z',
+      '2023-12-31T12-00-00-000Z'
+    ]);
+
+    const monthly = applyRetentionPolicy(history, policy({ keepLast: 1, keepMonthly: 12 }));
+    expect(monthly.kept.map(entry => entry.snapshotId)).toEqual([
+      '2024-02-15T12-00-00-000Z',
+      '2024-01-07T12-00-00-000Z',
+      '2023-12-31T12-00-00-000Z'
+    ]);
+    expect(monthly.expired.map(entry => entry.snapshotId)).toEqual(['2024-01-01T12-00-00-000Z']);
+  });
+
+  test('should combine rules without keeping a snapshot twice', () => {
+    const { kept, expired } = applyRetentionPolicy(twiceDaily, policy({
+      keepLast: 2,
+      keepDaily: 14,
+      keepWeekly: 8,
+      keepMonthly: 12
+    }));
+
+    expect(new Set(kept.map(entry => entry.snapshotId)).size).toBe(kept.length);
+    expect(kept.length + expired.length).toBe(twiceDaily.length);
+    expect(kept.map(entry => entry.snapshotId)).toContain('2024-03-03T12-00-00-000Z'); // end of ISO week 2024-W09
+  });
+});
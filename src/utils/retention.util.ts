@@ -0,0 +1,73 @@
+import {
+  DatedSnapshot,
+  RetainedSnapshot,
+  RetentionPolicy,
+  RetentionReason
+} from '../types/retention.types';
+
+interface RetentionSelection {
+  kept: RetainedSnapshot[];
+  expired: DatedSnapshot[];
+}
+
+const PERIOD_KEYS: Record<Exclude<RetentionReason, 'last'>, (date: Date) => string> = {
+  daily: date => date.toISOString().slice(0, 10),
+  weekly: date => getIsoWeek(date),
+  monthly: date => date.toISOString().slice(0, 7)
+};
+
+/**
+ * Applies a grandfather-father-son policy: walking from newest to oldest, the
+ * newest snapshot of each day, ISO week and month is kept until the count for
+ * that period is reached, and the latest `keepLast` snapshots are always kept.
+ * All periods are evaluated in UTC.
+ */
+export function applyRetentionPolicy(
+  snapshots: DatedSnapshot[],
+  policy: RetentionPolicy
+): RetentionSelection {
+  const newestFirst = [...snapshots].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const reasons = new Map<string, RetentionReason[]>();
+
+  const keep = (snapshot: DatedSnapshot, reason: RetentionReason) => {
+    const existing = reasons.get(snapshot.snapshotId) || [];
+    reasons.set(snapshot.snapshotId, [...existing, reason]);
+  };
+
+  newestFirst.slice(0, policy.keepLast).forEach(snapshot => keep(snapshot, 'last'));
+
+  const periodLimits: [Exclude<RetentionReason, 'last'>, number][] = [
+    ['daily', policy.keepDaily],
+    ['weekly', policy.keepWeekly],
+    ['monthly', policy.keepMonthly]
+  ];
+
+  for (const [reason, limit] of periodLimits) {
+    const seenPeriods = new Set<string>();
+    for (const snapshot of newestFirst) {
+      if (seenPeriods.size >= limit) break;
+      const period = PERIOD_KEYS[reason](snapshot.createdAt);
+      if (!seenPeriods.has(period)) {
+        seenPeriods.add(period);
+        keep(snapshot, reason);
+      }
+    }
+  }
+
+  return {
+    kept: newestFirst
+      .filter(snapshot => reasons.has(snapshot.snapshotId))
+      .map(snapshot => ({ ...snapshot, reasons: reasons.get(snapshot.snapshotId)! })),
+    expired: newestFirst.filter(snapshot => !reasons.has(snapshot.snapshotId))
+  };
+}
+
+function getIsoWeek(date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // Shift to the Thursday of the same week, which decides the ISO year
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday);
+  const yearStart = new Date(Date.UTC(day.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((day.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
@@ -0,0 +1,74 @@
+import { CompressionCodec, getCodecExtension } from './compression.util';
+
+export const SNAPSHOTS_ROOT = 'snapshots';
+export const MANIFEST_FILE_NAME = 'manifest.json';
+export const MANIFEST_VERSION = 1;
+export const CHANGES_ROOT = 'changes';
+export const CHANGE_SEGMENT_FILE_NAME = 'segment.json';
+
+/**
+ * Remote layout of a snapshot:
+ * snapshots/<snapshotId>/<database>/<collection>/<collection>.jsonl[.gz|.zst].partN
+ * snapshots/<snapshotId>/oplog.jsonl[.gz|.zst].partN (with oplog capture)
+ */
+export function getSnapshotPrefix(snapshotId: string): string {
+  return `${SNAPSHOTS_ROOT}/${snapshotId}/`;
+}
+
+/**
+ * Snapshot IDs are the start time with characters that are awkward in paths replaced
+ */
+export function createSnapshotId(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+/**
+ * The manifest is uploaded last, so a snapshot is complete only once it exists
+ */
+export function getManifestFileName(snapshotId: string): string {
+  return `${getSnapshotPrefix(snapshotId)}${MANIFEST_FILE_NAME}`;
+}
+
+export function getCollectionPrefix(snapshotId: string, database: string, collection: string): string {
+  return `${getSnapshotPrefix(snapshotId)}${database}/${collection}/`;
+}
+
+export function getPartFileName(
+  snapshotId: string,
+  database: string,
+  collection: string,
+  partNumber: number,
+  compression: CompressionCodec = 'none'
+): string {
+  const extension = getCodecExtension(compression);
+  return `${getCollectionPrefix(snapshotId, database, collection)}${collection}.jsonl${extension}.part${partNumber}`;
+}
+
+/**
+ * Oplog parts sit at the snapshot root, where no database directory can clash with them
+ */
+export function getOplogPartFileName(
+  snapshotId: string,
+  partNumber: number,
+  compression: CompressionCodec = 'none'
+): string {
+  return `${getSnapshotPrefix(snapshotId)}oplog.jsonl${getCodecExtension(compression)}.part${partNumber}`;
+}
+
+/**
+ * Remote layout of the change stream between snapshots, with segment IDs
+ * formed like snapshot IDs from the segment's start:
+ * changes/<segmentId>/events.jsonl[.gz|.zst]
+ * changes/<segmentId>/segment.json (uploaded last)
+ */
+export function getChangeSegmentPrefix(segmentId: string): string {
+  return `${CHANGES_ROOT}/${segmentId}/`;
+}
+
+export function getChangeEventsFileName(segmentId: string, compression: CompressionCodec = 'none'): string {
+  return `${getChangeSegmentPrefix(segmentId)}events.jsonl${getCodecExtension(compression)}`;
+}
+
+export function getChangeSegmentFileName(segmentId: string): string {
+  return `${getChangeSegmentPrefix(segmentId)}${CHANGE_SEGMENT_FILE_NAME}`;
+}
@@ -0,0 +1,32 @@
+import { Writable } from 'stream';
+
+/**
+ * Resolves once a writable that returned false from write() can take more
+ * data. Rejects if it fails or closes first, which would otherwise leave the
+ * writer waiting for a 'drain' that never comes.
+ */
+export function waitForDrain(stream: Writable): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      stream.off('drain', onDrain);
+      stream.off('error', onError);
+      stream.off('close', onClose);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('Stream closed before it drained'));
+    };
+
+    stream.on('drain', onDrain);
+    stream.on('error', onError);
+    stream.on('close', onClose);
+  });
+}